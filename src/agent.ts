@@ -7,23 +7,122 @@
  */
 
 import type { Server } from "node:http";
-import type { Express, Request, Response } from "express";
+import { SpanKind, trace } from "@opentelemetry/api";
+import type { Express, NextFunction, Request, Response } from "express";
 import express from "express";
 import type winston from "winston";
-import { AuthValidator } from "./auth.js";
+import {
+  AuthError,
+  type Authentication,
+  AuthValidator,
+  authenticationOf,
+  captureRawBody,
+} from "./auth.js";
+import { Cassette, type CassetteConfig, resolveCassetteConfig } from "./cassette.js";
+import { type ConcurrencyOptions, Semaphore, SemaphorePool } from "./concurrency.js";
 import { Context } from "./context.js";
-import type { AgentResponse, AuthConfig, LLMConfig } from "./domain.js";
-import { HTTPClient } from "./http.js";
-import { LLM } from "./llm/index.js";
-import { getLogger } from "./logger.js";
-import type { Event, ExternalAgentResponse } from "./protocol.js";
+import type { AgentResponse, AuthConfig } from "./domain.js";
+import { AgentError } from "./errors.js";
+import { type CircuitBreakerPolicy, HTTPClient, type HTTPRetryPolicy } from "./http.js";
+import {
+  IDEMPOTENT_REPLAY_HEADER,
+  type IdempotencyOptions,
+  type IdempotencyStore,
+  InMemoryIdempotencyStore,
+  idempotencyKey,
+  requestIdOf,
+} from "./idempotency.js";
+import { LLM, type LLMProviderSpec } from "./llm/index.js";
+import type { LLMPricing } from "./llm/usage.js";
+import { createLogger, type LogFormat, type LoggerLike, runWithLogScope } from "./logger.js";
+import {
+  AgentMetrics,
+  type ConcurrencyQueue,
+  type MetricLabels,
+  type MetricsOptions,
+  MetricsRegistry,
+} from "./metrics.js";
+import type { Event, ExternalAgentResponse, IncomingRequest } from "./protocol.js";
 import { filterMessages, parseIncomingRequest } from "./protocol.js";
+import { type RedactionConfig, Redactor } from "./redaction.js";
+import { type CorrelationHeader, createRequestScope, runInRequestScope } from "./scope.js";
+import { Session, type SessionData, type SessionStore } from "./session.js";
+import { requestParentContext, withSpan } from "./telemetry.js";
 import { getTimeMs } from "./utils.js";
 
 // Configuration constants
 const DEFAULT_HTTP_TIMEOUT_MS = 10000;
 const DEFAULT_REQUEST_SIZE_LIMIT = "10mb";
 const DEFAULT_SERVER_PORT = 3000;
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30000;
+// Time aborted requests get to stop before shutdown goes ahead without them
+const ABORTED_REQUESTS_TIMEOUT_MS = 1000;
+const DEFAULT_SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGTERM", "SIGINT"];
+const DEFAULT_MAX_QUEUED_REQUESTS = 100;
+const DEFAULT_RETRY_AFTER_SECONDS = 1;
+const DEFAULT_DEADLINE_RESPONSE: AgentResponse = {
+  type: "continue",
+  message: "Sorry, this is taking longer than expected. Please try again in a moment.",
+};
+
+/**
+ * Error thrown by handleRequest for requests arriving after shutdown has begun
+ */
+export class AgentShuttingDownError extends AgentError {
+  constructor() {
+    super("Agent is shutting down");
+    this.name = "AgentShuttingDownError";
+  }
+}
+
+/**
+ * Error thrown by handleRequest when `maxConcurrentRequests` requests are in flight and
+ * `maxQueuedRequests` more are already waiting
+ */
+export class AgentOverloadedError extends AgentError {
+  constructor(
+    /** Seconds after which the caller may retry */
+    public readonly retryAfterSeconds: number
+  ) {
+    super("Agent is overloaded");
+    this.name = "AgentOverloadedError";
+  }
+}
+
+/**
+ * Error thrown by handleRequest with the `authenticate` option when the request is not
+ * accepted by `authConfig`
+ */
+export class AgentAuthenticationError extends AgentError {
+  constructor(
+    /** Status to answer with: 401 for rejected credentials, 500 for an unusable `authConfig` */
+    public readonly status: number,
+    message: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "AgentAuthenticationError";
+  }
+}
+
+/** Function run by `agent.close()` once the server is closed, e.g. to flush resources */
+export type ShutdownHook = () => void | Promise<void>;
+
+/**
+ * Deadline of a request: the time it passes at, and a signal aborted then
+ */
+interface RequestDeadline {
+  at: number;
+  signal: AbortSignal;
+}
+
+/**
+ * Options of a request being handled, including those set by the Express route
+ */
+interface RequestOptions extends HandleRequestOptions {
+  /** Credential and JWT claims the request was authenticated with */
+  authentication?: Authentication | undefined;
+}
 
 /**
  * Options for handleRequest method
@@ -35,20 +134,58 @@ export interface HandleRequestOptions {
   queryParams?: Record<string, string | string[]>;
   /** HTTP headers */
   headers?: Record<string, string>;
+  /** Deadline of this request in milliseconds, overriding `requestDeadlineMs` */
+  deadlineMs?: number;
+  /**
+   * Authenticate the request with `authConfig` before handling it, throwing an
+   * `AgentAuthenticationError` when it is rejected (default: false)
+   */
+  authenticate?: boolean;
+  /** Request body as received, required by HMAC authentication */
+  rawBody?: string | Buffer;
 }
 
 /**
  * Configuration options for creating an Agent instance
  */
 export interface AgentOptions {
-  /** LLM provider configuration (Google or OpenAI) */
-  llmConfig: LLMConfig;
+  /**
+   * LLM provider configuration (Google, OpenAI or Anthropic), or an ordered list of
+   * configurations to fall back through on timeouts and retryable errors. A provider
+   * instance such as `FakeLLMProvider` can be passed in place of a configuration.
+   */
+  llmConfig: LLMProviderSpec | LLMProviderSpec[];
 
   /** Default timeout for HTTP requests in milliseconds (default: 10000) */
   httpTimeoutMs?: number | undefined;
 
-  /** Authentication configuration for securing the agent endpoint */
-  authConfig?: AuthConfig | undefined;
+  /**
+   * Default retry policy for `context.http` requests; individual requests can override it
+   * with the `retry` option. When unset, requests are attempted once (default: unset)
+   */
+  httpRetryPolicy?: HTTPRetryPolicy | undefined;
+
+  /** Per-host circuit breaker for `context.http` requests (default: unset, disabled) */
+  httpCircuitBreaker?: CircuitBreakerPolicy | undefined;
+
+  /**
+   * `fetch` implementation used by `context.http`, e.g. `FakeHTTP.fetch` in tests
+   * (default: the global `fetch`)
+   */
+  httpFetch?: typeof fetch | undefined;
+
+  /**
+   * Correlation headers added to `context.http` requests: `"x-request-id"` carries the
+   * incoming `X-Request-Id` header (or the request ID), `"traceparent"` continues the
+   * incoming W3C trace (default: none)
+   */
+  correlationHeaders?: CorrelationHeader[] | undefined;
+
+  /**
+   * Authentication configuration for securing the agent endpoint. With several credentials
+   * a request is accepted when it matches any one of them that is currently valid.
+   */
+  authConfig?: AuthConfig | AuthConfig[] | undefined;
 
   /** Whether to include persona in LLM calls by default (default: true) */
   includePersonaByDefault?: boolean | undefined;
@@ -65,12 +202,40 @@ export interface AgentOptions {
   /** Number of retries on LLM timeout; only used when llmTimeoutMs is set (default: 3) */
   llmTimeoutRetries?: number | undefined;
 
+  /** Maximum number of model calls in a single tool-calling run (default: 10) */
+  llmMaxToolIterations?: number | undefined;
+
+  /**
+   * Per-model price table used to add an `estimatedCost` to `llm_call` events,
+   * keyed by model name (default: unset, no cost estimation)
+   */
+  llmPricing?: LLMPricing | undefined;
+
   /** Whether to include HTTP headers in event logs (default: true) */
   includeHttpHeadersByDefault?: boolean | undefined;
 
   /** Whether to include HTTP request bodies in event logs (default: true) */
   includeRequestBodiesInEventsByDefault?: boolean | undefined;
 
+  /**
+   * Redaction of sensitive data in events before they are returned to Supervisor.
+   * `{}` redacts the default credential headers (default: unset, no redaction)
+   */
+  redaction?: RedactionConfig | undefined;
+
+  /**
+   * Record LLM calls and HTTP requests to a cassette file, or replay them from it.
+   * Overridden by the `ZOWIE_CASSETTE_MODE` and `ZOWIE_CASSETTE_PATH` environment
+   * variables (default: unset, no cassette)
+   */
+  cassette?: CassetteConfig | undefined;
+
+  /**
+   * Prometheus metrics of requests, commands, LLM calls and HTTP calls. `true` or an
+   * options object serves them at `/metrics`; see also `agent.metrics` (default: disabled)
+   */
+  metrics?: boolean | MetricsOptions | undefined;
+
   /** Whether to keep chatbot messages flagged `skipped` in context.messages (default: false) */
   includeSkippedMessagesByDefault?: boolean | undefined;
 
@@ -80,11 +245,68 @@ export interface AgentOptions {
   /** Whether to keep chatbot messages flagged `cancelled` in context.messages (default: false) */
   includeCancelledMessagesByDefault?: boolean | undefined;
 
-  /** Logging level (default: "info") */
+  /**
+   * Store for `context.session` state kept across turns of a conversation. When unset,
+   * each request gets an empty session that is not persisted (default: unset)
+   */
+  sessionStore?: SessionStore | undefined;
+
+  /**
+   * Replay the cached response to requests retried with the same `metadata.requestId`
+   * instead of handling them again. `true` or an options object without a store caches
+   * responses in memory for 10 minutes (default: disabled)
+   */
+  idempotency?: boolean | IdempotencyOptions | undefined;
+
+  /**
+   * Limits on concurrently handled requests, LLM calls per provider and model, and
+   * `context.http` requests per host. Requests beyond the queue get HTTP 503 with
+   * `Retry-After` (default: unset, no limits)
+   */
+  concurrency?: ConcurrencyOptions | undefined;
+
+  /** Logging level (default: the LOG_LEVEL environment variable, or "info") */
   logLevel?: string | undefined;
 
+  /** Log line format (default: the LOG_FORMAT environment variable, or "text") */
+  logFormat?: LogFormat | undefined;
+
+  /** Winston transports replacing the default console output (default: unset) */
+  logTransports?: winston.transport[] | undefined;
+
+  /**
+   * Structured logger receiving the agent's log entries, e.g. a pino instance; replaces
+   * the default console output (default: unset)
+   */
+  logger?: LoggerLike | undefined;
+
+  /**
+   * Time `handle` gets to produce a response, in milliseconds. When it passes, pending
+   * LLM and HTTP calls are aborted and `deadlineResponse` is returned with the events
+   * collected so far (default: unset, no deadline)
+   */
+  requestDeadlineMs?: number | undefined;
+
+  /**
+   * Response returned when a request passes its deadline, e.g. a transfer to a block
+   * (default: a continue message asking the user to try again)
+   */
+  deadlineResponse?: AgentResponse | undefined;
+
   /** Port to listen on when using agent.listen() (default: 3000) */
   port?: number | undefined;
+
+  /**
+   * Time in-flight requests get to finish on shutdown before their LLM and HTTP calls
+   * are aborted, in milliseconds (default: 30000)
+   */
+  shutdownTimeoutMs?: number | undefined;
+
+  /**
+   * Process signals that gracefully shut down a server started with agent.listen(), or
+   * `false` to leave signal handling to the application (default: ["SIGTERM", "SIGINT"])
+   */
+  shutdownSignals?: NodeJS.Signals[] | false | undefined;
 }
 
 /**
@@ -107,27 +329,52 @@ export interface AgentOptions {
  * }
  * ```
  */
-export abstract class Agent {
+export abstract class Agent<TSession extends object = SessionData> {
   /** The Express application instance exposed for advanced customization */
   public readonly app: Express;
 
-  private readonly llmConfig: LLMConfig;
+  private readonly llmConfig: LLMProviderSpec | LLMProviderSpec[];
   private readonly httpTimeoutMs?: number | undefined;
+  private readonly httpRetryPolicy?: HTTPRetryPolicy | undefined;
+  private readonly httpCircuitBreaker?: CircuitBreakerPolicy | undefined;
+  private readonly httpFetch?: typeof fetch | undefined;
   private readonly includePersonaByDefault: boolean;
   private readonly includeContextByDefault: boolean;
   private readonly includeRandomNonceToPreventCaching: boolean;
   private readonly llmTimeoutMs: number | undefined;
   private readonly llmTimeoutRetries: number;
+  private readonly llmMaxToolIterations: number | undefined;
+  private readonly llmPricing: LLMPricing | undefined;
   private readonly includeHttpHeadersByDefault: boolean;
   private readonly includeRequestBodiesInEventsByDefault: boolean;
   private readonly includeSkippedMessagesByDefault: boolean;
   private readonly includeInterruptedMessagesByDefault: boolean;
   private readonly includeCancelledMessagesByDefault: boolean;
-  private readonly logLevel: string;
+  private readonly sessionStore: SessionStore | undefined;
+  private readonly idempotencyStore: IdempotencyStore | undefined;
+  private readonly idempotentRequests = new Map<
+    string,
+    Promise<{ response: ExternalAgentResponse; replayed: boolean }>
+  >();
+  private readonly redactor: Redactor | undefined;
+  private readonly rootLogger: winston.Logger;
+  private readonly metricsOptions: MetricsOptions | undefined;
+  private readonly agentMetrics: AgentMetrics | undefined;
   private readonly authValidator: AuthValidator;
   private readonly baseLLM: LLM;
   private readonly baseHTTPClient: HTTPClient;
+  private readonly requestDeadlineMs: number | undefined;
+  private readonly deadlineResponse: AgentResponse;
+  private readonly shutdownTimeoutMs: number;
+  private readonly shutdownSignals: NodeJS.Signals[];
+  private readonly shutdownHooks: ShutdownHook[] = [];
+  private readonly inFlightRequests = new Map<AbortController, Promise<unknown>>();
+  /** Responses built by the deadline or `onError` path, which are not cached */
+  private readonly fallbackResponses = new WeakMap<ExternalAgentResponse, "deadline" | "error">();
+  private readonly requestLimiter: Semaphore | undefined;
+  private readonly retryAfterSeconds: number;
   private server: Server | undefined;
+  private closing: Promise<void> | undefined;
 
   /** Logger instance for this agent, automatically configured with the agent's class name */
   protected readonly logger: winston.Logger;
@@ -136,37 +383,108 @@ export abstract class Agent {
     // Initialize configuration
     this.llmConfig = options.llmConfig;
     this.httpTimeoutMs = options.httpTimeoutMs;
+    this.httpRetryPolicy = options.httpRetryPolicy;
+    this.httpCircuitBreaker = options.httpCircuitBreaker;
+    this.httpFetch = options.httpFetch;
     this.includePersonaByDefault = options.includePersonaByDefault ?? true;
     this.includeContextByDefault = options.includeContextByDefault ?? true;
     this.includeRandomNonceToPreventCaching = options.includeRandomNonceToPreventCaching ?? false;
     this.llmTimeoutMs = options.llmTimeoutMs;
     this.llmTimeoutRetries = options.llmTimeoutRetries ?? 3;
+    this.llmMaxToolIterations = options.llmMaxToolIterations;
+    this.llmPricing = options.llmPricing;
     this.includeHttpHeadersByDefault = options.includeHttpHeadersByDefault ?? true;
     this.includeRequestBodiesInEventsByDefault =
       options.includeRequestBodiesInEventsByDefault ?? true;
     this.includeSkippedMessagesByDefault = options.includeSkippedMessagesByDefault ?? false;
     this.includeInterruptedMessagesByDefault = options.includeInterruptedMessagesByDefault ?? false;
     this.includeCancelledMessagesByDefault = options.includeCancelledMessagesByDefault ?? false;
-    this.logLevel = options.logLevel ?? "info";
-    this.authValidator = new AuthValidator(options.authConfig);
+    this.sessionStore = options.sessionStore;
+    this.idempotencyStore =
+      options.idempotency === true
+        ? new InMemoryIdempotencyStore()
+        : options.idempotency
+          ? (options.idempotency.store ?? new InMemoryIdempotencyStore())
+          : undefined;
+    this.requestDeadlineMs = options.requestDeadlineMs;
+    this.deadlineResponse = options.deadlineResponse ?? DEFAULT_DEADLINE_RESPONSE;
+    this.shutdownTimeoutMs = options.shutdownTimeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+    this.shutdownSignals =
+      options.shutdownSignals === false
+        ? []
+        : (options.shutdownSignals ?? DEFAULT_SHUTDOWN_SIGNALS);
+    const concurrency = options.concurrency ?? {};
+    this.requestLimiter =
+      concurrency.maxConcurrentRequests === undefined
+        ? undefined
+        : new Semaphore(
+            concurrency.maxConcurrentRequests,
+            concurrency.maxQueuedRequests ?? DEFAULT_MAX_QUEUED_REQUESTS
+          );
+    this.retryAfterSeconds = concurrency.retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS;
+    this.redactor = options.redaction ? new Redactor(options.redaction) : undefined;
+    // With idempotency, retries of HMAC-signed requests whose response is cached or in
+    // flight get that response rather than a 401
+    this.authValidator = new AuthValidator(
+      options.authConfig,
+      this.idempotencyStore &&
+        ((caller, requestId) => this.hasIdempotentResponse(caller, requestId))
+    );
+    this.metricsOptions = options.metrics === true ? {} : options.metrics || undefined;
+    this.agentMetrics =
+      this.metricsOptions &&
+      new AgentMetrics(
+        this.metricsOptions.registry ?? new MetricsRegistry(),
+        this.metricsOptions.paths
+      );
 
-    // Initialize logger with component name based on class
-    this.logger = getLogger(`zowie_agent.${this.constructor.name}`, this.logLevel);
+    // Initialize logger with component name based on class. SDK components log to the
+    // same outputs while handling this agent's requests.
+    this.rootLogger = createLogger({
+      level: options.logLevel,
+      format: options.logFormat,
+      transports: options.logTransports,
+      logger: options.logger,
+    });
+    this.logger = this.rootLogger.child({ component: `zowie_agent.${this.constructor.name}` });
 
     // Initialize services
+    const cassetteConfig = resolveCassetteConfig(options.cassette);
+    const cassette = cassetteConfig && new Cassette(cassetteConfig.path, cassetteConfig.mode);
+    if (cassetteConfig) {
+      this.logger.info(`Using cassette ${cassetteConfig.path} in ${cassetteConfig.mode} mode`);
+    }
+
     this.baseLLM = new LLM(
       this.llmConfig,
       this.includePersonaByDefault,
       this.includeContextByDefault,
       this.includeRandomNonceToPreventCaching,
       this.llmTimeoutMs,
-      this.llmTimeoutRetries
+      this.llmTimeoutRetries,
+      this.llmMaxToolIterations,
+      this.llmPricing,
+      cassette,
+      concurrency.maxConcurrentLLMCalls === undefined
+        ? undefined
+        : new SemaphorePool(concurrency.maxConcurrentLLMCalls, (model, waitMs, queued) =>
+            this.recordQueueWait("llm", { model }, waitMs, queued)
+          )
     );
 
     this.baseHTTPClient = new HTTPClient(
       this.httpTimeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS,
       this.includeHttpHeadersByDefault,
-      this.includeRequestBodiesInEventsByDefault
+      this.includeRequestBodiesInEventsByDefault,
+      this.httpRetryPolicy,
+      this.httpCircuitBreaker,
+      cassette ? cassette.wrapFetch(this.httpFetch) : this.httpFetch,
+      options.correlationHeaders,
+      concurrency.maxConcurrentHTTPCallsPerHost === undefined
+        ? undefined
+        : new SemaphorePool(concurrency.maxConcurrentHTTPCallsPerHost, (host, waitMs, queued) =>
+            this.recordQueueWait("http", { host }, waitMs, queued)
+          )
     );
 
     // Initialize Express app
@@ -183,26 +501,56 @@ export abstract class Agent {
    * @param context - Request context containing messages, metadata, and clients
    * @returns Promise resolving to either ContinueConversationResponse or TransferToBlockResponse
    */
-  abstract handle(context: Context): Promise<AgentResponse>;
+  abstract handle(context: Context<TSession>): Promise<AgentResponse>;
+
+  /**
+   * Override this method to turn errors thrown by `handle` into a response, such as an
+   * apology or a transfer to a human-handover block. The error is recorded as an `error`
+   * event either way; returning undefined lets the request fail with HTTP 500.
+   *
+   * @param error - The error thrown by `handle`; SDK failures are `AgentError` subclasses
+   * @param context - Context of the failed request
+   * @returns The response to return instead, or undefined
+   *
+   * @example
+   * ```typescript
+   * protected onError(error: unknown): AgentResponse | undefined {
+   *   if (error instanceof LLMError || error instanceof HTTPError) {
+   *     return { type: "finish", nextBlock: "human-handover" };
+   *   }
+   *   return undefined;
+   * }
+   * ```
+   */
+  protected onError(
+    _error: unknown,
+    _context: Context<TSession>
+  ): AgentResponse | undefined | Promise<AgentResponse | undefined> {
+    return undefined;
+  }
 
   /**
    * Handle a raw request body without Express.
    * Useful for Next.js App Router, Cloudflare Workers, AWS Lambda, etc.
    *
    * @param body - The raw request body (will be validated)
-   * @param options - Optional request options (path, query, headers)
+   * @param options - Optional request options (path, query, headers, authentication)
    * @returns Promise resolving to the external agent response
+   * @throws AgentAuthenticationError if `authenticate` is set and the request is rejected
    *
    * @example
    * ```typescript
    * // Next.js App Router
    * export async function POST(req: NextRequest) {
-   *   const body = await req.json();
+   *   // The raw body is kept for HMAC signature verification
+   *   const rawBody = await req.text();
    *   const url = new URL(req.url);
-   *   const response = await agent.handleRequest(body, {
+   *   const response = await agent.handleRequest(JSON.parse(rawBody), {
    *     path: url.pathname,
-   *     query: Object.fromEntries(url.searchParams),
+   *     queryParams: Object.fromEntries(url.searchParams),
    *     headers: Object.fromEntries(req.headers),
+   *     authenticate: true,
+   *     rawBody,
    *   });
    *   return NextResponse.json(response);
    * }
@@ -212,14 +560,373 @@ export abstract class Agent {
     body: unknown,
     options: HandleRequestOptions = {}
   ): Promise<ExternalAgentResponse> {
-    const { path = "/", queryParams = {}, headers = {} } = options;
+    // Authenticated before a cached response can be replayed
+    const authentication = options.authenticate ? await this.authenticate(options) : undefined;
+    const { response } = await this.handleIdempotently(body, { ...options, authentication });
+    return response;
+  }
+
+  private async authenticate({
+    headers = {},
+    rawBody,
+  }: HandleRequestOptions): Promise<Authentication> {
+    // Serverless platforms do not all lowercase header names, as Node.js does
+    const lowercased = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    try {
+      return await this.authValidator.authenticate(lowercased, rawBody);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        this.logger.warn("Request authentication failed", {
+          status: error.status,
+          error: error.message,
+        });
+        throw new AgentAuthenticationError(error.status, error.message, { cause: error });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle a Web Fetch API request, for runtimes built on `Request` and `Response` such as
+   * Next.js App Router, Hono, Bun, Deno and Cloudflare Workers. Serves the routes of the
+   * Express app: `GET /health`, the metrics endpoint when enabled, and the agent on
+   * `POST` to any path, authenticated with `authConfig`. Bound to the agent, so it can
+   * be passed on as a handler.
+   *
+   * @example
+   * ```typescript
+   * // Next.js App Router: app/[[...path]]/route.ts
+   * export const GET = agent.fetch;
+   * export const POST = agent.fetch;
+   *
+   * // Bun
+   * Bun.serve({ fetch: agent.fetch });
+   * ```
+   */
+  readonly fetch = async (request: globalThis.Request): Promise<globalThis.Response> => {
+    const url = new URL(request.url);
+    if (request.method === "GET") {
+      if (url.pathname === "/health") {
+        const { status, body } = this.healthResponse();
+        return globalThis.Response.json(body, { status });
+      }
+      const registry = this.metrics;
+      if (
+        registry &&
+        this.metricsOptions?.endpoint !== false &&
+        url.pathname === (this.metricsOptions?.path ?? "/metrics")
+      ) {
+        return new globalThis.Response(registry.render(), {
+          headers: { "Content-Type": registry.contentType },
+        });
+      }
+    }
+    if (request.method !== "POST") {
+      return globalThis.Response.json(
+        { error: "Method not allowed", message: `Method ${request.method} not supported` },
+        { status: 405 }
+      );
+    }
+
+    // Repeated query parameters become arrays, as in Express
+    const queryParams: Record<string, string | string[]> = {};
+    for (const key of new Set(url.searchParams.keys())) {
+      const values = url.searchParams.getAll(key);
+      queryParams[key] = values.length === 1 ? (values[0] as string) : values;
+    }
+    const headers = Object.fromEntries(request.headers);
+
+    try {
+      // The raw body is kept for HMAC signature verification
+      const rawBody = await request.text();
+      const authentication = await this.authenticate({ headers, rawBody });
+      const { response, replayed } = await this.handleIdempotently(parseJSON(rawBody), {
+        path: url.pathname,
+        queryParams,
+        headers,
+        authentication,
+      });
+      return globalThis.Response.json(response, {
+        headers: replayed ? { [IDEMPOTENT_REPLAY_HEADER]: "true" } : {},
+      });
+    } catch (error) {
+      const { status, headers, body } = this.errorResponse(error);
+      return globalThis.Response.json(body, { status, headers });
+    }
+  };
+
+  /**
+   * Handle a request, or replay the response of an earlier request with the same
+   * request ID when idempotency is enabled. Duplicates of a request still in flight
+   * wait for its response. Failed requests and deadline or `onError` responses are not
+   * cached, so their retries run again. With authentication, request IDs are scoped by
+   * the authenticated caller, so callers never replay each other's responses.
+   */
+  private async handleIdempotently(
+    body: unknown,
+    options: RequestOptions
+  ): Promise<{ response: ExternalAgentResponse; replayed: boolean }> {
+    const store = this.idempotencyStore;
+    const requestId = store && requestIdOf(body);
+    if (!store || requestId === undefined) {
+      return { response: await this.runRequest(body, options), replayed: false };
+    }
+    const key = idempotencyKey(requestId, options.authentication?.caller);
+
+    const inFlight = this.idempotentRequests.get(key);
+    if (inFlight) {
+      this.logger.info("Waiting for in-flight request with the same request ID", { requestId });
+      return { response: structuredClone((await inFlight).response), replayed: true };
+    }
+
+    const pending = (async () => {
+      const cached = await store.get(key);
+      if (cached) {
+        this.logger.info("Replaying response of an earlier request", { requestId });
+        return { response: cached, replayed: true };
+      }
+
+      const response = await this.runRequest(body, options);
+      if (this.fallbackResponses.has(response)) {
+        return { response, replayed: false };
+      }
+      try {
+        await store.set(key, response);
+      } catch (error) {
+        this.logger.error("Failed to save response for idempotency", {
+          requestId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return { response, replayed: false };
+    })();
+
+    this.idempotentRequests.set(key, pending);
+    try {
+      return await pending;
+    } finally {
+      this.idempotentRequests.delete(key);
+    }
+  }
+
+  /**
+   * Whether the response of a request is cached or being computed
+   */
+  private async hasIdempotentResponse(caller: string, requestId: string): Promise<boolean> {
+    const key = idempotencyKey(requestId, caller);
+    if (this.idempotentRequests.has(key)) {
+      return true;
+    }
+    return (await this.idempotencyStore?.get(key)) !== undefined;
+  }
+
+  private async runRequest(body: unknown, options: RequestOptions): Promise<ExternalAgentResponse> {
+    const { path = "/", queryParams = {}, headers = {}, authentication } = options;
+    const deadlineMs = options.deadlineMs ?? this.requestDeadlineMs;
+    if (this.isShuttingDown) {
+      throw new AgentShuttingDownError();
+    }
+    // Without a limit the request is registered as in flight without yielding first
+    const release =
+      this.requestLimiter && (await this.acquireRequestSlot(this.requestLimiter, path));
+    if (release && this.isShuttingDown) {
+      // Shutdown began while the request was queued
+      release();
+      throw new AgentShuttingDownError();
+    }
+
     const startTime = Date.now();
+    const events: Event[] = [];
+    // Aborted when shutdown gives up waiting for the request
+    const controller = new AbortController();
+    // A plain abort rather than a timeout, so that HTTP calls cut off by the deadline are
+    // neither retried nor counted against the host's circuit
+    const deadlineController = new AbortController();
+    const deadlineTimer =
+      deadlineMs === undefined
+        ? undefined
+        : setTimeout(() => deadlineController.abort(), deadlineMs);
+    const deadline: RequestDeadline | undefined =
+      deadlineMs === undefined
+        ? undefined
+        : { at: startTime + deadlineMs, signal: deadlineController.signal };
 
+    this.agentMetrics?.requestStarted();
+    try {
+      const pending = this.traceRequest(
+        body,
+        path,
+        queryParams,
+        headers,
+        events,
+        startTime,
+        deadline ? AbortSignal.any([controller.signal, deadline.signal]) : controller.signal,
+        deadline,
+        authentication
+      );
+      this.inFlightRequests.set(controller, pending);
+      const response = await pending;
+      this.agentMetrics?.requestFinished(
+        path,
+        this.fallbackResponses.get(response) === "deadline" ? "deadline" : "success",
+        Date.now() - startTime,
+        response.command.type,
+        events
+      );
+      return response;
+    } catch (error) {
+      const invalid = error instanceof Error && error.name === "ZodError";
+      this.agentMetrics?.requestFinished(
+        path,
+        invalid ? "invalid" : "error",
+        Date.now() - startTime,
+        undefined,
+        events
+      );
+      throw error;
+    } finally {
+      clearTimeout(deadlineTimer);
+      this.inFlightRequests.delete(controller);
+      release?.();
+    }
+  }
+
+  /**
+   * Wait for a slot of `maxConcurrentRequests`. Throws `AgentOverloadedError` without
+   * waiting when the queue is full.
+   */
+  private async acquireRequestSlot(limiter: Semaphore, path: string): Promise<() => void> {
+    if (limiter.isFull) {
+      this.logger.warn("Request queue full, rejecting request", {
+        path,
+        active: limiter.active,
+        queued: limiter.queued,
+      });
+      this.agentMetrics?.requestShed(path);
+      throw new AgentOverloadedError(this.retryAfterSeconds);
+    }
+
+    const queued = limiter.isSaturated;
+    const waitStart = getTimeMs();
+    const release = await limiter.acquire();
+    this.recordQueueWait("request", {}, getTimeMs() - waitStart, queued);
+    return release;
+  }
+
+  private recordQueueWait(
+    queue: ConcurrencyQueue,
+    labels: MetricLabels,
+    waitMs: number,
+    queued: boolean
+  ): void {
+    this.agentMetrics?.queueWaited(queue, waitMs, labels);
+    if (queued) {
+      this.logger.info(`Waited ${waitMs}ms for a concurrency slot`, {
+        queue,
+        ...labels,
+        waitMs,
+      });
+    }
+  }
+
+  /**
+   * Whether `close()` has been called. New requests are rejected and `/health` reports
+   * the agent as unavailable from then on.
+   */
+  get isShuttingDown(): boolean {
+    return this.closing !== undefined;
+  }
+
+  /**
+   * Register a function to run on shutdown, after in-flight requests have finished and
+   * the server is closed. Hooks run in registration order; a failing hook is logged.
+   */
+  onShutdown(hook: ShutdownHook): void {
+    this.shutdownHooks.push(hook);
+  }
+
+  /**
+   * Registry of the agent's Prometheus metrics, when enabled with the `metrics` option.
+   * Serverless deployments can serve `agent.metrics.render()` from their own route.
+   */
+  get metrics(): MetricsRegistry | undefined {
+    return this.agentMetrics?.registry;
+  }
+
+  private traceRequest(
+    body: unknown,
+    path: string,
+    queryParams: Record<string, string | string[]>,
+    headers: Record<string, string>,
+    events: Event[],
+    startTime: number,
+    signal: AbortSignal,
+    deadline: RequestDeadline | undefined,
+    authentication: Authentication | undefined
+  ): Promise<ExternalAgentResponse> {
     // Validate the incoming request
     const request = parseIncomingRequest(body);
-    const requestId = request.metadata.requestId;
+    const { requestId, chatbotId, conversationId, sequence } = request.metadata;
 
-    this.logger.info("Processing request", { requestId, path });
+    const spanAttributes = {
+      "zowie.request_id": requestId,
+      "zowie.chatbot_id": chatbotId,
+      "zowie.conversation_id": conversationId,
+      "zowie.sequence": sequence,
+      "url.path": path,
+    };
+    // A span of HTTP server instrumentation, when present, already represents the server side
+    const kind = trace.getActiveSpan() ? SpanKind.INTERNAL : SpanKind.SERVER;
+    return withSpan(
+      "zowie_agent.handle_request",
+      kind,
+      spanAttributes,
+      () => {
+        // LLM and HTTP calls made while handling the request pick up its events,
+        // correlation IDs and abort signal from the request scope, and log lines carry them
+        const scope = createRequestScope(request.metadata, events, headers, signal);
+        const logBindings = {
+          requestId,
+          conversationId,
+          correlationId: scope.correlationId,
+          traceId: scope.trace.traceId,
+        };
+        return runInRequestScope(scope, () =>
+          runWithLogScope(this.rootLogger, logBindings, () =>
+            this.processRequest(
+              request,
+              path,
+              queryParams,
+              headers,
+              scope.events,
+              startTime,
+              signal,
+              deadline,
+              authentication
+            )
+          )
+        );
+      },
+      requestParentContext(headers)
+    );
+  }
+
+  private async processRequest(
+    request: IncomingRequest,
+    path: string,
+    queryParams: Record<string, string | string[]>,
+    headers: Record<string, string>,
+    events: Event[],
+    startTime: number,
+    signal: AbortSignal,
+    deadline: RequestDeadline | undefined,
+    authentication: Authentication | undefined
+  ): Promise<ExternalAgentResponse> {
+    // The credential shows when a rotated-out credential has stopped being used
+    const credential = authentication?.credential;
+    this.logger.info("Processing request", credential ? { path, credential } : { path });
 
     // Exclude skipped/interrupted/cancelled chatbot messages unless explicitly opted in.
     const messages = filterMessages(
@@ -230,13 +937,14 @@ export abstract class Agent {
     );
 
     const valueStorage: Record<string, unknown> = {};
-    const events: Event[] = [];
 
     const storeValue = (key: string, value: unknown): void => {
       valueStorage[key] = value;
     };
 
-    const context = new Context(
+    const session = await this.loadSession(request.metadata.conversationId);
+
+    const context = new Context<TSession>(
       request.metadata,
       messages,
       path,
@@ -247,10 +955,38 @@ export abstract class Agent {
       this.baseHTTPClient,
       request.persona || undefined,
       request.context || undefined,
-      events
+      events,
+      session,
+      signal,
+      deadline?.at,
+      authentication?.claims
     );
 
-    const result = await this.handle(context);
+    let result: AgentResponse | undefined;
+    let failed = false;
+    try {
+      result = await this.handleWithinDeadline(context, deadline);
+    } catch (error) {
+      failed = true;
+      result = await this.recoverFromError(error, context);
+    }
+
+    let collectedEvents = events;
+    let collectedValues = valueStorage;
+    const timedOut = result === undefined;
+    if (result === undefined) {
+      // The session is left unsaved, as handle may have changed only part of it. Events
+      // recorded by handle from now on, such as its aborted calls, are not returned.
+      this.logger.warn("Request deadline exceeded, returning the deadline response", {
+        durationMs: Date.now() - startTime,
+      });
+      result = this.deadlineResponse;
+      collectedEvents = [...events];
+      collectedValues = { ...valueStorage };
+    } else if (!failed) {
+      // The session of a failed handler is left unsaved, like on a deadline
+      await this.saveSession(session);
+    }
 
     // Build response
     const response: ExternalAgentResponse = {
@@ -261,20 +997,128 @@ export abstract class Agent {
               type: "go_to_next_block",
               payload: { nextBlockReferenceKey: result.nextBlock, message: result.message },
             },
-      valuesToSave: Object.keys(valueStorage).length > 0 ? valueStorage : undefined,
-      events: events.length > 0 ? events : undefined,
+      valuesToSave: Object.keys(collectedValues).length > 0 ? collectedValues : undefined,
+      events: collectedEvents.length > 0 ? this.redactEvents(collectedEvents) : undefined,
     };
 
-    this.logger.info("Request processed successfully", {
-      requestId,
-      durationMs: Date.now() - startTime,
+    if (timedOut || failed) {
+      const outcome = timedOut ? "deadline" : "error";
+      this.fallbackResponses.set(response, outcome);
+      this.logger.info("Request answered with a fallback response", {
+        durationMs: Date.now() - startTime,
+        outcome,
+      });
+    } else {
+      this.logger.info("Request processed successfully", {
+        durationMs: Date.now() - startTime,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Record an error thrown by `handle` as an `error` event and map it to a response
+   * with `onError`. Rethrows the error when `onError` does not handle it, after logging
+   * its type for the request: the 500 response carries neither its message nor events.
+   */
+  private async recoverFromError(
+    error: unknown,
+    context: Context<TSession>
+  ): Promise<AgentResponse> {
+    const message = error instanceof Error ? error.message : String(error);
+    let response: AgentResponse | undefined;
+    try {
+      response = await this.onError(error, context);
+    } catch (hookError) {
+      this.logger.error("onError hook failed", {
+        error: hookError instanceof Error ? hookError.message : String(hookError),
+      });
+    }
+
+    const errorType = error instanceof Error ? error.name : typeof error;
+    context.events.push({
+      type: "error",
+      payload: { errorType, message, handled: response !== undefined },
     });
+    if (!response) {
+      this.logger.error("Request failed with an unhandled error", { errorType, handled: false });
+      throw error;
+    }
 
+    this.logger.warn("Request failed, returning the onError response", {
+      error: message,
+      stack: error instanceof Error ? error.stack : undefined,
+    });
     return response;
   }
 
   /**
-   * Start the agent server on the specified port
+   * Run `handle`, resolving to undefined when the deadline passes first. The request
+   * signal aborts `handle`'s pending calls at the same time, and its outcome is ignored.
+   */
+  private handleWithinDeadline(
+    context: Context<TSession>,
+    deadline: RequestDeadline | undefined
+  ): Promise<AgentResponse | undefined> {
+    const handled = this.handle(context);
+    if (!deadline) {
+      return handled;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onDeadline = () => resolve(undefined);
+      if (deadline.signal.aborted) {
+        onDeadline();
+      }
+      deadline.signal.addEventListener("abort", onDeadline, { once: true });
+      handled
+        .then(resolve, reject)
+        .finally(() => deadline.signal.removeEventListener("abort", onDeadline));
+    });
+  }
+
+  private redactEvents(events: Event[]): Event[] {
+    const redactor = this.redactor;
+    return redactor ? events.map((event) => redactor.redactEvent(event)) : events;
+  }
+
+  private async loadSession(conversationId: string): Promise<Session<TSession>> {
+    if (!this.sessionStore) {
+      return new Session<TSession>(conversationId);
+    }
+
+    const data = await this.sessionStore.get(conversationId);
+    return new Session<TSession>(conversationId, data as Partial<TSession> | undefined);
+  }
+
+  /**
+   * Persist the session if `handle` changed it. A failed save is logged rather than
+   * failing the request, since the response has already been produced.
+   */
+  private async saveSession(session: Session<TSession>): Promise<void> {
+    if (!this.sessionStore || !session.isModified) {
+      return;
+    }
+
+    try {
+      const data = session.toJSON();
+      if (Object.keys(data).length === 0) {
+        await this.sessionStore.delete(session.id);
+      } else {
+        await this.sessionStore.set(session.id, data);
+      }
+    } catch (error) {
+      this.logger.error("Failed to save session", {
+        conversationId: session.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Start the agent server on the specified port. The agent shuts down gracefully on
+   * the configured `shutdownSignals`.
    *
    * @param port - Port to listen on (defaults to 3000)
    * @returns Promise that resolves when the server is listening
@@ -284,6 +1128,9 @@ export abstract class Agent {
     return new Promise((resolve, reject) => {
       const server = this.app.listen(serverPort, () => {
         this.logger.info("Agent listening", { port: serverPort });
+        for (const signal of this.shutdownSignals) {
+          process.once(signal, this.handleShutdownSignal);
+        }
         resolve();
       });
 
@@ -298,25 +1145,58 @@ export abstract class Agent {
     });
   }
 
+  /**
+   * Shut down on a process signal, then re-raise it so the process exits as it would
+   * have without the handler. A second signal during shutdown exits immediately.
+   */
+  private readonly handleShutdownSignal = (signal: NodeJS.Signals): void => {
+    this.logger.info("Received shutdown signal", { signal });
+    this.close().then(
+      () => process.kill(process.pid, signal),
+      (error: unknown) => {
+        this.logger.error("Error during shutdown", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        process.exit(1);
+      }
+    );
+  };
+
   private setupMiddleware(): void {
     // Parse JSON request bodies from Zowie Decision Engine
     // Large limit needed for requests with extensive conversation history
-    this.app.use(express.json({ limit: DEFAULT_REQUEST_SIZE_LIMIT }));
+    // The raw body is kept for HMAC signature verification
+    this.app.use(express.json({ limit: DEFAULT_REQUEST_SIZE_LIMIT, verify: captureRawBody }));
 
     // Trust proxy headers for accurate client IP logging in load-balanced deployments
     this.app.set("trust proxy", true);
+
+    // Ask clients not to reuse connections once shutdown has begun, so the server can close
+    this.app.use((_req: Request, res: Response, next: NextFunction) => {
+      if (this.isShuttingDown) {
+        res.setHeader("Connection", "close");
+      }
+      next();
+    });
   }
 
   private setupRoutes(): void {
-    // Health check endpoint
+    // Health check endpoint, failing once shutdown has begun so that load balancers and
+    // readiness probes stop routing requests to the agent
     this.app.get("/health", (_req: Request, res: Response) => {
-      res.json({
-        status: "healthy",
-        agent: this.constructor.name,
-        timestamp: getTimeMs(),
-      });
+      const { status, body } = this.healthResponse();
+      res.status(status).json(body);
     });
 
+    // Prometheus metrics endpoint, opt-in and unauthenticated like the health check
+    const registry = this.metrics;
+    if (registry && this.metricsOptions?.endpoint !== false) {
+      this.app.get(this.metricsOptions?.path ?? "/metrics", (_req: Request, res: Response) => {
+        res.setHeader("Content-Type", registry.contentType);
+        res.send(registry.render());
+      });
+    }
+
     // Main agent endpoint with authentication - handles all paths
     this.app.post(
       "/{*path}",
@@ -343,32 +1223,19 @@ export abstract class Agent {
             }
           }
 
-          const response = await this.handleRequest(req.body, {
+          const { response, replayed } = await this.handleIdempotently(req.body, {
             path: req.path,
             queryParams,
             headers,
+            authentication: authenticationOf(res),
           });
+          if (replayed) {
+            res.setHeader(IDEMPOTENT_REPLAY_HEADER, "true");
+          }
           res.json(response);
         } catch (error) {
-          // Check if it's a validation error (Zod error)
-          if (error && typeof error === "object" && "name" in error && error.name === "ZodError") {
-            this.logger.warn("Invalid request format", {
-              error: error instanceof Error ? error.message : String(error),
-            });
-            res.status(400).json({
-              error: "Bad request",
-              message: "Invalid request format",
-            });
-          } else {
-            this.logger.error("Error processing request", {
-              error: error instanceof Error ? error.message : String(error),
-              stack: error instanceof Error ? error.stack : undefined,
-            });
-            res.status(500).json({
-              error: "Internal server error",
-              message: error instanceof Error ? error.message : String(error),
-            });
-          }
+          const { status, headers, body } = this.errorResponse(error);
+          res.set(headers).status(status).json(body);
         }
       }
     );
@@ -383,9 +1250,138 @@ export abstract class Agent {
   }
 
   /**
-   * Gracefully close the HTTP server
+   * Body and status of the health check, failing once shutdown has begun
+   */
+  private healthResponse(): { status: number; body: Record<string, unknown> } {
+    return {
+      status: this.isShuttingDown ? 503 : 200,
+      body: {
+        status: this.isShuttingDown ? "shutting_down" : "healthy",
+        agent: this.constructor.name,
+        timestamp: getTimeMs(),
+      },
+    };
+  }
+
+  /**
+   * Status, headers and body answering a request that failed, shared by the Express
+   * routes and the Fetch API adapter
+   */
+  private errorResponse(error: unknown): {
+    status: number;
+    headers: Record<string, string>;
+    body: Record<string, string>;
+  } {
+    if (error instanceof AgentAuthenticationError) {
+      return { status: error.status, headers: {}, body: { error: error.message } };
+    }
+    if (error instanceof AgentOverloadedError) {
+      return {
+        status: 503,
+        headers: { "Retry-After": String(error.retryAfterSeconds) },
+        body: { error: "Service unavailable", message: error.message },
+      };
+    }
+    if (error instanceof AgentShuttingDownError) {
+      return {
+        status: 503,
+        headers: {},
+        body: { error: "Service unavailable", message: error.message },
+      };
+    }
+
+    // Check if it's a validation error (Zod error)
+    if (error && typeof error === "object" && "name" in error && error.name === "ZodError") {
+      this.logger.warn("Invalid request format", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        status: 400,
+        headers: {},
+        body: { error: "Bad request", message: "Invalid request format" },
+      };
+    }
+
+    this.logger.error("Error processing request", {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+    // Error details stay in the logs rather than reaching the caller
+    return {
+      status: 500,
+      headers: {},
+      body: {
+        error: "Internal server error",
+        message: "An error occurred while processing the request",
+      },
+    };
+  }
+
+  /**
+   * Gracefully shut down: fail `/health`, stop accepting connections and wait for
+   * in-flight requests for up to `shutdownTimeoutMs`. Requests still running then have
+   * their LLM and HTTP calls aborted. Shutdown hooks run once the server is closed.
    */
   close(): Promise<void> {
+    this.closing ??= this.shutdown();
+    return this.closing;
+  }
+
+  private async shutdown(): Promise<void> {
+    for (const signal of this.shutdownSignals) {
+      process.removeListener(signal, this.handleShutdownSignal);
+    }
+
+    this.logger.info("Shutting down", { inFlightRequests: this.inFlightRequests.size });
+    const serverClosed = this.closeServer();
+    // Surfaced by the await below, once requests have drained
+    serverClosed.catch(() => undefined);
+    await this.drainRequests();
+    // Connections kept alive while requests were draining are idle by now
+    this.server?.closeIdleConnections();
+    await serverClosed;
+
+    for (const hook of this.shutdownHooks) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error("Shutdown hook failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    this.logger.info("Shutdown complete");
+  }
+
+  /**
+   * Wait for in-flight requests, aborting those still running after `shutdownTimeoutMs`.
+   * Requests whose handler ignores the abort are given up on shortly after, so shutdown
+   * always completes.
+   */
+  private async drainRequests(): Promise<void> {
+    if (this.inFlightRequests.size === 0) {
+      return;
+    }
+
+    if (await settlesWithin([...this.inFlightRequests.values()], this.shutdownTimeoutMs)) {
+      return;
+    }
+
+    this.logger.warn(
+      `Aborting ${this.inFlightRequests.size} in-flight request(s) after ${this.shutdownTimeoutMs}ms shutdown timeout`
+    );
+    const outstanding = [...this.inFlightRequests.values()];
+    for (const controller of this.inFlightRequests.keys()) {
+      controller.abort();
+    }
+    if (!(await settlesWithin(outstanding, ABORTED_REQUESTS_TIMEOUT_MS))) {
+      this.logger.warn(
+        `Shutting down without ${this.inFlightRequests.size} request(s) still running after being aborted`
+      );
+    }
+  }
+
+  private closeServer(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (this.server) {
         this.server.close((error: Error | undefined) => {
@@ -403,3 +1399,30 @@ export abstract class Agent {
     });
   }
 }
+
+/**
+ * Whether all promises settle within a time limit
+ */
+async function settlesWithin(promises: Promise<unknown>[], timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    return await Promise.race([Promise.allSettled(promises).then(() => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Parsed JSON body, or undefined for a body that is not JSON, which is then rejected
+ * as an invalid request
+ */
+function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
@@ -1,13 +1,45 @@
 /**
  * Express middleware for validating incoming request authentication.
  *
- * Supports API key, basic auth, and bearer token authentication methods.
+ * Supports API key, basic auth, bearer token, HMAC signature and JWT authentication methods.
+ * Several credentials can be configured at once, each with an optional validity window,
+ * so credentials can be rotated without downtime.
  * Uses secure string comparison to prevent timing-based attacks.
  */
 
-import { timingSafeEqual } from "node:crypto";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
 import type { NextFunction, Request, Response } from "express";
-import type { AuthConfig } from "./domain.js";
+import type {
+  APIKeyAuth,
+  AuthConfig,
+  BasicAuth,
+  BearerTokenAuth,
+  HMACAuth,
+  JWTClaims,
+} from "./domain.js";
+import { requestIdOf } from "./idempotency.js";
+import { JWTError, JWTVerifier } from "./jwt.js";
+import { getLogger } from "./logger.js";
+import { getTimeMs } from "./utils.js";
+
+const DEFAULT_SIGNATURE_HEADER = "X-Zowie-Signature";
+const DEFAULT_TIMESTAMP_HEADER = "X-Zowie-Timestamp";
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Request whose raw body bytes were kept by `captureRawBody`
+ */
+export interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer | undefined;
+}
+
+/**
+ * `verify` callback of `express.json` keeping the raw body for signature verification
+ */
+export function captureRawBody(req: RawBodyRequest, _res: unknown, body: Buffer): void {
+  req.rawBody = body;
+}
 
 /**
  * Authentication error class
@@ -22,95 +54,242 @@ export class AuthError extends Error {
   }
 }
 
+/**
+ * A repeat of an HMAC signature accepted within the tolerance window
+ */
+class ReplayedSignatureError extends AuthError {
+  constructor() {
+    super(401, "Request has already been received");
+  }
+}
+
+/**
+ * Whether a response for the request ID is cached, or being computed, for the caller
+ */
+export type RetryCheck = (caller: string, requestId: string) => Promise<boolean>;
+
+/**
+ * Outcome of authenticating a request
+ */
+export interface Authentication {
+  /** Label of the credential the request was authenticated with, when it has one */
+  credential?: string | undefined;
+  /** Verified claims, for JWT authentication */
+  claims?: JWTClaims | undefined;
+  /**
+   * Identifies the authenticated caller: the credential, plus the issuer and subject of
+   * a JWT. Scopes the request IDs of idempotent requests.
+   */
+  caller?: string | undefined;
+}
+
+/**
+ * Authentication of a request by the middleware
+ */
+export function authenticationOf(res: Response): Authentication | undefined {
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation for Record<string, any>
+  return res.locals["authentication"];
+}
+
+interface Credential {
+  config: AuthConfig;
+  label: string | undefined;
+  /** The label, or the position among the configured credentials of an unlabeled one */
+  id: string;
+  notBefore: number;
+  notAfter: number;
+  jwtVerifier: JWTVerifier | undefined;
+}
+
 export class AuthValidator {
-  constructor(private readonly authConfig?: AuthConfig) {}
+  /**
+   * Signatures of accepted HMAC requests, with the time they can be forgotten at, by
+   * tolerance window. Each map is in insertion order and so in order of expiry.
+   */
+  private readonly seenSignatures = new Map<number, Map<string, number>>();
+  private readonly credentials: Credential[];
+  private readonly logger = getLogger("zowie_agent.AuthValidator");
+
+  /**
+   * @param authConfig - Credential, or credentials of which a request has to match one
+   * @param isRetry - Accepts a repeated HMAC signature by `authenticate` when it holds for
+   *   the body's `metadata.requestId`, so the retry is answered by the idempotency cache
+   */
+  constructor(
+    authConfig?: AuthConfig | AuthConfig[],
+    private readonly isRetry?: RetryCheck
+  ) {
+    const configs = authConfig === undefined ? [] : [authConfig].flat();
+    if (Array.isArray(authConfig) && configs.length === 0) {
+      throw new Error("authConfig must list at least one credential");
+    }
+    this.credentials = configs.map(toCredential);
+  }
 
   /**
    * Express middleware factory that returns an authentication middleware function
    */
   middleware() {
     return (req: Request, res: Response, next: NextFunction): void => {
-      try {
-        this.validate(req);
+      const accept = (authentication: Authentication) => {
+        // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation for Record<string, any>
+        res.locals["authentication"] = authentication;
         next();
-      } catch (error) {
+      };
+      const reject = (error: unknown) => {
         if (error instanceof AuthError) {
           res.status(error.status).json({ error: error.message });
           return;
         }
         res.status(500).json({ error: "Internal server error" });
+      };
+
+      // Requests without a JSON body are signed over an empty body
+      const rawBody = (req as RawBodyRequest).rawBody ?? "";
+      // JWT keys may have to be fetched, and retries looked up; the other methods are
+      // checked synchronously
+      if (this.isRetry || this.credentials.some((credential) => credential.jwtVerifier)) {
+        this.authenticate(headersOf(req), rawBody).then(accept, reject);
+        return;
+      }
+
+      let authentication: Authentication;
+      try {
+        authentication = this.validateHeaders(headersOf(req), rawBody);
+      } catch (error) {
+        reject(error);
+        return;
       }
+      accept(authentication);
     };
   }
 
+  /**
+   * Authenticate a request given as plain headers and raw body, supporting every auth
+   * type including JWT.
+   *
+   * @throws AuthError if no credential accepts the request
+   */
+  async authenticate(
+    headers: Record<string, string>,
+    rawBody?: Buffer | string
+  ): Promise<Authentication> {
+    let firstError: unknown;
+    for (const credential of this.activeCredentials()) {
+      try {
+        if (credential.jwtVerifier) {
+          const claims = await this.verifyJWTFromHeaders(credential.jwtVerifier, headers);
+          return {
+            credential: credential.label,
+            claims,
+            caller: JSON.stringify([credential.id, claims.iss ?? null, claims.sub ?? null]),
+          };
+        }
+        this.verifyCredential(credential.config, headers, rawBody);
+        return { credential: credential.label, caller: credential.id };
+      } catch (error) {
+        if (
+          error instanceof ReplayedSignatureError &&
+          (await this.isRetryOf(credential, rawBody))
+        ) {
+          return { credential: credential.label, caller: credential.id };
+        }
+        firstError ??= error;
+      }
+    }
+    if (firstError !== undefined) {
+      throw firstError;
+    }
+    return {};
+  }
+
   /**
    * Validate authentication using a plain headers object.
-   * Used by handleRequest for framework-agnostic auth validation.
+   * Used by handleRequest for framework-agnostic auth validation. Repeated HMAC
+   * signatures are always rejected, as retries can only be looked up by `authenticate`.
    *
    * @param headers - HTTP headers as a plain object
-   * @throws AuthError if authentication fails
+   * @param rawBody - Request body as received, required by HMAC authentication
+   * @throws AuthError if no credential accepts the request
    */
-  validateHeaders(headers: Record<string, string>): void {
-    if (!this.authConfig) {
-      return;
+  validateHeaders(headers: Record<string, string>, rawBody?: Buffer | string): Authentication {
+    let firstError: unknown;
+    for (const credential of this.activeCredentials()) {
+      try {
+        this.verifyCredential(credential.config, headers, rawBody);
+        return { credential: credential.label, caller: credential.id };
+      } catch (error) {
+        firstError ??= error;
+      }
     }
+    if (firstError !== undefined) {
+      throw firstError;
+    }
+    return {};
+  }
 
-    switch (this.authConfig.type) {
+  /**
+   * Credentials whose validity window includes the current time. A request is rejected
+   * with 401 when credentials are configured but none of them is currently valid, and
+   * the lapsed credentials are logged so the rotation can be fixed.
+   */
+  private activeCredentials(): Credential[] {
+    const now = getTimeMs();
+    const active = this.credentials.filter(
+      (credential) => credential.notBefore <= now && now <= credential.notAfter
+    );
+    if (active.length === 0 && this.credentials.length > 0) {
+      this.logger.error("No credential is currently valid, rejecting request", {
+        expired: this.credentials.filter(({ notAfter }) => notAfter < now).map(({ id }) => id),
+        notYetValid: this.credentials
+          .filter(({ notBefore }) => notBefore > now)
+          .map(({ id }) => id),
+      });
+      throw new AuthError(401, "No credential is currently valid");
+    }
+    return active;
+  }
+
+  /**
+   * Verify a request against one credential of a synchronously checked auth type
+   */
+  private verifyCredential(
+    config: AuthConfig,
+    headers: Record<string, string>,
+    rawBody: Buffer | string | undefined
+  ): void {
+    switch (config.type) {
       case "api_key":
-        this.verifyApiKeyFromHeaders(headers);
+        this.verifyApiKeyFromHeaders(config, headers);
         break;
       case "basic":
-        this.verifyBasicAuthFromHeaders(headers);
+        this.verifyBasicAuthFromHeaders(config, headers);
         break;
       case "bearer":
-        this.verifyBearerTokenFromHeaders(headers);
+        this.verifyBearerTokenFromHeaders(config, headers);
+        break;
+      case "hmac":
+        this.verifySignatureFromHeaders(config, headers, rawBody);
         break;
+      case "jwt":
+        throw new AuthError(500, "JWT authentication is asynchronous, use authenticate()");
       default:
         throw new AuthError(500, "Unknown auth type");
     }
   }
 
-  /**
-   * Validate the request authentication (Express middleware)
-   */
-  private validate(req: Request): void {
-    if (!this.authConfig) {
-      return;
-    }
-
-    // Convert Express headers to plain object and use shared validation
-    const headers: Record<string, string> = {};
-    for (const [key, value] of Object.entries(req.headers)) {
-      if (typeof value === "string") {
-        headers[key] = value;
-      } else if (Array.isArray(value)) {
-        headers[key] = value[0] || "";
-      }
-    }
-
-    this.validateHeaders(headers);
-  }
-
-  private verifyApiKeyFromHeaders(headers: Record<string, string>): void {
-    if (this.authConfig?.type !== "api_key") {
-      throw new AuthError(500, "Invalid auth config");
-    }
-
-    const headerValue = headers[this.authConfig.headerName.toLowerCase()];
+  private verifyApiKeyFromHeaders(config: APIKeyAuth, headers: Record<string, string>): void {
+    const headerValue = headers[config.headerName.toLowerCase()];
     if (!headerValue) {
-      throw new AuthError(401, `Missing ${this.authConfig.headerName} header`);
+      throw new AuthError(401, `Missing ${config.headerName} header`);
     }
 
-    if (!this.secureCompare(headerValue, this.authConfig.apiKey)) {
+    if (!this.secureCompare(headerValue, config.apiKey)) {
       throw new AuthError(401, "Invalid API key");
     }
   }
 
-  private verifyBasicAuthFromHeaders(headers: Record<string, string>): void {
-    if (this.authConfig?.type !== "basic") {
-      throw new AuthError(500, "Invalid auth config");
-    }
-
+  private verifyBasicAuthFromHeaders(config: BasicAuth, headers: Record<string, string>): void {
     // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation for Record<string, string>
     const authorization = headers["authorization"];
     if (!authorization || !authorization.startsWith("Basic ")) {
@@ -130,8 +309,8 @@ export class AuthValidator {
       const password = decoded.slice(colonIndex + 1);
 
       if (
-        !this.secureCompare(username, this.authConfig.username) ||
-        !this.secureCompare(password, this.authConfig.password)
+        !this.secureCompare(username, config.username) ||
+        !this.secureCompare(password, config.password)
       ) {
         throw new AuthError(401, "Invalid credentials");
       }
@@ -143,11 +322,10 @@ export class AuthValidator {
     }
   }
 
-  private verifyBearerTokenFromHeaders(headers: Record<string, string>): void {
-    if (this.authConfig?.type !== "bearer") {
-      throw new AuthError(500, "Invalid auth config");
-    }
-
+  private verifyBearerTokenFromHeaders(
+    config: BearerTokenAuth,
+    headers: Record<string, string>
+  ): void {
     // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation for Record<string, string>
     const authorization = headers["authorization"];
     if (!authorization || !authorization.startsWith("Bearer ")) {
@@ -155,11 +333,120 @@ export class AuthValidator {
     }
 
     const token = authorization.slice(7); // Remove "Bearer "
-    if (!this.secureCompare(token, this.authConfig.token)) {
+    if (!this.secureCompare(token, config.token)) {
       throw new AuthError(401, "Invalid bearer token");
     }
   }
 
+  private async verifyJWTFromHeaders(
+    verifier: JWTVerifier,
+    headers: Record<string, string>
+  ): Promise<JWTClaims> {
+    // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation for Record<string, string>
+    const authorization = headers["authorization"];
+    if (!authorization || !authorization.startsWith("Bearer ")) {
+      throw new AuthError(401, "Missing or invalid Authorization header");
+    }
+
+    try {
+      return await verifier.verify(authorization.slice(7)); // Remove "Bearer "
+    } catch (error) {
+      if (error instanceof JWTError) {
+        throw new AuthError(error.status, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Verify the HMAC signature of the timestamp and raw body. Timestamps outside the
+   * tolerance window are rejected, and so are signatures already accepted within it.
+   */
+  private verifySignatureFromHeaders(
+    config: HMACAuth,
+    headers: Record<string, string>,
+    rawBody: Buffer | string | undefined
+  ): void {
+    if (rawBody === undefined) {
+      throw new AuthError(500, "HMAC authentication requires the raw request body");
+    }
+
+    const signatureHeader = config.signatureHeader ?? DEFAULT_SIGNATURE_HEADER;
+    const timestampHeader = config.timestampHeader ?? DEFAULT_TIMESTAMP_HEADER;
+    const signatureValue = headers[signatureHeader.toLowerCase()];
+    const timestamp = headers[timestampHeader.toLowerCase()];
+    if (!signatureValue) {
+      throw new AuthError(401, `Missing ${signatureHeader} header`);
+    }
+    if (!timestamp) {
+      throw new AuthError(401, `Missing ${timestampHeader} header`);
+    }
+
+    const timestampSeconds = Number(timestamp);
+    if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(timestampSeconds)) {
+      throw new AuthError(401, `Invalid ${timestampHeader} header`);
+    }
+    const toleranceMs = (config.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS) * 1000;
+    const now = getTimeMs();
+    if (Math.abs(now - timestampSeconds * 1000) > toleranceMs) {
+      throw new AuthError(401, "Request timestamp outside the tolerance window");
+    }
+
+    const algorithm = config.algorithm ?? "sha256";
+    const expected = createHmac(algorithm, config.secret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest("hex");
+    const signature = signatureValue.startsWith(`${algorithm}=`)
+      ? signatureValue.slice(algorithm.length + 1)
+      : signatureValue;
+    if (!this.secureCompare(signature.toLowerCase(), expected)) {
+      throw new AuthError(401, "Invalid signature");
+    }
+
+    this.forgetExpiredSignatures(now);
+    const seen = [...this.seenSignatures.values()].some((signatures) => signatures.has(expected));
+    if (seen) {
+      throw new ReplayedSignatureError();
+    }
+    let signatures = this.seenSignatures.get(toleranceMs);
+    if (!signatures) {
+      signatures = new Map();
+      this.seenSignatures.set(toleranceMs, signatures);
+    }
+    // A timestamp accepted now stays within the window for at most twice the tolerance
+    signatures.set(expected, now + 2 * toleranceMs);
+  }
+
+  /**
+   * Whether a repeated signed request is a retry of one whose response is cached or being
+   * computed. The signature covers the body, so it carries the same request ID.
+   */
+  private async isRetryOf(
+    credential: Credential,
+    rawBody: Buffer | string | undefined
+  ): Promise<boolean> {
+    const requestId = rawBody === undefined ? undefined : requestIdIn(rawBody);
+    return this.isRetry !== undefined && requestId !== undefined
+      ? this.isRetry(credential.id, requestId)
+      : false;
+  }
+
+  /**
+   * Drop signatures that can no longer be replayed. Signatures sharing a tolerance window
+   * expire in insertion order, so the expired ones of each window are at its front.
+   */
+  private forgetExpiredSignatures(now: number): void {
+    for (const signatures of this.seenSignatures.values()) {
+      for (const [signature, expiresAt] of signatures) {
+        if (expiresAt > now) {
+          break;
+        }
+        signatures.delete(signature);
+      }
+    }
+  }
+
   /**
    * Secure string comparison to prevent timing attacks
    */
@@ -174,3 +461,53 @@ export class AuthValidator {
     return timingSafeEqual(bufferA, bufferB);
   }
 }
+
+/**
+ * Express headers as a plain object, keeping the first value of repeated headers
+ */
+function headersOf(req: Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") {
+      headers[key] = value;
+    } else if (Array.isArray(value)) {
+      headers[key] = value[0] || "";
+    }
+  }
+  return headers;
+}
+
+/**
+ * The `metadata.requestId` of a raw JSON body
+ */
+function requestIdIn(rawBody: Buffer | string): string | undefined {
+  try {
+    return requestIdOf(JSON.parse(rawBody.toString()));
+  } catch {
+    return undefined;
+  }
+}
+
+function toCredential(config: AuthConfig, index: number): Credential {
+  return {
+    config,
+    label: config.label,
+    id: config.label ?? `#${index}`,
+    notBefore: timeOf(config, "notBefore", -Infinity),
+    notAfter: timeOf(config, "notAfter", Infinity),
+    jwtVerifier: config.type === "jwt" ? new JWTVerifier(config) : undefined,
+  };
+}
+
+function timeOf(config: AuthConfig, bound: "notBefore" | "notAfter", fallback: number): number {
+  const value = config[bound];
+  if (value === undefined) {
+    return fallback;
+  }
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    const credential = config.label ? ` of credential ${config.label}` : "";
+    throw new Error(`Invalid ${bound}${credential}: ${String(value)}`);
+  }
+  return time;
+}
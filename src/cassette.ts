@@ -0,0 +1,320 @@
+/**
+ * Record-and-replay cassettes for LLM calls and HTTP requests.
+ *
+ * In record mode, every call made through `LLM` and every `HTTPClient` request is
+ * performed for real and saved with its inputs and outputs to a JSON cassette
+ * file, keyed by a hash of the request. In replay mode, responses are served from
+ * the cassette without network access, and calls that were not recorded fail
+ * with `CassetteMissError`. Recording into an existing cassette keeps the requests that
+ * are not made again. Credential headers in recorded events and HTTP responses are
+ * redacted, and errors are replayed with the type they were recorded with.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { AgentError, LLMError, LLMTimeoutError, ValidationError } from "./errors.js";
+import type { Event } from "./protocol.js";
+import { Redactor } from "./redaction.js";
+
+/** Environment variable overriding the cassette mode: "record", "replay" or "off" */
+export const CASSETTE_MODE_ENV = "ZOWIE_CASSETTE_MODE";
+
+/** Environment variable setting the cassette file when `AgentOptions.cassette` is unset */
+export const CASSETTE_PATH_ENV = "ZOWIE_CASSETTE_PATH";
+
+const CASSETTE_VERSION = 1;
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteConfig {
+  /** Cassette file path */
+  path: string;
+  /** Whether to record live calls or replay recorded ones (default: "replay") */
+  mode?: CassetteMode;
+}
+
+/**
+ * A recorded call: its request, and either its response or the error it failed with,
+ * plus the events it produced
+ */
+export interface CassetteInteraction {
+  request: unknown;
+  response?: unknown;
+  /** Message of the error the call failed with */
+  error?: string;
+  /** Name of the error, e.g. "LLMTimeoutError", so replay raises the same type */
+  errorType?: string;
+  /** HTTP status of the error, e.g. of a failed LLM call */
+  errorStatus?: number;
+  /** Model of a failed LLM call */
+  errorModel?: string;
+  events?: Event[];
+}
+
+interface CassetteFile {
+  version: number;
+  interactions: Record<string, CassetteInteraction[]>;
+}
+
+/**
+ * Thrown in replay mode for calls that are not in the cassette
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly request: unknown
+  ) {
+    super(`No recorded interaction in cassette ${path} for request: ${JSON.stringify(request)}`);
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * Apply the environment overrides to a cassette configuration. `ZOWIE_CASSETTE_MODE`
+ * replaces the configured mode ("off" disables the cassette) and `ZOWIE_CASSETTE_PATH`
+ * enables a cassette when none is configured, in replay mode unless set otherwise.
+ */
+export function resolveCassetteConfig(
+  config?: CassetteConfig
+): Required<CassetteConfig> | undefined {
+  const envMode = process.env[CASSETTE_MODE_ENV];
+  const path = config?.path ?? process.env[CASSETTE_PATH_ENV];
+  if (!path || envMode === "off") {
+    return undefined;
+  }
+
+  if (envMode !== undefined && envMode !== "record" && envMode !== "replay") {
+    throw new Error(`${CASSETTE_MODE_ENV} must be "record", "replay" or "off", got "${envMode}"`);
+  }
+  return { path, mode: envMode ?? config?.mode ?? "replay" };
+}
+
+/**
+ * A cassette file in record or replay mode. Requests recorded several times are
+ * replayed in the order they were recorded.
+ */
+export class Cassette {
+  private interactions: Record<string, CassetteInteraction[]> = {};
+  private readonly replayCounts = new Map<string, number>();
+  /** Requests recorded by this instance, whose earlier recordings have been replaced */
+  private readonly recordedKeys = new Set<string>();
+  private loaded?: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+  /** Redacts the default credential headers, e.g. of tool handlers' HTTP calls */
+  private readonly redactor = new Redactor();
+
+  constructor(
+    public readonly path: string,
+    public readonly mode: CassetteMode
+  ) {}
+
+  /**
+   * Run an operation in record mode, or replay its recorded outcome: the result is
+   * returned (or the error thrown) and the recorded events are appended to `events`
+   */
+  async capture<T>(request: unknown, events: Event[], operation: () => Promise<T>): Promise<T> {
+    if (this.mode === "replay") {
+      const interaction = await this.find(request);
+      events.push(...(interaction.events ?? []));
+      if (interaction.error !== undefined) {
+        throw replayedError(interaction);
+      }
+      return interaction.response as T;
+    }
+
+    const firstEvent = events.length;
+    try {
+      const result = await operation();
+      await this.record({ request, response: result, events: events.slice(firstEvent) });
+      return result;
+    } catch (error) {
+      await this.record({ request, ...recordedError(error), events: events.slice(firstEvent) });
+      throw error;
+    }
+  }
+
+  /**
+   * Next recorded interaction for the request (replay mode)
+   */
+  async find(request: unknown): Promise<CassetteInteraction> {
+    await this.load();
+    const key = hashRequest(request);
+    const index = this.replayCounts.get(key) ?? 0;
+    const interaction = this.interactions[key]?.[index];
+    if (!interaction) {
+      throw new CassetteMissError(this.path, request);
+    }
+    this.replayCounts.set(key, index + 1);
+    return interaction;
+  }
+
+  /**
+   * Add an interaction and save the cassette (record mode). The first recording of a
+   * request replaces the ones already in the file; other requests in the file are kept.
+   * Credential headers of its events are redacted, since cassettes are typically committed.
+   */
+  async record(interaction: CassetteInteraction): Promise<void> {
+    await this.load();
+    const key = hashRequest(interaction.request);
+    if (!this.recordedKeys.has(key)) {
+      this.recordedKeys.add(key);
+      delete this.interactions[key];
+    }
+    const recorded = interaction.events
+      ? {
+          ...interaction,
+          events: interaction.events.map((event) => this.redactor.redactEvent(event)),
+        }
+      : interaction;
+    this.interactions[key] = [...(this.interactions[key] ?? []), recorded];
+    // Saves are chained so concurrent recordings never interleave their writes
+    const save = this.saving.then(() => this.save());
+    this.saving = save.catch(() => undefined);
+    await save;
+  }
+
+  /**
+   * Wrap a `fetch` implementation so HTTP requests are recorded or replayed. Requests
+   * are keyed by method, URL and body; request headers are neither keyed nor recorded,
+   * and credential headers of responses, e.g. `Set-Cookie`, are redacted, so credentials
+   * stay out of the cassette.
+   */
+  wrapFetch(fetchImpl: typeof fetch = (input, init) => fetch(input, init)): typeof fetch {
+    return async (input, init) => {
+      const original = new Request(input, init);
+      const body = original.body ? await original.clone().text() : undefined;
+      const request = { kind: "http", method: original.method, url: original.url, body };
+
+      if (this.mode === "replay") {
+        const interaction = await this.find(request);
+        if (interaction.error !== undefined) {
+          throw replayedError(interaction);
+        }
+        const recorded = interaction.response as RecordedResponse;
+        return new Response(recorded.body, { status: recorded.status, headers: recorded.headers });
+      }
+
+      let response: Response;
+      try {
+        response = await fetchImpl(original);
+      } catch (error) {
+        await this.record({ request, ...recordedError(error) });
+        throw error;
+      }
+      const recorded: RecordedResponse = {
+        status: response.status,
+        headers: this.redactor.redactHeaders(Object.fromEntries(response.headers.entries())),
+        body: await response.clone().text(),
+      };
+      await this.record({ request, response: recorded });
+      return response;
+    };
+  }
+
+  /**
+   * Read the cassette file once. In record mode, a missing file starts an empty cassette.
+   */
+  private load(): Promise<void> {
+    this.loaded ??= readFile(this.path, "utf8").then(
+      (content) => {
+        const file = JSON.parse(content) as CassetteFile;
+        if (file.version !== CASSETTE_VERSION) {
+          throw new Error(`Unsupported cassette version ${file.version} in ${this.path}`);
+        }
+        this.interactions = file.interactions;
+      },
+      (error: unknown) => {
+        if (this.mode === "replay" || !isNotFoundError(error)) {
+          throw error;
+        }
+      }
+    );
+    return this.loaded;
+  }
+
+  private async save(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const file: CassetteFile = { version: CASSETTE_VERSION, interactions: this.interactions };
+    // Write to a temporary file first so an interrupted save never leaves a partial cassette
+    const tempPath = `${this.path}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+    await rename(tempPath, this.path);
+  }
+}
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Fields of an interaction describing the error a call failed with
+ */
+export function recordedError(
+  error: unknown
+): Pick<CassetteInteraction, "error" | "errorType" | "errorStatus" | "errorModel"> {
+  if (!(error instanceof Error)) {
+    return { error: String(error) };
+  }
+  const status = (error as { status?: unknown }).status;
+  return {
+    error: error.message,
+    errorType: error.name,
+    ...(typeof status === "number" && { errorStatus: status }),
+    ...(error instanceof LLMError && error.model !== undefined && { errorModel: error.model }),
+  };
+}
+
+/**
+ * The error of a recorded interaction, rebuilt with its recorded type. `fetch` failures
+ * keep their name, so timeouts and aborts are told apart as they were when recorded.
+ */
+export function replayedError(interaction: CassetteInteraction): Error {
+  const { error: message = "", errorType, errorStatus, errorModel } = interaction;
+  switch (errorType) {
+    case "LLMTimeoutError":
+      return new LLMTimeoutError(message, errorModel);
+    case "LLMError": {
+      // LLMError reads the status from the provider error it wraps
+      const cause = Object.assign(new Error(message), { status: errorStatus });
+      return new LLMError(message, errorModel, { cause });
+    }
+    case "ValidationError":
+      return new ValidationError(message);
+    case "AgentError":
+      return new AgentError(message);
+    case "AbortError":
+    case "TimeoutError":
+      return new DOMException(message, errorType);
+    case "TypeError":
+      return new TypeError(message);
+    default: {
+      const error = new Error(message);
+      if (errorType !== undefined) {
+        error.name = errorType;
+      }
+      return error;
+    }
+  }
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "ENOENT";
+}
+
+function hashRequest(request: unknown): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex").slice(0, 16);
+}
+
+/**
+ * JSON with object keys sorted, so equal requests hash equally regardless of key order
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : nested
+  );
+}
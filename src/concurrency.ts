@@ -0,0 +1,147 @@
+/**
+ * Concurrency limits for request handling and outgoing LLM and HTTP calls.
+ *
+ * A `Semaphore` admits a fixed number of holders and queues the rest in arrival
+ * order. `SemaphorePool` keeps one semaphore per key, such as an LLM model or an
+ * HTTP host.
+ */
+
+import { getTimeMs } from "./utils.js";
+
+/**
+ * Configuration of concurrency limits. Unset limits are not enforced.
+ */
+export interface ConcurrencyOptions {
+  /** Maximum number of requests handled at once (default: unlimited) */
+  maxConcurrentRequests?: number | undefined;
+
+  /**
+   * Maximum number of requests waiting for a slot; further requests are rejected with
+   * HTTP 503 (default: 100)
+   */
+  maxQueuedRequests?: number | undefined;
+
+  /** Seconds sent in the `Retry-After` header of rejected requests (default: 1) */
+  retryAfterSeconds?: number | undefined;
+
+  /** Maximum number of concurrent calls to each LLM provider and model (default: unlimited) */
+  maxConcurrentLLMCalls?: number | undefined;
+
+  /** Maximum number of concurrent `context.http` requests to each host (default: unlimited) */
+  maxConcurrentHTTPCallsPerHost?: number | undefined;
+}
+
+/**
+ * Called once a holder got its slot, with the time it waited in milliseconds and
+ * whether it had to queue for it
+ */
+export type SemaphoreWaitListener = (key: string, waitMs: number, queued: boolean) => void;
+
+/**
+ * Counting semaphore with a FIFO queue of waiting holders
+ */
+export class Semaphore {
+  private holders = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  /**
+   * @param limit - Number of holders admitted at once
+   * @param maxQueued - Number of waiters beyond which the semaphore reports itself full
+   */
+  constructor(
+    public readonly limit: number,
+    public readonly maxQueued = Number.POSITIVE_INFINITY
+  ) {}
+
+  /** Number of current holders */
+  get active(): number {
+    return this.holders;
+  }
+
+  /** Number of callers waiting for a slot */
+  get queued(): number {
+    return this.waiters.length;
+  }
+
+  /** Whether a new caller would have to wait for a slot */
+  get isSaturated(): boolean {
+    return this.holders >= this.limit;
+  }
+
+  /** Whether both the slots and the queue are taken */
+  get isFull(): boolean {
+    return this.isSaturated && this.waiters.length >= this.maxQueued;
+  }
+
+  /**
+   * Wait for a slot and return the function releasing it. Rejects with the signal's
+   * reason when it aborts while waiting.
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted();
+    if (!this.isSaturated) {
+      this.holders++;
+      return this.releaser();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+    return this.releaser();
+  }
+
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      // Hand the slot over to the next waiter, if any
+      const next = this.waiters.shift();
+      if (next) {
+        next();
+      } else {
+        this.holders--;
+      }
+    };
+  }
+}
+
+/**
+ * One semaphore per key, created on first use
+ */
+export class SemaphorePool {
+  private readonly semaphores = new Map<string, Semaphore>();
+
+  constructor(
+    public readonly limit: number,
+    private readonly onWait?: SemaphoreWaitListener
+  ) {}
+
+  /**
+   * Wait for a slot of the key's semaphore and return the function releasing it
+   */
+  async acquire(key: string, signal?: AbortSignal): Promise<() => void> {
+    let semaphore = this.semaphores.get(key);
+    if (!semaphore) {
+      semaphore = new Semaphore(this.limit);
+      this.semaphores.set(key, semaphore);
+    }
+
+    const queued = semaphore.isSaturated;
+    const waitStart = getTimeMs();
+    const release = await semaphore.acquire(signal);
+    this.onWait?.(key, getTimeMs() - waitStart, queued);
+    return release;
+  }
+}
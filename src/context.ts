@@ -7,12 +7,15 @@
  */
 
 import type { z } from "zod";
-import type { APICallInput, LLMCallInput } from "./domain.js";
+import type { APICallInput, JWTClaims, LLMCallInput } from "./domain.js";
 import type { HTTPClient, HTTPRequestOptions } from "./http.js";
 import type { LLM } from "./llm/index.js";
+import type { LLMTool } from "./llm/tools.js";
+import { type LLMUsageSummary, summarizeUsage } from "./llm/usage.js";
 import type { APICallEvent, Event, LLMCallEvent, Message, Metadata, Persona } from "./protocol.js";
+import { Session, type SessionData } from "./session.js";
 
-export class Context {
+export class Context<TSession extends object = SessionData> {
   public readonly metadata: Metadata;
   public readonly messages: Message[];
   public readonly path: string;
@@ -24,9 +27,22 @@ export class Context {
   public readonly storeValue: (key: string, value: unknown) => void;
   public readonly llm: ContextualLLM;
   public readonly http: ContextualHTTPClient;
+  /** State kept across turns of this conversation (see `AgentOptions.sessionStore`) */
+  public readonly session: Session<TSession>;
+  /**
+   * Aborted when the request passes its deadline or is cancelled by shutdown. LLM and
+   * HTTP calls of the context already observe it.
+   */
+  public readonly signal: AbortSignal;
+  /**
+   * Verified claims of the JWT the request was authenticated with, e.g. to authorize
+   * by tenant; undefined unless `authConfig` is of type `jwt`
+   */
+  public readonly authClaims: JWTClaims | undefined;
 
   private readonly baseLLM: LLM;
   private readonly baseHTTP: HTTPClient;
+  private readonly deadline: number | undefined;
 
   constructor(
     metadata: Metadata,
@@ -39,7 +55,11 @@ export class Context {
     http: HTTPClient,
     persona?: Persona | undefined,
     context?: string | undefined,
-    events: Event[] = []
+    events: Event[] = [],
+    session?: Session<TSession>,
+    signal: AbortSignal = new AbortController().signal,
+    deadline?: number,
+    authClaims?: JWTClaims
   ) {
     this.metadata = metadata;
     this.messages = messages;
@@ -52,11 +72,22 @@ export class Context {
     this.persona = persona;
     this.context = context;
     this.events = events;
+    this.session = session ?? new Session<TSession>(metadata.conversationId);
+    this.signal = signal;
+    this.deadline = deadline;
+    this.authClaims = authClaims;
 
     this.llm = new ContextualLLM(this.baseLLM, this.persona, this.context, this.events);
     this.http = new ContextualHTTPClient(this.baseHTTP, this.events);
   }
 
+  /**
+   * Milliseconds left until the request's deadline, or `Infinity` when it has none
+   */
+  remainingMs(): number {
+    return this.deadline === undefined ? Infinity : Math.max(0, this.deadline - Date.now());
+  }
+
   logLLMCall(input: LLMCallInput): void {
     const event: LLMCallEvent = {
       type: "llm_call",
@@ -65,11 +96,25 @@ export class Context {
         response: input.response,
         model: input.model,
         durationInMillis: input.durationInMillis,
+        inputTokens: input.inputTokens,
+        outputTokens: input.outputTokens,
+        cachedTokens: input.cachedTokens,
+        reasoningTokens: input.reasoningTokens,
+        estimatedCost: input.estimatedCost,
       },
     };
     this.events.push(event);
   }
 
+  /**
+   * Token usage and estimated cost of all LLM calls recorded so far in this request
+   */
+  getUsageSummary(): LLMUsageSummary {
+    return summarizeUsage(
+      this.events.flatMap((event) => (event.type === "llm_call" ? [event.payload] : []))
+    );
+  }
+
   logAPICall(input: APICallInput): void {
     const event: APICallEvent = {
       type: "api_call",
@@ -182,6 +227,62 @@ export class ContextualLLM {
       parameters
     );
   }
+
+  /**
+   * Let the model call the given tools until it produces a final text response.
+   * Every model call is recorded as an `llm_call` event and every tool invocation
+   * as a `tool_call` event.
+   */
+  async generateContentWithTools(
+    messages: Message[],
+    tools: LLMTool[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    parameters?: Record<string, unknown>
+  ): Promise<string> {
+    return this.baseLLM.generateContentWithTools(
+      messages,
+      tools,
+      systemInstruction,
+      includePersona,
+      includeContext,
+      this.persona,
+      this.context,
+      this.events,
+      parameters
+    );
+  }
+
+  /**
+   * Stream text deltas as they are generated. A single `llm_call` event with the
+   * full text is recorded once the stream ends.
+   *
+   * @example
+   * ```typescript
+   * for await (const delta of context.llm.streamContent(context.messages)) {
+   *   voiceChannel.send(delta);
+   * }
+   * ```
+   */
+  streamContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    parameters?: Record<string, unknown>
+  ): AsyncIterable<string> {
+    return this.baseLLM.streamContent(
+      messages,
+      systemInstruction,
+      includePersona,
+      includeContext,
+      this.persona,
+      this.context,
+      this.events,
+      parameters
+    );
+  }
 }
 
 /**
@@ -52,27 +52,107 @@ export interface GoogleProviderConfig {
   vertexai?: VertexAIConfig;
 }
 
-export type LLMConfig = OpenAIProviderConfig | GoogleProviderConfig;
+export interface AnthropicProviderConfig {
+  provider: "anthropic";
+  apiKey: string;
+  model: string;
+  /** Maximum number of tokens to generate per response (default: 4096) */
+  maxTokens?: number;
+  /** Custom base URL for the API (e.g., for proxies or a local mock server) */
+  baseURL?: string;
+}
+
+export type LLMConfig = OpenAIProviderConfig | GoogleProviderConfig | AnthropicProviderConfig;
 
 // Authentication configuration
-export interface APIKeyAuth {
+
+/**
+ * Label and validity window of a credential. Listing several credentials in `authConfig`
+ * lets a new one be introduced before the old one stops being accepted.
+ */
+export interface CredentialOptions {
+  /** Name logged with each request the credential authenticates, e.g. "2025-q1" */
+  label?: string | undefined;
+  /** Time from which the credential is accepted, as a Date or ISO 8601 string (default: always) */
+  notBefore?: Date | string | undefined;
+  /** Time after which the credential is no longer accepted (default: never) */
+  notAfter?: Date | string | undefined;
+}
+
+export interface APIKeyAuth extends CredentialOptions {
   type: "api_key";
   headerName: string;
   apiKey: string;
 }
 
-export interface BasicAuth {
+export interface BasicAuth extends CredentialOptions {
   type: "basic";
   username: string;
   password: string;
 }
 
-export interface BearerTokenAuth {
+export interface BearerTokenAuth extends CredentialOptions {
   type: "bearer";
   token: string;
 }
 
-export type AuthConfig = APIKeyAuth | BasicAuth | BearerTokenAuth;
+/**
+ * Requests signed with a shared secret: the signature header carries the hex-encoded
+ * HMAC of `${timestamp}.${rawBody}`, where the timestamp header carries Unix seconds
+ */
+export interface HMACAuth extends CredentialOptions {
+  type: "hmac";
+  secret: string;
+  /** Header carrying the signature, optionally prefixed with `sha256=` (default: "X-Zowie-Signature") */
+  signatureHeader?: string | undefined;
+  /** Header carrying the time the request was signed (default: "X-Zowie-Timestamp") */
+  timestampHeader?: string | undefined;
+  /** HMAC digest algorithm (default: "sha256") */
+  algorithm?: "sha256" | "sha512" | undefined;
+  /** Maximum difference between the timestamp and the current time in seconds (default: 300) */
+  toleranceSeconds?: number | undefined;
+}
+
+export type JWTAlgorithm = "HS256" | "RS256" | "ES256";
+
+/**
+ * Bearer JSON Web Tokens, verified against exactly one of `key`, `jwksUri` or `jwksPath`.
+ * Tokens must carry an `exp` claim; verified claims are available as `context.authClaims`.
+ */
+export interface JWTAuth extends CredentialOptions {
+  type: "jwt";
+  /** Static verification key: an HS256 secret, or a PEM-encoded RS256 or ES256 public key */
+  key?: string | undefined;
+  /** URL of a JWKS document, fetched and cached; refetched for unknown key IDs */
+  jwksUri?: string | undefined;
+  /** Path of a local JWKS file, e.g. in tests */
+  jwksPath?: string | undefined;
+  /** Accepted signature algorithms (default: HS256, RS256 and ES256, as allowed by the key) */
+  algorithms?: JWTAlgorithm[] | undefined;
+  /** Accepted `iss` claims (default: any) */
+  issuer?: string | string[] | undefined;
+  /** Accepted `aud` claims; the token must name one of them (default: any) */
+  audience?: string | string[] | undefined;
+  /** Tolerated clock difference when checking `exp` and `nbf` in seconds (default: 60) */
+  clockSkewSeconds?: number | undefined;
+  /** Time a fetched JWKS document is cached for in milliseconds (default: 600000) */
+  jwksCacheTtlMs?: number | undefined;
+}
+
+/**
+ * Claims of a verified JSON Web Token
+ */
+export interface JWTClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export type AuthConfig = APIKeyAuth | BasicAuth | BearerTokenAuth | HMACAuth | JWTAuth;
 
 // Event logging input types
 export interface LLMCallInput {
@@ -80,6 +160,11 @@ export interface LLMCallInput {
   response: string;
   model: string;
   durationInMillis: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number;
+  reasoningTokens?: number;
+  estimatedCost?: number;
 }
 
 export interface APICallInput {
@@ -0,0 +1,96 @@
+/**
+ * Errors raised by the SDK while handling a request.
+ *
+ * `context.llm` and `context.http` failures are raised as subclasses of `AgentError`,
+ * carrying the underlying provider or `fetch` error as `cause`. `Agent.onError` can map
+ * them to a response for Decision Engine.
+ */
+
+/**
+ * Base class of errors raised by the SDK
+ */
+export class AgentError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "AgentError";
+  }
+}
+
+/**
+ * An LLM call failed on every configured provider
+ */
+export class LLMError extends AgentError {
+  /** HTTP status of the provider's error response, when it sent one */
+  public readonly status: number | undefined;
+
+  constructor(
+    message: string,
+    public readonly model: string | undefined,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "LLMError";
+    const status = (options?.cause as { status?: unknown } | undefined)?.status;
+    this.status = typeof status === "number" ? status : undefined;
+  }
+}
+
+/**
+ * Error thrown when an LLM request times out after all timeout retries
+ */
+export class LLMTimeoutError extends LLMError {
+  constructor(message: string, model?: string) {
+    super(message, model);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/**
+ * An HTTP request could not be completed: connection failure, timeout or abort.
+ * Responses with an error status are returned, not thrown.
+ */
+export class HTTPError extends AgentError {
+  constructor(
+    message: string,
+    public readonly method: string,
+    public readonly url: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "HTTPError";
+  }
+}
+
+/**
+ * An HTTP request timed out
+ */
+export class HTTPTimeoutError extends HTTPError {
+  constructor(method: string, url: string, timeoutMs: number, options?: ErrorOptions) {
+    super(`HTTP request timeout after ${timeoutMs}ms: ${method} ${url}`, method, url, options);
+    this.name = "HTTPTimeoutError";
+  }
+}
+
+/**
+ * Thrown without making a request while the circuit breaker for a host is open
+ */
+export class CircuitOpenError extends HTTPError {
+  constructor(
+    public readonly host: string,
+    method: string,
+    url: string
+  ) {
+    super(`Circuit breaker open for ${host}`, method, url);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * LLM output did not match the expected schema, e.g. in structured generation
+ */
+export class ValidationError extends AgentError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ValidationError";
+  }
+}
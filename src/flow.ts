@@ -0,0 +1,307 @@
+/**
+ * Declarative multi-step dialog flows.
+ *
+ * A flow is a set of named steps. Each step can collect slots (values extracted
+ * from the conversation by the LLM and validated with a Zod schema), then
+ * transitions to another step or finishes by transferring to a Decision Engine
+ * block. The flow position and collected slots are kept in `context.session`,
+ * so a flow spans as many conversation turns as it needs.
+ */
+
+import { z } from "zod";
+import { Agent, type AgentOptions } from "./agent.js";
+import type { Context } from "./context.js";
+import type { AgentResponse } from "./domain.js";
+
+/** Default cap on step transitions within a single turn, guarding against cycles */
+export const DEFAULT_MAX_FLOW_TRANSITIONS = 20;
+
+/**
+ * Terminal transition: leave the flow and continue at a Decision Engine block
+ */
+export interface FlowFinish {
+  nextBlock: string;
+  message?: string;
+}
+
+/**
+ * Name of the next step, or a terminal transition
+ */
+export type FlowTransition = string | FlowFinish;
+
+type FlowValue<TSlots, T> = T | ((slots: Partial<TSlots>, context: Context) => T | Promise<T>);
+
+/**
+ * A single step of a flow
+ */
+export interface FlowStep<TSlots extends object> {
+  /**
+   * Slots collected by this step. Values are extracted from the conversation and
+   * validated against the schema; `.describe()` texts guide the extraction.
+   */
+  collect?: z.ZodObject<z.ZodRawShape>;
+  /** Message asking the user for the missing slots */
+  prompt?: FlowValue<TSlots, string>;
+  /**
+   * Cross-field validation run once all slots of the step are collected. Return an
+   * error message to discard the step's slots and ask again.
+   */
+  validate?(
+    slots: Partial<TSlots>,
+    context: Context
+  ): string | undefined | Promise<string | undefined>;
+  /**
+   * Message sent when collected values are rejected (default: the error followed by the prompt)
+   */
+  reprompt?(error: string, slots: Partial<TSlots>, context: Context): string | Promise<string>;
+  /**
+   * Transition taken once the step is complete. A function can call APIs through
+   * `context.http` and choose the transition from the results.
+   */
+  next: FlowValue<TSlots, FlowTransition>;
+}
+
+/**
+ * Flow declaration
+ */
+export interface FlowDefinition<TSlots extends object> {
+  /** Step the flow starts at */
+  initialStep: string;
+  steps: Record<string, FlowStep<TSlots>>;
+  /** Additional instructions for slot extraction (e.g. domain vocabulary) */
+  extractionInstruction?: string;
+  /** Maximum step transitions within a single turn (default: 20) */
+  maxTransitions?: number;
+}
+
+/**
+ * Flow position and slots persisted in the session between turns
+ */
+export interface FlowState<TSlots extends object> {
+  step: string;
+  slots: Partial<TSlots>;
+  /** Whether the user was asked for the current step's slots in the previous turn */
+  awaitingInput: boolean;
+}
+
+/**
+ * Session data of a flow agent
+ */
+export interface FlowSessionData<TSlots extends object> {
+  flow: FlowState<TSlots>;
+}
+
+export interface FlowAgentOptions<TSlots extends object> extends AgentOptions {
+  flow: FlowDefinition<TSlots>;
+}
+
+/**
+ * Define a flow with its slot type checked across steps.
+ *
+ * @example
+ * ```typescript
+ * const returnsFlow = defineFlow<{ orderNumber: string; confirmed: boolean }>({
+ *   initialStep: "order",
+ *   steps: {
+ *     order: {
+ *       collect: z.object({ orderNumber: z.string().regex(/^\d{6}$/, "Order numbers have 6 digits") }),
+ *       prompt: "What is your order number?",
+ *       next: "confirm",
+ *     },
+ *     confirm: {
+ *       collect: z.object({ confirmed: z.boolean() }),
+ *       prompt: (slots) => `Shall I start a return for order ${slots.orderNumber}?`,
+ *       next: (slots) =>
+ *         slots.confirmed ? { nextBlock: "return_created" } : { nextBlock: "main_menu" },
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export function defineFlow<TSlots extends object>(
+  flow: FlowDefinition<TSlots>
+): FlowDefinition<TSlots> {
+  return flow;
+}
+
+/**
+ * Agent driven by a declarative flow instead of a hand-written `handle()`.
+ *
+ * Each turn, the current step extracts its slots from the conversation with
+ * `generateStructuredContent`, asks for whatever is missing or invalid, and once
+ * complete follows its `next` transition. Finishing the flow returns a
+ * `TransferToBlockResponse` and clears the flow state, so the next conversation
+ * turn starts over at `initialStep`.
+ *
+ * Requires `sessionStore` for the flow to span multiple turns.
+ */
+export class FlowAgent<TSlots extends object = Record<string, unknown>> extends Agent<
+  FlowSessionData<TSlots>
+> {
+  protected readonly flow: FlowDefinition<TSlots>;
+
+  constructor(options: FlowAgentOptions<TSlots>) {
+    super(options);
+    this.flow = options.flow;
+    if (!options.sessionStore) {
+      this.logger.warn("FlowAgent without a sessionStore restarts the flow on every turn");
+    }
+  }
+
+  async handle(context: Context<FlowSessionData<TSlots>>): Promise<AgentResponse> {
+    const storedState = context.session.get("flow");
+    const state: FlowState<TSlots> = storedState ?? {
+      step: this.flow.initialStep,
+      slots: {},
+      awaitingInput: false,
+    };
+    // Slots are extracted for steps the user was asked about, and on the first turn
+    // so values given upfront are picked up
+    let extract = storedState === undefined || state.awaitingInput;
+    const maxTransitions = this.flow.maxTransitions ?? DEFAULT_MAX_FLOW_TRANSITIONS;
+
+    for (let transition = 0; transition <= maxTransitions; transition++) {
+      const step = this.getStep(state.step);
+      const flowContext = context as Context;
+
+      if (step.collect) {
+        if (extract) {
+          const { values, errors } = await this.extractSlots(step.collect, state.slots, context);
+          Object.assign(state.slots, values);
+
+          const [error] = Object.values(errors);
+          if (error) {
+            return this.askAgain(context, state, step, error);
+          }
+        }
+
+        if (this.missingSlots(step.collect, state.slots).length > 0) {
+          state.awaitingInput = true;
+          context.session.set("flow", state);
+          return { type: "continue", message: await this.resolvePrompt(step, state, flowContext) };
+        }
+
+        const error = await step.validate?.(state.slots, flowContext);
+        if (error) {
+          for (const key of Object.keys(step.collect.shape)) {
+            delete state.slots[key as keyof TSlots];
+          }
+          return this.askAgain(context, state, step, error);
+        }
+      }
+
+      const next =
+        typeof step.next === "function" ? await step.next(state.slots, flowContext) : step.next;
+
+      if (typeof next !== "string") {
+        context.session.delete("flow");
+        return {
+          type: "finish",
+          nextBlock: next.nextBlock,
+          ...(next.message !== undefined && { message: next.message }),
+        };
+      }
+
+      state.step = next;
+      state.awaitingInput = false;
+      extract = false;
+    }
+
+    throw new Error(`Flow exceeded ${maxTransitions} step transitions in a single turn`);
+  }
+
+  private getStep(name: string): FlowStep<TSlots> {
+    const step = this.flow.steps[name];
+    if (!step) {
+      throw new Error(`Unknown flow step: ${name}`);
+    }
+    return step;
+  }
+
+  private missingSlots(schema: z.ZodObject<z.ZodRawShape>, slots: Partial<TSlots>): string[] {
+    return Object.entries(schema.shape)
+      .filter(([key, field]) => !field.isOptional() && slots[key as keyof TSlots] === undefined)
+      .map(([key]) => key);
+  }
+
+  private async resolvePrompt(
+    step: FlowStep<TSlots>,
+    state: FlowState<TSlots>,
+    context: Context
+  ): Promise<string> {
+    if (typeof step.prompt === "function") {
+      return step.prompt(state.slots, context);
+    }
+    if (step.prompt) {
+      return step.prompt;
+    }
+    const missing = step.collect ? this.missingSlots(step.collect, state.slots) : [];
+    return `Please provide: ${missing.join(", ")}`;
+  }
+
+  private async askAgain(
+    context: Context<FlowSessionData<TSlots>>,
+    state: FlowState<TSlots>,
+    step: FlowStep<TSlots>,
+    error: string
+  ): Promise<AgentResponse> {
+    state.awaitingInput = true;
+    context.session.set("flow", state);
+
+    const flowContext = context as Context;
+    const message = step.reprompt
+      ? await step.reprompt(error, state.slots, flowContext)
+      : `${error} ${await this.resolvePrompt(step, state, flowContext)}`;
+    return { type: "continue", message };
+  }
+
+  /**
+   * Extract the step's slots from the conversation. Every field is nullable so the
+   * model can leave out values the user has not given; values failing the field
+   * schema are dropped and reported instead of failing the whole extraction.
+   */
+  private async extractSlots(
+    schema: z.ZodObject<z.ZodRawShape>,
+    slots: Partial<TSlots>,
+    context: Context<FlowSessionData<TSlots>>
+  ): Promise<{ values: Partial<TSlots>; errors: Record<string, string> }> {
+    const errors: Record<string, string> = {};
+    const shape: z.ZodRawShape = {};
+    for (const [key, field] of Object.entries(schema.shape)) {
+      shape[key] = field.nullable().catch(({ error }: { error: z.ZodError }) => {
+        errors[key] = error.issues[0]?.message ?? `Invalid ${key}`;
+        return null;
+      });
+    }
+
+    const known = Object.fromEntries(
+      Object.keys(schema.shape)
+        .filter((key) => slots[key as keyof TSlots] !== undefined)
+        .map((key) => [key, slots[key as keyof TSlots]])
+    );
+    const instruction = [
+      "Extract the following values from what the user said in the conversation.",
+      "Use null for any value the user has not provided. Do not guess.",
+      Object.keys(known).length > 0
+        ? `Values collected so far (replace them only if the user corrected them): ${JSON.stringify(known)}`
+        : undefined,
+      this.flow.extractionInstruction,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const extracted = await context.llm.generateStructuredContent(
+      context.messages,
+      z.object(shape),
+      instruction
+    );
+
+    const values: Partial<TSlots> = {};
+    for (const [key, value] of Object.entries(extracted)) {
+      if (value !== null && value !== undefined) {
+        values[key as keyof TSlots] = value as TSlots[keyof TSlots];
+      }
+    }
+    return { values, errors };
+  }
+}
@@ -2,37 +2,138 @@
  * HTTP client with automatic request/response event tracking.
  *
  * All HTTP requests are automatically logged as APICallEvent objects for
- * observability and debugging. Supports configurable timeouts and header
- * inclusion controls.
+ * observability and debugging. Supports configurable timeouts, header
+ * inclusion controls, retries with backoff, a per-host circuit breaker and a per-host
+ * concurrency limit.
  *
  * Thread-safe: Events are passed per-request, not stored in the instance.
  */
 
+import { setTimeout as sleep } from "node:timers/promises";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
 import type winston from "winston";
+import type { SemaphorePool } from "./concurrency.js";
+import { CircuitOpenError, HTTPError, HTTPTimeoutError } from "./errors.js";
 import { getLogger } from "./logger.js";
 import type { APICallEvent, Event } from "./protocol.js";
+import {
+  type CorrelationHeader,
+  correlationHeaders,
+  currentEvents,
+  withRequestSignal,
+} from "./scope.js";
+import { withSpan } from "./telemetry.js";
 import { getTimeMs, isAbortError, isTimeoutError } from "./utils.js";
 
+/**
+ * Retry policy for HTTP requests. Unset fields use the defaults below.
+ */
+export interface HTTPRetryPolicy {
+  /** Total attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Backoff before the first retry in milliseconds (default: 200) */
+  initialDelayMs?: number;
+  /** Upper bound of a single backoff in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+  /** Backoff growth factor per attempt (default: 2) */
+  backoffMultiplier?: number;
+  /** Response status codes that are retried (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /**
+   * Methods that are retried (default: idempotent methods GET, HEAD, OPTIONS, PUT, DELETE).
+   * Add POST or PATCH only for endpoints that are safe to repeat.
+   */
+  retryMethods?: string[];
+  /**
+   * Whether to wait as long as a `Retry-After` response header asks. Responses asking
+   * for longer than `maxDelayMs` are returned without retrying (default: true)
+   */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Per-host circuit breaker: after `failureThreshold` consecutive failures (connection
+ * errors, timeouts or 5xx responses) requests to the host fail fast with
+ * `CircuitOpenError` for `resetTimeoutMs`, after which one trial request is let through.
+ */
+export interface CircuitBreakerPolicy {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial request in milliseconds (default: 30000) */
+  resetTimeoutMs?: number;
+}
+
 export interface HTTPRequestOptions {
   timeout?: number;
   includeHeaders?: boolean;
   includeRequestBody?: boolean;
+  /** Retry policy for this request, or false to disable retries (default: the client policy) */
+  retry?: HTTPRetryPolicy | false;
+}
+
+const DEFAULT_RETRY_POLICY: Required<HTTPRetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 200,
+  maxDelayMs: 5000,
+  backoffMultiplier: 2,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryMethods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  respectRetryAfter: true,
+};
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+interface AttemptResult {
+  response?: Response;
+  error?: Error;
 }
 
 export class HTTPClient {
   private readonly defaultTimeoutMs: number;
   private readonly includeHeadersByDefault: boolean;
   private readonly includeRequestBodiesByDefault: boolean;
+  private readonly defaultRetryPolicy: HTTPRetryPolicy | undefined;
+  private readonly circuitBreakerPolicy: CircuitBreakerPolicy | undefined;
+  private readonly circuits = new Map<string, CircuitState>();
+  private readonly fetchImpl: typeof fetch | undefined;
+  private readonly correlationHeaders: CorrelationHeader[];
+  private readonly concurrencyLimiter: SemaphorePool | undefined;
   private readonly logger: winston.Logger;
 
+  /**
+   * @param defaultRetryPolicy - Retry policy for all requests; when unset, requests are
+   *   attempted once unless they pass a `retry` option
+   * @param circuitBreakerPolicy - Enables the per-host circuit breaker when set
+   * @param fetchImpl - `fetch` implementation to use instead of the global one
+   * @param correlationHeaders - Correlation headers added to requests made while handling
+   *   an agent request, unless already set by the caller
+   * @param concurrencyLimiter - Limits concurrent requests to each host
+   */
   constructor(
     defaultTimeoutMs = 10000,
     includeHeadersByDefault = true,
-    includeRequestBodiesByDefault = true
+    includeRequestBodiesByDefault = true,
+    defaultRetryPolicy?: HTTPRetryPolicy,
+    circuitBreakerPolicy?: CircuitBreakerPolicy,
+    fetchImpl?: typeof fetch,
+    correlationHeaders: CorrelationHeader[] = [],
+    concurrencyLimiter?: SemaphorePool
   ) {
     this.defaultTimeoutMs = defaultTimeoutMs;
     this.includeHeadersByDefault = includeHeadersByDefault;
     this.includeRequestBodiesByDefault = includeRequestBodiesByDefault;
+    this.defaultRetryPolicy = defaultRetryPolicy;
+    this.circuitBreakerPolicy = circuitBreakerPolicy;
+    this.fetchImpl = fetchImpl;
+    this.correlationHeaders = correlationHeaders;
+    this.concurrencyLimiter = concurrencyLimiter;
     this.logger = getLogger("zowie_agent.HTTPClient");
   }
 
@@ -57,19 +158,263 @@ export class HTTPClient {
   private async request(
     method: string,
     url: string,
-    headers: Record<string, string>,
+    requestHeaders: Record<string, string>,
     events: Event[],
     body?: unknown,
     options?: HTTPRequestOptions
   ): Promise<Response> {
-    const timeoutMs = options?.timeout ?? this.defaultTimeoutMs;
+    const target = new URL(url);
+    const attributes = {
+      "http.request.method": method,
+      "url.full": spanURL(target),
+      "server.address": target.hostname,
+      ...(target.port && { "server.port": Number(target.port) }),
+    };
+    return withSpan(method, SpanKind.CLIENT, attributes, async (span) => {
+      const response = await this.requestWithRetries(
+        method,
+        url,
+        requestHeaders,
+        events,
+        body,
+        options
+      );
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 400) {
+        span.setAttribute("error.type", String(response.status));
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      return response;
+    });
+  }
+
+  private async requestWithRetries(
+    method: string,
+    url: string,
+    requestHeaders: Record<string, string>,
+    events: Event[],
+    body: unknown,
+    options: HTTPRequestOptions | undefined
+  ): Promise<Response> {
+    const headers = this.withCorrelationHeaders(requestHeaders);
+    const retryOption = options?.retry ?? this.defaultRetryPolicy;
+    const policy = retryOption ? { ...DEFAULT_RETRY_POLICY, ...retryOption } : undefined;
+    const maxAttempts =
+      policy?.retryMethods.includes(method) === true ? Math.max(1, policy.maxAttempts) : 1;
+    const host = new URL(url).host;
+
+    for (let attempt = 1; ; attempt++) {
+      const release = await this.acquireHostSlot(host, method, url, options);
+      let outcome: AttemptResult;
+      try {
+        this.acquireCircuit(host, method, url, headers, events, body, options);
+        outcome = await this.attempt(method, url, headers, events, body, options);
+      } finally {
+        release();
+      }
+      const { response, error } = outcome;
+      // Manually aborted requests say nothing about the host's health and are not retried
+      const aborted = error !== undefined && isAbortError(error);
+      this.recordCircuitResult(
+        host,
+        aborted ? undefined : response === undefined || response.status >= 500
+      );
+
+      const retryable = error
+        ? !aborted
+        : policy?.retryableStatusCodes.includes((response as Response).status) === true;
+      if (!policy || attempt >= maxAttempts || !retryable) {
+        if (error) {
+          throw toHTTPError(error, method, url, options?.timeout ?? this.defaultTimeoutMs);
+        }
+        return response as Response;
+      }
+
+      const delayMs = this.retryDelay(policy, attempt, response);
+      if (delayMs === undefined) {
+        return response as Response;
+      }
+
+      this.logger.warn(
+        `HTTP request failed (attempt ${attempt}/${maxAttempts}). Retrying in ${Math.round(delayMs)}ms...`,
+        { method, url, statusCode: response?.status, error: error?.message }
+      );
+      // Release the connection of the discarded response
+      await response?.body?.cancel().catch(() => undefined);
+      // Cut short by the request's deadline or by shutdown
+      try {
+        await sleep(delayMs, undefined, { signal: withRequestSignal() });
+      } catch (abortError) {
+        throw toHTTPError(abortError, method, url, options?.timeout ?? this.defaultTimeoutMs);
+      }
+    }
+  }
+
+  /**
+   * Wait for a slot of the host when concurrency is limited, or until the request is
+   * cancelled. The slot is held for a single attempt, not during retry backoff.
+   */
+  private async acquireHostSlot(
+    host: string,
+    method: string,
+    url: string,
+    options: HTTPRequestOptions | undefined
+  ): Promise<() => void> {
+    if (!this.concurrencyLimiter) {
+      return () => {};
+    }
+    try {
+      return await this.concurrencyLimiter.acquire(host, withRequestSignal());
+    } catch (error) {
+      throw toHTTPError(error, method, url, options?.timeout ?? this.defaultTimeoutMs);
+    }
+  }
+
+  private withCorrelationHeaders(headers: Record<string, string>): Record<string, string> {
+    const names = new Set(Object.keys(headers).map((name) => name.toLowerCase()));
+    const added = Object.entries(correlationHeaders(this.correlationHeaders)).filter(
+      ([name]) => !names.has(name.toLowerCase())
+    );
+    return added.length > 0 ? { ...headers, ...Object.fromEntries(added) } : headers;
+  }
+
+  /**
+   * Backoff before the next attempt: exponential with full jitter, or the server's
+   * `Retry-After`. Undefined when the server asks to wait longer than `maxDelayMs`.
+   */
+  private retryDelay(
+    policy: Required<HTTPRetryPolicy>,
+    attempt: number,
+    response: Response | undefined
+  ): number | undefined {
+    const retryAfter = response?.headers.get("retry-after");
+    if (policy.respectRetryAfter && retryAfter) {
+      const seconds = Number(retryAfter);
+      const delayMs = Number.isNaN(seconds) ? Date.parse(retryAfter) - getTimeMs() : seconds * 1000;
+      if (!Number.isNaN(delayMs)) {
+        return delayMs > policy.maxDelayMs ? undefined : Math.max(0, delayMs);
+      }
+    }
+
+    const backoff = policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1);
+    return Math.random() * Math.min(policy.maxDelayMs, backoff);
+  }
+
+  /**
+   * Throw `CircuitOpenError` (recording a failed api_call event) when the host's
+   * circuit is open. Once the reset timeout passed, a single trial request is allowed.
+   */
+  private acquireCircuit(
+    host: string,
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    events: Event[],
+    body: unknown,
+    options: HTTPRequestOptions | undefined
+  ): void {
+    const circuit = this.circuits.get(host);
+    if (!this.circuitBreakerPolicy || circuit?.openedAt === undefined) {
+      return;
+    }
+
+    const resetTimeoutMs = this.circuitBreakerPolicy.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+    if (!circuit.trialInFlight && getTimeMs() - circuit.openedAt >= resetTimeoutMs) {
+      circuit.trialInFlight = true;
+      return;
+    }
+
+    const error = new CircuitOpenError(host, method, url);
+    this.logger.warn("HTTP request rejected by open circuit breaker", { method, url, host });
+    events.push(
+      this.createEvent(method, url, headers, body, options, {
+        responseHeaders: {},
+        responseStatusCode: 503,
+        responseBody: error.message,
+        durationInMillis: 0,
+      })
+    );
+    throw error;
+  }
+
+  /**
+   * Update the host's circuit with the outcome of an attempt; `undefined` releases a
+   * trial request without counting it either way
+   */
+  private recordCircuitResult(host: string, failed: boolean | undefined): void {
+    if (!this.circuitBreakerPolicy) {
+      return;
+    }
+
+    const circuit = this.circuits.get(host) ?? { consecutiveFailures: 0, trialInFlight: false };
+    const wasTrial = circuit.trialInFlight;
+    circuit.trialInFlight = false;
+
+    if (failed === undefined) {
+      return;
+    }
+    if (!failed) {
+      this.circuits.delete(host);
+      return;
+    }
+
+    circuit.consecutiveFailures++;
+    const threshold = this.circuitBreakerPolicy.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    if (wasTrial || circuit.consecutiveFailures >= threshold) {
+      if (circuit.openedAt === undefined || wasTrial) {
+        this.logger.warn("Opening HTTP circuit breaker", {
+          host,
+          consecutiveFailures: circuit.consecutiveFailures,
+        });
+      }
+      circuit.openedAt = getTimeMs();
+    }
+    this.circuits.set(host, circuit);
+  }
+
+  private createEvent(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    options: HTTPRequestOptions | undefined,
+    response: Pick<
+      APICallEvent["payload"],
+      "responseHeaders" | "responseStatusCode" | "responseBody" | "durationInMillis"
+    >
+  ): APICallEvent {
     const includeHeaders = options?.includeHeaders ?? this.includeHeadersByDefault;
     const includeRequestBody = options?.includeRequestBody ?? this.includeRequestBodiesByDefault;
+    return {
+      type: "api_call",
+      payload: {
+        url,
+        requestMethod: method,
+        requestHeaders: includeHeaders ? headers : {},
+        requestBody: includeRequestBody && body ? JSON.stringify(body) : undefined,
+        ...response,
+        responseHeaders: includeHeaders ? response.responseHeaders : {},
+      },
+    };
+  }
+
+  /**
+   * Make a single attempt, recording it as an api_call event
+   */
+  private async attempt(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    events: Event[],
+    body: unknown,
+    options: HTTPRequestOptions | undefined
+  ): Promise<AttemptResult> {
+    const timeoutMs = options?.timeout ?? this.defaultTimeoutMs;
 
     this.logger.debug("Making HTTP request", { method, url, timeout: timeoutMs });
 
     const { result, durationMs, error } = await this.withTiming(async () => {
-      const abortSignal = AbortSignal.timeout(timeoutMs);
+      const abortSignal = withRequestSignal(AbortSignal.timeout(timeoutMs));
 
       const fetchOptions: RequestInit = {
         method,
@@ -84,7 +429,7 @@ export class HTTPClient {
         }
       }
 
-      return await fetch(url, fetchOptions);
+      return await (this.fetchImpl ?? fetch)(url, fetchOptions);
     });
 
     if (error) {
@@ -115,22 +460,15 @@ export class HTTPClient {
       });
 
       // Log failed API call event
-      const apiCallEvent: APICallEvent = {
-        type: "api_call",
-        payload: {
-          url,
-          requestMethod: method,
-          requestHeaders: includeHeaders ? headers : {},
-          requestBody: includeRequestBody && body ? JSON.stringify(body) : undefined,
+      events.push(
+        this.createEvent(method, url, headers, body, options, {
           responseHeaders: {},
           responseStatusCode: statusCode,
           responseBody: errorResponseBody,
           durationInMillis: durationMs,
-        },
-      };
-
-      events.push(apiCallEvent);
-      throw error;
+        })
+      );
+      return { error };
     }
 
     // Handle success case
@@ -160,28 +498,21 @@ export class HTTPClient {
     });
 
     // Log successful API call event
-    const apiCallEvent: APICallEvent = {
-      type: "api_call",
-      payload: {
-        url,
-        requestMethod: method,
-        requestHeaders: includeHeaders ? headers : {},
-        requestBody: includeRequestBody && body ? JSON.stringify(body) : undefined,
-        responseHeaders: includeHeaders ? Object.fromEntries(result.headers.entries()) : {},
+    events.push(
+      this.createEvent(method, url, headers, body, options, {
+        responseHeaders: Object.fromEntries(result.headers.entries()),
         responseStatusCode: result.status,
         responseBody,
         durationInMillis: durationMs,
-      },
-    };
-
-    events.push(apiCallEvent);
-    return result;
+      })
+    );
+    return { response: result };
   }
 
   async get(
     url: string,
     headers: Record<string, string> = {},
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     options?: HTTPRequestOptions
   ): Promise<Response> {
     return this.request("GET", url, headers, events, undefined, options);
@@ -191,7 +522,7 @@ export class HTTPClient {
     url: string,
     body: unknown,
     headers: Record<string, string> = {},
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     options?: HTTPRequestOptions
   ): Promise<Response> {
     return this.request("POST", url, headers, events, body, options);
@@ -201,7 +532,7 @@ export class HTTPClient {
     url: string,
     body: unknown,
     headers: Record<string, string> = {},
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     options?: HTTPRequestOptions
   ): Promise<Response> {
     return this.request("PUT", url, headers, events, body, options);
@@ -211,7 +542,7 @@ export class HTTPClient {
     url: string,
     body: unknown,
     headers: Record<string, string> = {},
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     options?: HTTPRequestOptions
   ): Promise<Response> {
     return this.request("PATCH", url, headers, events, body, options);
@@ -220,9 +551,33 @@ export class HTTPClient {
   async delete(
     url: string,
     headers: Record<string, string> = {},
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     options?: HTTPRequestOptions
   ): Promise<Response> {
     return this.request("DELETE", url, headers, events, undefined, options);
   }
 }
+
+/**
+ * A URL as exported to the trace backend: without its query string and fragment, which
+ * can carry tokens
+ */
+function spanURL(url: URL): string {
+  return `${url.origin}${url.pathname}`;
+}
+
+/**
+ * Raise a failed request as an `HTTPError`, keeping the `fetch` error as its cause
+ */
+function toHTTPError(error: unknown, method: string, url: string, timeoutMs: number): HTTPError {
+  if (error instanceof HTTPError) {
+    return error;
+  }
+  if (isTimeoutError(error)) {
+    return new HTTPTimeoutError(method, url, timeoutMs, { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new HTTPError(`HTTP request failed: ${method} ${url}: ${message}`, method, url, {
+    cause: error,
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Idempotent handling of requests retried by Decision Engine.
+ *
+ * Responses are cached by `metadata.requestId`, so a retried request gets the response
+ * of the original one instead of running `handle` (and its side effects) again.
+ */
+
+import type { ExternalAgentResponse } from "./protocol.js";
+import { getTimeMs } from "./utils.js";
+
+/** Header set on responses replayed from the idempotency cache */
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+/** Default time-to-live of a cached response (10 minutes) */
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 10 * 60 * 1000;
+
+/** Default maximum number of responses kept by the in-memory store */
+export const DEFAULT_MAX_IDEMPOTENT_RESPONSES = 10_000;
+
+/**
+ * Storage backend for the responses of handled requests. Keys are request IDs, prefixed
+ * by the authenticated caller when the agent authenticates requests.
+ */
+export interface IdempotencyStore {
+  /** Load the response of a request, or undefined when it is unknown or has expired */
+  get(requestId: string): Promise<ExternalAgentResponse | undefined>;
+  /** Save the response of a request */
+  set(requestId: string, response: ExternalAgentResponse): Promise<void>;
+}
+
+/**
+ * Configuration of idempotent request handling
+ */
+export interface IdempotencyOptions {
+  /** Store of handled responses (default: an `InMemoryIdempotencyStore`) */
+  store?: IdempotencyStore | undefined;
+}
+
+interface InMemoryEntry {
+  response: ExternalAgentResponse;
+  expiresAt: number;
+}
+
+/**
+ * Idempotency store kept in process memory. Responses expire `ttlMs` after they were
+ * saved, and the oldest ones are evicted beyond `maxResponses`. Retries reaching
+ * another instance are not deduplicated; use a shared store for that.
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly responses = new Map<string, InMemoryEntry>();
+
+  constructor(
+    private readonly ttlMs = DEFAULT_IDEMPOTENCY_TTL_MS,
+    private readonly maxResponses = DEFAULT_MAX_IDEMPOTENT_RESPONSES
+  ) {}
+
+  async get(requestId: string): Promise<ExternalAgentResponse | undefined> {
+    const entry = this.responses.get(requestId);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= getTimeMs()) {
+      this.responses.delete(requestId);
+      return undefined;
+    }
+    return structuredClone(entry.response);
+  }
+
+  async set(requestId: string, response: ExternalAgentResponse): Promise<void> {
+    this.responses.delete(requestId);
+    this.responses.set(requestId, {
+      response: structuredClone(response),
+      expiresAt: getTimeMs() + this.ttlMs,
+    });
+
+    for (const oldestId of this.responses.keys()) {
+      if (this.responses.size <= this.maxResponses) {
+        break;
+      }
+      this.responses.delete(oldestId);
+    }
+  }
+
+  /** Number of responses currently held, including expired ones not yet evicted */
+  get size(): number {
+    return this.responses.size;
+  }
+}
+
+/**
+ * The request ID of a raw request body, read before validation
+ */
+export function requestIdOf(body: unknown): string | undefined {
+  const metadata = (body as { metadata?: { requestId?: unknown } } | null)?.metadata;
+  return typeof metadata?.requestId === "string" ? metadata.requestId : undefined;
+}
+
+/**
+ * Key of a request's response: its request ID, scoped by the authenticated caller if any
+ */
+export function idempotencyKey(requestId: string, caller: string | undefined): string {
+  return caller === undefined ? requestId : `${caller}:${requestId}`;
+}
@@ -7,25 +7,117 @@
 // Re-export Google GenAI HttpOptions for typing vertexai.httpOptions
 export type { HttpOptions } from "@google/genai";
 // Core classes
-export { Agent, type AgentOptions, type HandleRequestOptions } from "./agent.js";
+export {
+  Agent,
+  AgentAuthenticationError,
+  type AgentOptions,
+  AgentOverloadedError,
+  AgentShuttingDownError,
+  type HandleRequestOptions,
+  type ShutdownHook,
+} from "./agent.js";
+// Record-and-replay cassettes
+export {
+  CASSETTE_MODE_ENV,
+  CASSETTE_PATH_ENV,
+  type CassetteConfig,
+  CassetteMissError,
+  type CassetteMode,
+} from "./cassette.js";
+// Concurrency limits
+export type { ConcurrencyOptions } from "./concurrency.js";
 export { Context } from "./context.js";
 // Configuration types
 export type {
   AgentResponse,
+  AnthropicProviderConfig,
   APICallInput,
   APIKeyAuth,
   AuthConfig,
   BasicAuth,
   BearerTokenAuth,
   ContinueConversationResponse,
+  CredentialOptions,
   GoogleProviderConfig,
+  HMACAuth,
+  JWTAlgorithm,
+  JWTAuth,
+  JWTClaims,
   LLMCallInput,
   LLMConfig,
   OpenAIProviderConfig,
   TransferToBlockResponse,
   VertexAIConfig,
 } from "./domain.js";
+// Errors
+export {
+  AgentError,
+  CircuitOpenError,
+  HTTPError,
+  HTTPTimeoutError,
+  LLMError,
+  LLMTimeoutError,
+  ValidationError,
+} from "./errors.js";
+// Declarative flows
+export {
+  defineFlow,
+  FlowAgent,
+  type FlowAgentOptions,
+  type FlowDefinition,
+  type FlowFinish,
+  type FlowState,
+  type FlowStep,
+  type FlowTransition,
+} from "./flow.js";
 // HTTP client options
-export type { HTTPRequestOptions } from "./http.js";
+export type { CircuitBreakerPolicy, HTTPRequestOptions, HTTPRetryPolicy } from "./http.js";
+// Idempotent request handling
+export {
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  IDEMPOTENT_REPLAY_HEADER,
+  type IdempotencyOptions,
+  type IdempotencyStore,
+  InMemoryIdempotencyStore,
+} from "./idempotency.js";
+// Custom LLM providers
+export { BaseLLMProvider, type LLMProviderSpec } from "./llm/base.js";
+// LLM tool calling
+export { defineTool, type LLMTool } from "./llm/tools.js";
+// LLM usage and cost reporting
+export type { LLMPricing, LLMUsageSummary, ModelPricing } from "./llm/usage.js";
+// Logging
+export type { LogFormat, LoggerLike } from "./logger.js";
+// Prometheus metrics
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  type MetricLabels,
+  type MetricsOptions,
+  MetricsRegistry,
+} from "./metrics.js";
 // Protocol types (for user code)
 export type { ExternalAgentResponse, Message, Metadata, Persona } from "./protocol.js";
+// Event redaction
+export {
+  DEFAULT_REDACTED_HEADERS,
+  type RedactionConfig,
+  type RedactionDetector,
+  Redactor,
+} from "./redaction.js";
+// Request scope and correlation
+export {
+  type CorrelationHeader,
+  getRequestScope,
+  type RequestScope,
+  type TraceContext,
+} from "./scope.js";
+// Conversation sessions
+export {
+  FileSessionStore,
+  InMemorySessionStore,
+  Session,
+  type SessionData,
+  type SessionStore,
+} from "./session.js";
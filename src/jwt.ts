@@ -0,0 +1,325 @@
+/**
+ * JSON Web Token verification for `jwt` authentication.
+ *
+ * Verifies HS256, RS256 and ES256 signatures with `node:crypto` against a static key
+ * or the keys of a JWKS document, and checks the `exp`, `nbf`, `iss` and `aud` claims.
+ * The algorithm a key may be used with follows from the key itself, so a token cannot
+ * have a public key used as an HMAC secret.
+ */
+
+import {
+  createHmac,
+  createPublicKey,
+  createSecretKey,
+  type JsonWebKey,
+  type KeyObject,
+  timingSafeEqual,
+  verify,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+import type { JWTAlgorithm, JWTAuth, JWTClaims } from "./domain.js";
+import { getTimeMs } from "./utils.js";
+
+const DEFAULT_ALGORITHMS: JWTAlgorithm[] = ["HS256", "RS256", "ES256"];
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+const DEFAULT_JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+// Minimum time between refetches of the JWKS document for unknown key IDs, or after a
+// failed load
+const JWKS_REFRESH_INTERVAL_MS = 30 * 1000;
+const JWKS_FETCH_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * A token was rejected (status 401), or keys could not be loaded (status 500)
+ */
+export class JWTError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 401 | 500 = 401
+  ) {
+    super(message);
+    this.name = "JWTError";
+  }
+}
+
+interface VerificationKey {
+  kid: string | undefined;
+  algorithm: JWTAlgorithm;
+  key: KeyObject;
+}
+
+interface DecodedToken {
+  header: { alg?: unknown; kid?: unknown };
+  claims: JWTClaims;
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * Verifier of tokens for one `JWTAuth` configuration, caching its keys
+ */
+export class JWTVerifier {
+  private keys: VerificationKey[] | undefined;
+  private keysLoadedAt = 0;
+  private loading: Promise<VerificationKey[]> | undefined;
+  /** Error of the last load, when it failed, and the time it failed at */
+  private loadError: unknown;
+  private loadFailedAt = 0;
+
+  constructor(private readonly config: JWTAuth) {
+    const sources = [config.key, config.jwksUri, config.jwksPath].filter(
+      (source) => source !== undefined
+    );
+    if (sources.length !== 1) {
+      throw new JWTError("JWT auth requires exactly one of key, jwksUri or jwksPath", 500);
+    }
+  }
+
+  /**
+   * Verify the token's signature and claims, returning the claims
+   */
+  async verify(token: string): Promise<JWTClaims> {
+    const decoded = decodeToken(token);
+    const { alg, kid } = decoded.header;
+    const algorithms = this.config.algorithms ?? DEFAULT_ALGORITHMS;
+    if (typeof alg !== "string" || !algorithms.includes(alg as JWTAlgorithm)) {
+      throw new JWTError("Unsupported token algorithm");
+    }
+
+    const keyId = typeof kid === "string" ? kid : undefined;
+    let candidates = this.matchingKeys(await this.loadKeys(), alg, keyId);
+    if (candidates.length === 0 && keyId !== undefined && this.config.jwksUri !== undefined) {
+      // The issuer may have rotated its keys since the document was fetched
+      candidates = this.matchingKeys(await this.loadKeys(true), alg, keyId);
+    }
+    if (candidates.length === 0) {
+      throw new JWTError("No key matches the token");
+    }
+    if (!candidates.some((key) => verifySignature(decoded, key))) {
+      throw new JWTError("Invalid token signature");
+    }
+
+    this.checkClaims(decoded.claims);
+    return decoded.claims;
+  }
+
+  private matchingKeys(
+    keys: VerificationKey[],
+    algorithm: string,
+    keyId: string | undefined
+  ): VerificationKey[] {
+    return keys.filter(
+      (key) => key.algorithm === algorithm && (keyId === undefined || key.kid === keyId)
+    );
+  }
+
+  private checkClaims(claims: JWTClaims): void {
+    const now = getTimeMs();
+    const skewMs = (this.config.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS) * 1000;
+
+    if (typeof claims.exp !== "number") {
+      throw new JWTError("Token has no expiration time");
+    }
+    if (now - skewMs >= claims.exp * 1000) {
+      throw new JWTError("Token has expired");
+    }
+    if (
+      claims.nbf !== undefined &&
+      (typeof claims.nbf !== "number" || now + skewMs < claims.nbf * 1000)
+    ) {
+      throw new JWTError("Token is not yet valid");
+    }
+
+    const issuers = toList(this.config.issuer);
+    if (issuers && (typeof claims.iss !== "string" || !issuers.includes(claims.iss))) {
+      throw new JWTError("Invalid token issuer");
+    }
+    const audiences = toList(this.config.audience);
+    const tokenAudiences = toList(claims.aud) ?? [];
+    if (audiences && !tokenAudiences.some((audience) => audiences.includes(audience))) {
+      throw new JWTError("Invalid token audience");
+    }
+  }
+
+  /**
+   * Keys of the configuration. A JWKS document is loaded once and reused until its
+   * cache expires, or refetched on `refresh` at most every 30 seconds. A failed load is
+   * not retried for 30 seconds either.
+   */
+  private async loadKeys(refresh = false): Promise<VerificationKey[]> {
+    const { key, jwksUri, jwksPath } = this.config;
+    if (key !== undefined) {
+      this.keys ??= [staticKey(key)];
+      return this.keys;
+    }
+
+    const now = getTimeMs();
+    const age = now - this.keysLoadedAt;
+    const ttlMs =
+      jwksUri === undefined ? Infinity : (this.config.jwksCacheTtlMs ?? DEFAULT_JWKS_CACHE_TTL_MS);
+    const stale = age >= ttlMs || (refresh && age >= JWKS_REFRESH_INTERVAL_MS);
+    if (this.keys && !stale) {
+      return this.keys;
+    }
+    if (this.loadError !== undefined && now - this.loadFailedAt < JWKS_REFRESH_INTERVAL_MS) {
+      return this.keysDespite(this.loadError);
+    }
+
+    this.loading ??= (async () => {
+      try {
+        const document =
+          jwksUri !== undefined ? await fetchJWKS(jwksUri) : await readJWKS(jwksPath as string);
+        this.keys = parseJWKS(document);
+        this.keysLoadedAt = getTimeMs();
+        this.loadError = undefined;
+        return this.keys;
+      } catch (error) {
+        this.loadError = error;
+        this.loadFailedAt = getTimeMs();
+        throw error;
+      } finally {
+        this.loading = undefined;
+      }
+    })();
+
+    try {
+      return await this.loading;
+    } catch (error) {
+      return this.keysDespite(error);
+    }
+  }
+
+  /**
+   * The previous keys, kept in use while the JWKS endpoint is unavailable, or the load
+   * error when there are none
+   */
+  private keysDespite(error: unknown): VerificationKey[] {
+    if (this.keys) {
+      return this.keys;
+    }
+    throw new JWTError(
+      `Failed to load JWKS: ${error instanceof Error ? error.message : String(error)}`,
+      500
+    );
+  }
+}
+
+function decodeToken(token: string): DecodedToken {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new JWTError("Malformed token");
+  }
+  const [header, payload, signature] = parts as [string, string, string];
+  try {
+    const decodedHeader = parseSegment(header);
+    const claims = parseSegment(payload);
+    return {
+      header: decodedHeader,
+      claims: claims as JWTClaims,
+      signingInput: `${header}.${payload}`,
+      signature: Buffer.from(signature, "base64url"),
+    };
+  } catch {
+    throw new JWTError("Malformed token");
+  }
+}
+
+function parseSegment(segment: string): Record<string, unknown> {
+  const value: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Token segment is not an object");
+  }
+  return value as Record<string, unknown>;
+}
+
+function verifySignature(token: DecodedToken, { algorithm, key }: VerificationKey): boolean {
+  const data = Buffer.from(token.signingInput);
+  switch (algorithm) {
+    case "HS256": {
+      const expected = createHmac("sha256", key).update(data).digest();
+      return (
+        expected.length === token.signature.length && timingSafeEqual(expected, token.signature)
+      );
+    }
+    case "RS256":
+      return verify("sha256", data, key, token.signature);
+    case "ES256":
+      return verify("sha256", data, { key, dsaEncoding: "ieee-p1363" }, token.signature);
+  }
+}
+
+/**
+ * The algorithm a key is used with, or undefined for keys of other types
+ */
+function algorithmOf(key: KeyObject): JWTAlgorithm | undefined {
+  if (key.type === "secret") {
+    return "HS256";
+  }
+  if (key.asymmetricKeyType === "rsa") {
+    return "RS256";
+  }
+  if (key.asymmetricKeyType === "ec" && key.asymmetricKeyDetails?.namedCurve === "prime256v1") {
+    return "ES256";
+  }
+  return undefined;
+}
+
+function staticKey(key: string): VerificationKey {
+  const keyObject = key.includes("-----BEGIN")
+    ? createPublicKey(key)
+    : createSecretKey(Buffer.from(key, "utf8"));
+  const algorithm = algorithmOf(keyObject);
+  if (!algorithm) {
+    throw new JWTError("Unsupported JWT verification key", 500);
+  }
+  return { kid: undefined, algorithm, key: keyObject };
+}
+
+/**
+ * Verification keys of a JWKS document. Keys of unsupported types, or whose `alg` or
+ * `use` rule out signature verification with a supported algorithm, are skipped.
+ */
+function parseJWKS(document: unknown): VerificationKey[] {
+  const keys = (document as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error("Document has no keys");
+  }
+
+  return keys.flatMap((jwk: JsonWebKey & { kid?: unknown; alg?: unknown; use?: unknown }) => {
+    if (jwk.use !== undefined && jwk.use !== "sig") {
+      return [];
+    }
+    try {
+      const key =
+        jwk.kty === "oct" && typeof jwk.k === "string"
+          ? createSecretKey(Buffer.from(jwk.k, "base64url"))
+          : createPublicKey({ key: jwk, format: "jwk" });
+      const algorithm = algorithmOf(key);
+      if (!algorithm || (jwk.alg !== undefined && jwk.alg !== algorithm)) {
+        return [];
+      }
+      return [{ kid: typeof jwk.kid === "string" ? jwk.kid : undefined, algorithm, key }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+async function fetchJWKS(uri: string): Promise<unknown> {
+  const response = await fetch(uri, {
+    headers: { Accept: "application/json" },
+    // A hung endpoint would stall every request waiting for the shared load
+    signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`GET ${uri} returned ${response.status}`);
+  }
+  return response.json();
+}
+
+async function readJWKS(path: string): Promise<unknown> {
+  return JSON.parse(await readFile(path, "utf8"));
+}
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,511 @@
+/**
+ * Anthropic Claude provider implementation
+ */
+
+import Anthropic, { APIConnectionError, APIError } from "@anthropic-ai/sdk";
+import type { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { AnthropicProviderConfig } from "../domain.js";
+import { ValidationError } from "../errors.js";
+import type { Event, Message, Persona } from "../protocol.js";
+import { currentEvents } from "../scope.js";
+import { BaseLLMProvider, prepareMessagesForLLM } from "./base.js";
+import {
+  DEFAULT_MAX_TOOL_ITERATIONS,
+  type LLMTool,
+  type LLMToolCall,
+  toolParametersJsonSchema,
+} from "./tools.js";
+import type { LLMPricing, LLMUsage } from "./usage.js";
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** Name of the forced tool used to obtain structured output */
+const STRUCTURED_OUTPUT_TOOL = "response";
+
+type AnthropicParameters = Partial<
+  Omit<Anthropic.Messages.MessageCreateParamsNonStreaming, "model" | "messages" | "system">
+>;
+
+export class AnthropicProvider extends BaseLLMProvider {
+  private anthropic?: Anthropic;
+  private readonly maxTokens: number;
+  private readonly baseURL: string | undefined;
+
+  constructor(
+    config: AnthropicProviderConfig,
+    includePersonaDefault = true,
+    includeContextDefault = true,
+    includeRandomNonceDefault = false,
+    llmTimeoutMs?: number,
+    llmTimeoutRetries = 3,
+    maxToolIterations = DEFAULT_MAX_TOOL_ITERATIONS,
+    pricing?: LLMPricing
+  ) {
+    super(
+      config,
+      "AnthropicProvider",
+      includePersonaDefault,
+      includeContextDefault,
+      includeRandomNonceDefault,
+      llmTimeoutMs,
+      llmTimeoutRetries,
+      maxToolIterations,
+      pricing
+    );
+    this.maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+    this.baseURL = config.baseURL;
+  }
+
+  private getAnthropic() {
+    if (!this.anthropic) {
+      try {
+        this.anthropic = new Anthropic({
+          apiKey: this.apiKey,
+          maxRetries: 3,
+          ...(this.baseURL && { baseURL: this.baseURL }),
+        });
+      } catch (_error) {
+        throw new Error("Failed to initialize Anthropic provider. Please check your API key.");
+      }
+    }
+    return this.anthropic;
+  }
+
+  protected override isRetryableError(error: unknown): boolean {
+    // Reached only after the SDK's own retries: rate limiting, overload, server
+    // errors and connection failures are worth trying on another provider
+    if (error instanceof APIConnectionError) {
+      return true;
+    }
+    if (error instanceof APIError && error.status !== undefined) {
+      return error.status === 429 || error.status >= 500;
+    }
+    return false;
+  }
+
+  async generateContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: AnthropicParameters
+  ): Promise<string> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const anthropicMessages = this.prepareMessages(llmMessages);
+
+    return this.withTiming(
+      async (recordUsage) => {
+        const response = await this.createMessage(
+          anthropicMessages,
+          systemInstructionText,
+          parameters
+        );
+        recordUsage(this.extractUsage(response.usage));
+        return this.extractText(response);
+      },
+      llmMessages,
+      systemInstructionText,
+      events,
+      undefined,
+      parameters
+    );
+  }
+
+  async generateStructuredContent<T>(
+    messages: Message[],
+    schema: z.ZodSchema<T>,
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Omit<AnthropicParameters, "tools" | "tool_choice">
+  ): Promise<T> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const anthropicMessages = this.prepareMessages(llmMessages);
+    const responseSchema = zodToJsonSchema(schema);
+
+    return this.withTiming(
+      async (recordUsage) => {
+        const response = await this.createMessage(
+          anthropicMessages,
+          systemInstructionText,
+          this.structuredOutputParameters(responseSchema, parameters)
+        );
+        recordUsage(this.extractUsage(response.usage));
+        return this.parseStructuredOutput(response, schema);
+      },
+      llmMessages,
+      systemInstructionText,
+      events,
+      responseSchema,
+      parameters
+    );
+  }
+
+  async generateContentWithCandidates(
+    messages: Message[],
+    candidateCount: number,
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: AnthropicParameters
+  ): Promise<string[]> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const anthropicMessages = this.prepareMessages(llmMessages);
+
+    return this.withTiming(
+      async (recordUsage) => {
+        // The Messages API has no `n` parameter, so candidates are requested in parallel
+        const responses = await Promise.all(
+          Array.from({ length: candidateCount }, () =>
+            this.createMessage(anthropicMessages, systemInstructionText, parameters)
+          )
+        );
+        for (const response of responses) {
+          recordUsage(this.extractUsage(response.usage));
+        }
+
+        return responses.map((response) => this.extractText(response));
+      },
+      llmMessages,
+      systemInstructionText,
+      events,
+      undefined,
+      { ...parameters, n: candidateCount }
+    );
+  }
+
+  async generateStructuredContentWithCandidates<T>(
+    messages: Message[],
+    candidateCount: number,
+    schema: z.ZodSchema<T>,
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Omit<AnthropicParameters, "tools" | "tool_choice">
+  ): Promise<T[]> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const anthropicMessages = this.prepareMessages(llmMessages);
+    const responseSchema = zodToJsonSchema(schema);
+
+    return this.withTiming(
+      async (recordUsage) => {
+        const responses = await Promise.all(
+          Array.from({ length: candidateCount }, () =>
+            this.createMessage(
+              anthropicMessages,
+              systemInstructionText,
+              this.structuredOutputParameters(responseSchema, parameters)
+            )
+          )
+        );
+
+        const results: T[] = [];
+        for (const response of responses) {
+          recordUsage(this.extractUsage(response.usage));
+          try {
+            results.push(this.parseStructuredOutput(response, schema));
+          } catch (error) {
+            // Skip invalid candidates
+            this.logger.warn(`Failed to parse candidate: ${error}`);
+          }
+        }
+
+        if (results.length === 0) {
+          throw new Error("No valid parsed content received from Anthropic");
+        }
+
+        return results;
+      },
+      llmMessages,
+      systemInstructionText,
+      events,
+      responseSchema,
+      { ...parameters, n: candidateCount }
+    );
+  }
+
+  async generateContentWithTools(
+    messages: Message[],
+    tools: LLMTool[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Omit<AnthropicParameters, "tools">
+  ): Promise<string> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const conversation = this.prepareMessages(llmMessages);
+    const anthropicTools: Anthropic.Messages.Tool[] = tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: toolParametersJsonSchema(tool) as Anthropic.Messages.Tool.InputSchema,
+    }));
+
+    for (let iteration = 0; iteration < this.maxToolIterations; iteration++) {
+      const step = await this.withTiming(
+        async (recordUsage): Promise<string | LLMToolCall[]> => {
+          const response = await this.createMessage(conversation, systemInstructionText, {
+            ...parameters,
+            tools: anthropicTools,
+          });
+          recordUsage(this.extractUsage(response.usage));
+
+          const toolUses = response.content.filter((block) => block.type === "tool_use");
+          if (toolUses.length > 0) {
+            conversation.push({ role: "assistant", content: response.content });
+            return toolUses.map((block) => ({
+              id: block.id,
+              name: block.name,
+              arguments: JSON.stringify(block.input ?? {}),
+            }));
+          }
+
+          return this.extractText(response);
+        },
+        llmMessages,
+        systemInstructionText,
+        events,
+        undefined,
+        { ...parameters, tools: tools.map((tool) => tool.name) }
+      );
+
+      if (typeof step === "string") {
+        return step;
+      }
+
+      const toolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
+      for (const call of step) {
+        const output = await this.executeToolCall(tools, call, events);
+        toolResults.push({ type: "tool_result", tool_use_id: call.id, content: output });
+      }
+      conversation.push({ role: "user", content: toolResults });
+    }
+
+    throw this.toolIterationsExceededError();
+  }
+
+  async *streamContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Omit<AnthropicParameters, "stream">
+  ): AsyncIterable<string> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const anthropicMessages = this.prepareMessages(llmMessages);
+
+    yield* this.withStreamTiming(
+      (signal, recordUsage) =>
+        this.streamDeltas(
+          anthropicMessages,
+          systemInstructionText,
+          signal,
+          recordUsage,
+          parameters
+        ),
+      llmMessages,
+      systemInstructionText,
+      events,
+      parameters
+    );
+  }
+
+  private async *streamDeltas(
+    messages: Anthropic.Messages.MessageParam[],
+    systemInstruction: string,
+    signal: AbortSignal,
+    recordUsage: (usage: LLMUsage) => void,
+    parameters?: Omit<AnthropicParameters, "stream">
+  ): AsyncGenerator<string> {
+    const stream = await this.getAnthropic().messages.create(
+      {
+        model: this.model,
+        max_tokens: this.maxTokens,
+        messages,
+        ...(systemInstruction && { system: systemInstruction }),
+        ...parameters,
+        stream: true,
+      },
+      { signal }
+    );
+
+    let usage: Anthropic.Messages.Usage | undefined;
+    let produced = false;
+    for await (const event of stream) {
+      if (event.type === "message_start") {
+        usage = event.message.usage;
+      } else if (event.type === "message_delta" && usage) {
+        // Delta usage is cumulative
+        usage = { ...usage, output_tokens: event.usage.output_tokens };
+      } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        produced = true;
+        yield event.delta.text;
+      }
+    }
+
+    if (usage) {
+      recordUsage(this.extractUsage(usage));
+    }
+    if (!produced) {
+      throw new Error("No content received from Anthropic");
+    }
+  }
+
+  private async createMessage(
+    messages: Anthropic.Messages.MessageParam[],
+    systemInstruction: string,
+    parameters?: AnthropicParameters
+  ): Promise<Anthropic.Messages.Message> {
+    const anthropic = this.getAnthropic();
+    return this.withTimeoutRetries((signal) =>
+      anthropic.messages.create(
+        {
+          model: this.model,
+          max_tokens: this.maxTokens,
+          messages,
+          ...(systemInstruction && { system: systemInstruction }),
+          ...parameters,
+        },
+        signal ? { signal } : undefined
+      )
+    );
+  }
+
+  private structuredOutputParameters(
+    responseSchema: unknown,
+    parameters?: AnthropicParameters
+  ): AnthropicParameters {
+    const { $schema: _ignored, ...inputSchema } = responseSchema as Record<string, unknown>;
+    return {
+      ...parameters,
+      tools: [
+        {
+          name: STRUCTURED_OUTPUT_TOOL,
+          description: "Respond with output matching this schema",
+          input_schema: inputSchema as Anthropic.Messages.Tool.InputSchema,
+        },
+      ],
+      tool_choice: { type: "tool", name: STRUCTURED_OUTPUT_TOOL },
+    };
+  }
+
+  private parseStructuredOutput<T>(
+    response: Anthropic.Messages.Message,
+    schema: z.ZodSchema<T>
+  ): T {
+    const toolUse = response.content.find(
+      (block) => block.type === "tool_use" && block.name === STRUCTURED_OUTPUT_TOOL
+    );
+    if (!toolUse || toolUse.type !== "tool_use") {
+      throw new Error("No structured content received from Anthropic");
+    }
+
+    try {
+      return schema.parse(toolUse.input);
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to parse structured response: ${error}\nResponse: ${JSON.stringify(toolUse.input)}`,
+        { cause: error }
+      );
+    }
+  }
+
+  private extractUsage(usage: Anthropic.Messages.Usage): LLMUsage {
+    // Anthropic reports cache reads and writes separately from uncached input tokens
+    const cacheReadTokens = usage.cache_read_input_tokens ?? 0;
+    return {
+      inputTokens: usage.input_tokens + cacheReadTokens + (usage.cache_creation_input_tokens ?? 0),
+      outputTokens: usage.output_tokens,
+      cachedTokens: cacheReadTokens,
+    };
+  }
+
+  private extractText(response: Anthropic.Messages.Message): string {
+    const text = response.content
+      .filter((block) => block.type === "text")
+      .map((block) => block.text)
+      .join("");
+
+    if (!text) {
+      if (response.stop_reason === "refusal") {
+        throw new Error("Anthropic refused to respond");
+      }
+      throw new Error(`No content received from Anthropic. Response: ${JSON.stringify(response)}`);
+    }
+
+    return text;
+  }
+
+  private prepareMessages(messages: Message[]): Anthropic.Messages.MessageParam[] {
+    return messages.map((message) => ({
+      role: message.author === "User" ? "user" : "assistant",
+      content: message.content,
+    }));
+  }
+}
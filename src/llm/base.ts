@@ -3,12 +3,26 @@
  */
 
 import { randomUUID } from "node:crypto";
+import { type Attributes, SpanKind } from "@opentelemetry/api";
 import type winston from "winston";
 import type { z } from "zod";
-import type { GoogleProviderConfig, LLMConfig, OpenAIProviderConfig } from "../domain.js";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { type Cassette, recordedError, replayedError } from "../cassette.js";
+import type { SemaphorePool } from "../concurrency.js";
+import type { LLMConfig } from "../domain.js";
+import { AgentError, LLMError, LLMTimeoutError } from "../errors.js";
 import { getLogger } from "../logger.js";
-import type { Event, LLMCallEvent, Message, Persona } from "../protocol.js";
+import type { Event, LLMCallEvent, Message, Persona, ToolCallEvent } from "../protocol.js";
+import { currentEvents, getRequestScope, withRequestSignal } from "../scope.js";
+import { recordSpanError, startSpan, withSpan } from "../telemetry.js";
 import { getTimeMs } from "../utils.js";
+import {
+  DEFAULT_MAX_TOOL_ITERATIONS,
+  type LLMTool,
+  type LLMToolCall,
+  toolParametersJsonSchema,
+} from "./tools.js";
+import { addUsage, estimateCost, type LLMPricing, type LLMUsage } from "./usage.js";
 
 /**
  * Prefixes message content with its delivery state so the LLM is aware the
@@ -47,16 +61,22 @@ export abstract class BaseLLMProvider {
   protected readonly includeRandomNonceDefault: boolean;
   protected readonly llmTimeoutMs: number | undefined;
   protected readonly llmTimeoutRetries: number;
+  protected readonly maxToolIterations: number;
+  protected readonly pricing: LLMPricing | undefined;
   protected readonly logger: winston.Logger;
+  private readonly providerName: string;
+  private concurrencyLimiter: SemaphorePool | undefined;
 
   constructor(
-    config: OpenAIProviderConfig | GoogleProviderConfig,
+    config: Pick<LLMConfig, "model" | "apiKey">,
     providerName: string,
     includePersonaDefault = true,
     includeContextDefault = true,
     includeRandomNonceDefault = false,
     llmTimeoutMs?: number,
-    llmTimeoutRetries = 3
+    llmTimeoutRetries = 3,
+    maxToolIterations = DEFAULT_MAX_TOOL_ITERATIONS,
+    pricing?: LLMPricing
   ) {
     this.model = config.model;
     this.apiKey = config.apiKey;
@@ -65,9 +85,76 @@ export abstract class BaseLLMProvider {
     this.includeRandomNonceDefault = includeRandomNonceDefault;
     this.llmTimeoutMs = llmTimeoutMs;
     this.llmTimeoutRetries = llmTimeoutRetries;
+    this.maxToolIterations = maxToolIterations;
+    this.pricing = pricing;
+    this.providerName = providerName;
     this.logger = getLogger(`zowie_agent.${providerName}`);
   }
 
+  /**
+   * Model name used for requests and recorded in `llm_call` events
+   */
+  get modelName(): string {
+    return this.model;
+  }
+
+  /**
+   * Provider recorded as `gen_ai.provider.name` on spans
+   */
+  protected get telemetryProviderName(): string {
+    return this.providerName.replace("Provider", "").toLowerCase();
+  }
+
+  /**
+   * Hold a slot of `limiter`, keyed by provider and model, during each call. Set by `LLM`
+   * from the agent's `maxConcurrentLLMCalls` option.
+   */
+  limitConcurrency(limiter: SemaphorePool): void {
+    this.concurrencyLimiter = limiter;
+  }
+
+  /**
+   * Wait for a call slot when concurrency is limited, or until the request is cancelled
+   */
+  private async acquireCallSlot(): Promise<() => void> {
+    if (!this.concurrencyLimiter) {
+      return () => {};
+    }
+    return this.concurrencyLimiter.acquire(
+      `${this.telemetryProviderName}:${this.model}`,
+      withRequestSignal()
+    );
+  }
+
+  private spanAttributes(structured: boolean): Attributes {
+    return {
+      "gen_ai.operation.name": "chat",
+      "gen_ai.provider.name": this.telemetryProviderName,
+      "gen_ai.request.model": this.model,
+      "gen_ai.output.type": structured ? "json" : "text",
+    };
+  }
+
+  /**
+   * Whether a failed call may be retried on the next provider of a fallback chain:
+   * timeouts (after `llmTimeoutRetries`) and retryable provider errors (after the
+   * provider's own retries). Calls cancelled along with their request are not retried.
+   */
+  isFallbackEligible(error: unknown): boolean {
+    if (getRequestScope()?.signal.aborted) {
+      return false;
+    }
+    return error instanceof LLMTimeoutError || this.isRetryableError(error);
+  }
+
+  /**
+   * Whether the error is a transient provider error (rate limiting, server errors,
+   * connection failures)
+   */
+  protected isRetryableError(_error: unknown): boolean {
+    return false;
+  }
+
   /**
    * Generate content using the LLM
    */
@@ -128,6 +215,37 @@ export abstract class BaseLLMProvider {
     parameters?: Record<string, unknown>
   ): Promise<T[]>;
 
+  /**
+   * Generate content letting the model call the given tools. Runs the
+   * model/tool loop until the model returns a final text response or
+   * `maxToolIterations` model calls have been made.
+   */
+  abstract generateContentWithTools(
+    messages: Message[],
+    tools: LLMTool[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events?: Event[],
+    parameters?: Record<string, unknown>
+  ): Promise<string>;
+
+  /**
+   * Stream text deltas from the LLM as they are generated
+   */
+  abstract streamContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events?: Event[],
+    parameters?: Record<string, unknown>
+  ): AsyncIterable<string>;
+
   /**
    * Build system instruction combining persona, instructions, and context
    */
@@ -197,7 +315,8 @@ export abstract class BaseLLMProvider {
     response: string,
     durationMs: number,
     responseSchema?: unknown,
-    parameters?: Record<string, unknown>
+    parameters?: Record<string, unknown>,
+    usage?: LLMUsage
   ): LLMCallEvent {
     const promptData: Record<string, unknown> = {
       messages,
@@ -214,7 +333,7 @@ export abstract class BaseLLMProvider {
       promptData["parameters"] = parameters;
     }
 
-    return {
+    const event: LLMCallEvent = {
       type: "llm_call",
       payload: {
         prompt: JSON.stringify(promptData, null, 2),
@@ -223,41 +342,124 @@ export abstract class BaseLLMProvider {
         durationInMillis: durationMs,
       },
     };
+
+    if (usage) {
+      for (const key of [
+        "inputTokens",
+        "outputTokens",
+        "cachedTokens",
+        "reasoningTokens",
+      ] as const) {
+        if (usage[key] !== undefined) {
+          event.payload[key] = usage[key];
+        }
+      }
+
+      const pricing = this.pricing?.[this.model];
+      const estimatedCost = pricing && estimateCost(usage, pricing);
+      if (estimatedCost !== undefined) {
+        event.payload.estimatedCost = estimatedCost;
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Execute a tool call requested by the model and record it as a `tool_call` event.
+   * Unknown tools, invalid arguments and handler errors are reported back to the
+   * model as the tool output so it can recover instead of failing the whole run.
+   */
+  protected async executeToolCall(
+    tools: LLMTool[],
+    call: LLMToolCall,
+    events: Event[]
+  ): Promise<string> {
+    const attributes = {
+      "gen_ai.operation.name": "execute_tool",
+      "gen_ai.tool.name": call.name,
+      "gen_ai.tool.call.id": call.id,
+    };
+    return withSpan(`execute_tool ${call.name}`, SpanKind.INTERNAL, attributes, async (span) => {
+      const startTime = getTimeMs();
+      let output: string;
+
+      try {
+        const tool = tools.find((t) => t.name === call.name);
+        if (!tool) {
+          throw new Error(`Unknown tool: ${call.name}`);
+        }
+
+        const input = tool.inputSchema.parse(call.arguments ? JSON.parse(call.arguments) : {});
+        this.logger.debug(`Calling tool ${call.name}`);
+        const result = await tool.handler(input);
+        output = typeof result === "string" ? result : JSON.stringify(result ?? null);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Tool ${call.name} failed: ${errorMessage}`);
+        output = `Error: ${errorMessage}`;
+        recordSpanError(span, error);
+      }
+
+      const event: ToolCallEvent = {
+        type: "tool_call",
+        payload: {
+          toolName: call.name,
+          input: call.arguments,
+          output,
+          durationInMillis: getTimeMs() - startTime,
+        },
+      };
+      events.push(event);
+
+      return output;
+    });
+  }
+
+  /**
+   * Error thrown when the model keeps requesting tools past the iteration cap
+   */
+  protected toolIterationsExceededError(): Error {
+    return new Error(
+      `Tool calling did not produce a final response within ${this.maxToolIterations} iterations`
+    );
   }
 
   /**
    * Run an operation with a per-attempt timeout, retrying on timeout up to
    * `llmTimeoutRetries` times. When no timeout is configured, the operation runs
-   * once with no abort signal (unchanged behavior).
+   * once. The signal also aborts when the current request is cancelled.
    */
   protected async withTimeoutRetries<T>(
     operation: (signal: AbortSignal | undefined) => Promise<T>
   ): Promise<T> {
     if (this.llmTimeoutMs === undefined) {
-      return operation(undefined);
+      return operation(withRequestSignal());
     }
 
     const maxAttempts = this.llmTimeoutRetries + 1;
     let lastError: unknown;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const signal = AbortSignal.timeout(this.llmTimeoutMs);
+      const timeoutSignal = AbortSignal.timeout(this.llmTimeoutMs);
+      const signal = withRequestSignal(timeoutSignal);
       try {
         return await operation(signal);
       } catch (error) {
         lastError = error;
 
-        // signal.aborted is true ONLY when our timeout fired. This is SDK-agnostic
+        // timeoutSignal.aborted is true ONLY when our timeout fired. This is SDK-agnostic
         // detection, robust to however OpenAI/genai wrap the underlying abort error.
-        if (signal.aborted) {
+        if (timeoutSignal.aborted && !getRequestScope()?.signal.aborted) {
           if (attempt < maxAttempts - 1) {
             this.logger.warn(
               `${this.constructor.name.replace("Provider", "")} LLM request timed out after ${this.llmTimeoutMs}ms (attempt ${attempt + 1}/${maxAttempts}). Retrying...`
             );
             continue;
           }
-          throw new Error(
-            `LLM request timed out after ${this.llmTimeoutMs}ms (${this.llmTimeoutRetries} retries exhausted)`
+          throw new LLMTimeoutError(
+            `LLM request timed out after ${this.llmTimeoutMs}ms (${this.llmTimeoutRetries} retries exhausted)`,
+            this.model
           );
         }
 
@@ -270,109 +472,289 @@ export abstract class BaseLLMProvider {
   }
 
   /**
-   * Measure execution time and create event
+   * Measure execution time and create event. The operation reports the token
+   * usage of each provider response through `recordUsage`; usage of multiple
+   * responses (e.g. parallel candidates) is summed into the single event.
    */
   protected async withTiming<T>(
-    operation: () => Promise<T>,
+    operation: (recordUsage: (usage: LLMUsage) => void) => Promise<T>,
     messages: Message[],
     systemInstruction: string,
     events: Event[],
     responseSchema?: unknown,
     parameters?: Record<string, unknown>
   ): Promise<T> {
-    this.logger.debug(
-      `Making ${this.constructor.name.replace("Provider", "")} LLM request with model ${this.model}`
+    return withSpan(
+      `chat ${this.model}`,
+      SpanKind.CLIENT,
+      this.spanAttributes(responseSchema !== undefined),
+      async (span) => {
+        this.logger.debug(
+          `Making ${this.constructor.name.replace("Provider", "")} LLM request with model ${this.model}`
+        );
+
+        let usage: LLMUsage | undefined;
+        const recordUsage = (responseUsage: LLMUsage) => {
+          usage = addUsage(usage, responseUsage);
+        };
+
+        // Time spent waiting for a slot is not part of the call's duration
+        const release = await this.acquireCallSlot();
+        const startTime = getTimeMs();
+        try {
+          const result = await operation(recordUsage);
+          const endTime = getTimeMs();
+          const duration = endTime - startTime;
+
+          this.logger.debug(
+            `${this.constructor.name.replace("Provider", "")} LLM request completed in ${duration}ms with model ${this.model}`
+          );
+
+          const responseText = typeof result === "string" ? result : JSON.stringify(result);
+          span.setAttributes(usageSpanAttributes(usage));
+          events.push(
+            this.createLLMCallEvent(
+              messages,
+              systemInstruction,
+              responseText,
+              duration,
+              responseSchema,
+              parameters,
+              usage
+            )
+          );
+
+          return result;
+        } catch (error) {
+          const endTime = getTimeMs();
+          const duration = endTime - startTime;
+          const errorMessage = error instanceof Error ? error.message : String(error);
+
+          this.logger.error(
+            `${this.constructor.name.replace("Provider", "")} LLM request failed after ${duration}ms: ${errorMessage}`
+          );
+
+          span.setAttributes(usageSpanAttributes(usage));
+          events.push(
+            this.createLLMCallEvent(
+              messages,
+              systemInstruction,
+              `Error: ${errorMessage}`,
+              duration,
+              responseSchema,
+              parameters,
+              usage
+            )
+          );
+          throw error;
+        } finally {
+          release();
+        }
+      }
     );
+  }
+
+  /**
+   * Relay text deltas from a provider stream, applying `llmTimeoutMs` as an idle
+   * timeout between chunks. A stream that times out before producing any text is
+   * reopened up to `llmTimeoutRetries` times. One `llm_call` event with the full
+   * text is recorded when the stream ends, fails or is abandoned by the consumer.
+   */
+  protected async *withStreamTiming(
+    openStream: (
+      signal: AbortSignal,
+      recordUsage: (usage: LLMUsage) => void
+    ) => AsyncIterable<string>,
+    messages: Message[],
+    systemInstruction: string,
+    events: Event[],
+    parameters?: Record<string, unknown>
+  ): AsyncGenerator<string, void, undefined> {
+    const providerLabel = this.constructor.name.replace("Provider", "");
+    const release = await this.acquireCallSlot();
+    this.logger.debug(`Making ${providerLabel} LLM streaming request with model ${this.model}`);
+    const span = startSpan(`chat ${this.model}`, SpanKind.CLIENT, this.spanAttributes(false));
+
+    let usage: LLMUsage | undefined;
+    const recordUsage = (responseUsage: LLMUsage) => {
+      usage = addUsage(usage, responseUsage);
+    };
 
     const startTime = getTimeMs();
-    try {
-      const result = await operation();
-      const endTime = getTimeMs();
-      const duration = endTime - startTime;
+    let text = "";
+    let failure: unknown;
 
-      this.logger.debug(
-        `${this.constructor.name.replace("Provider", "")} LLM request completed in ${duration}ms with model ${this.model}`
-      );
+    try {
+      for (let attempt = 0; ; attempt++) {
+        const controller = new AbortController();
+        const iterator = openStream(withRequestSignal(controller.signal), recordUsage)[
+          Symbol.asyncIterator
+        ]();
+        try {
+          while (true) {
+            const result = await this.nextWithIdleTimeout(iterator, controller);
+            if (result.done) {
+              return;
+            }
+            text += result.value;
+            yield result.value;
+          }
+        } catch (error) {
+          if (error instanceof LLMTimeoutError && !text && attempt < this.llmTimeoutRetries) {
+            this.logger.warn(
+              `${providerLabel} LLM stream timed out after ${this.llmTimeoutMs}ms (attempt ${attempt + 1}/${this.llmTimeoutRetries + 1}). Retrying...`
+            );
+            continue;
+          }
+          throw error;
+        } finally {
+          // Cancels the underlying request when the stream did not run to completion
+          controller.abort();
+        }
+      }
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      const duration = getTimeMs() - startTime;
+      let response = text;
+      if (failure !== undefined) {
+        const errorMessage = failure instanceof Error ? failure.message : String(failure);
+        this.logger.error(
+          `${providerLabel} LLM stream failed after ${duration}ms: ${errorMessage}`
+        );
+        response = `Error: ${errorMessage}`;
+        recordSpanError(span, failure);
+      } else {
+        this.logger.debug(
+          `${providerLabel} LLM stream completed in ${duration}ms with model ${this.model}`
+        );
+      }
 
-      const responseText = typeof result === "string" ? result : JSON.stringify(result);
       events.push(
         this.createLLMCallEvent(
           messages,
           systemInstruction,
-          responseText,
+          response,
           duration,
-          responseSchema,
-          parameters
+          undefined,
+          parameters,
+          usage
         )
       );
+      span.setAttributes(usageSpanAttributes(usage));
+      span.end();
+      release();
+    }
+  }
 
-      return result;
-    } catch (error) {
-      const endTime = getTimeMs();
-      const duration = endTime - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
+  /**
+   * Await the next stream chunk, aborting the request when none arrives within `llmTimeoutMs`
+   */
+  private async nextWithIdleTimeout<T>(
+    iterator: AsyncIterator<T>,
+    controller: AbortController
+  ): Promise<IteratorResult<T>> {
+    if (this.llmTimeoutMs === undefined) {
+      return iterator.next();
+    }
 
-      this.logger.error(
-        `${this.constructor.name.replace("Provider", "")} LLM request failed after ${duration}ms: ${errorMessage}`
-      );
+    const timeoutMs = this.llmTimeoutMs;
+    const next = iterator.next();
+    // The pending chunk rejects once the request is aborted; it is no longer awaited then
+    next.catch(() => {});
 
-      events.push(
-        this.createLLMCallEvent(
-          messages,
-          systemInstruction,
-          `Error: ${errorMessage}`,
-          duration,
-          responseSchema,
-          parameters
-        )
-      );
-      throw error;
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMTimeoutError(`LLM stream received no data for ${timeoutMs}ms`, this.model));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([next, timeout]);
+    } finally {
+      clearTimeout(timer);
     }
   }
 }
 
 /**
- * Main LLM class that delegates to provider implementations
+ * Provider configuration, or an already constructed provider
+ */
+export type LLMProviderSpec = LLMConfig | BaseLLMProvider;
+
+/**
+ * Main LLM class that delegates to provider implementations.
+ *
+ * When configured with a list of providers, calls fall through to the next
+ * provider on timeouts and retryable errors.
  */
 export class LLM {
-  private readonly provider?: BaseLLMProvider | undefined;
-  private readonly providerPromise?: Promise<BaseLLMProvider> | undefined;
+  private readonly providerPromise?: Promise<BaseLLMProvider[]> | undefined;
+  private readonly logger: winston.Logger = getLogger("zowie_agent.LLM");
 
+  /**
+   * @param config - Provider configuration, or an ordered fallback list. Provider
+   *   instances (e.g. custom providers or `FakeLLMProvider`) are used as given, with
+   *   the defaults they were constructed with.
+   * @param cassette - Records calls to, or replays them from, a cassette file
+   * @param concurrencyLimiter - Limits concurrent calls to each provider and model
+   */
   constructor(
-    config?: LLMConfig,
+    config?: LLMProviderSpec | LLMProviderSpec[],
     includePersonaDefault = true,
     includeContextDefault = true,
     includeRandomNonceDefault = false,
     llmTimeoutMs?: number,
-    llmTimeoutRetries = 3
+    llmTimeoutRetries = 3,
+    maxToolIterations = DEFAULT_MAX_TOOL_ITERATIONS,
+    pricing?: LLMPricing,
+    private readonly cassette?: Cassette,
+    concurrencyLimiter?: SemaphorePool
   ) {
-    if (!config) {
+    const configs = config === undefined ? [] : Array.isArray(config) ? config : [config];
+    if (configs.length === 0) {
       // Type assertion needed since TypeScript can't infer conditional property assignment
-      (this as unknown as { provider?: undefined; providerPromise?: undefined }).provider =
-        undefined;
-      (this as unknown as { provider?: undefined; providerPromise?: undefined }).providerPromise =
-        undefined;
+      (this as unknown as { providerPromise?: undefined }).providerPromise = undefined;
       return;
     }
 
-    this.providerPromise = this.initializeProvider(
-      config,
-      includePersonaDefault,
-      includeContextDefault,
-      includeRandomNonceDefault,
-      llmTimeoutMs,
-      llmTimeoutRetries
+    this.providerPromise = Promise.all(
+      configs.map((providerConfig) =>
+        this.initializeProvider(
+          providerConfig,
+          includePersonaDefault,
+          includeContextDefault,
+          includeRandomNonceDefault,
+          llmTimeoutMs,
+          llmTimeoutRetries,
+          maxToolIterations,
+          pricing
+        ).then((provider) => {
+          if (concurrencyLimiter) {
+            provider.limitConcurrency(concurrencyLimiter);
+          }
+          return provider;
+        })
+      )
     );
   }
 
   private async initializeProvider(
-    config: LLMConfig,
+    config: LLMProviderSpec,
     includePersonaDefault: boolean,
     includeContextDefault: boolean,
     includeRandomNonceDefault: boolean,
     llmTimeoutMs: number | undefined,
-    llmTimeoutRetries: number
+    llmTimeoutRetries: number,
+    maxToolIterations: number,
+    pricing: LLMPricing | undefined
   ): Promise<BaseLLMProvider> {
+    if (config instanceof BaseLLMProvider) {
+      return config;
+    }
     if (config.provider === "openai") {
       const { OpenAIProvider } = await import("./openai.js");
       return new OpenAIProvider(
@@ -381,7 +763,9 @@ export class LLM {
         includeContextDefault,
         includeRandomNonceDefault,
         llmTimeoutMs,
-        llmTimeoutRetries
+        llmTimeoutRetries,
+        maxToolIterations,
+        pricing
       );
     }
     if (config.provider === "google") {
@@ -392,20 +776,81 @@ export class LLM {
         includeContextDefault,
         includeRandomNonceDefault,
         llmTimeoutMs,
-        llmTimeoutRetries
+        llmTimeoutRetries,
+        maxToolIterations,
+        pricing
+      );
+    }
+
+    if (config.provider === "anthropic") {
+      const { AnthropicProvider } = await import("./anthropic.js");
+      return new AnthropicProvider(
+        config,
+        includePersonaDefault,
+        includeContextDefault,
+        includeRandomNonceDefault,
+        llmTimeoutMs,
+        llmTimeoutRetries,
+        maxToolIterations,
+        pricing
       );
     }
 
     throw new Error(`Unknown LLM provider`);
   }
 
-  private async getProvider(): Promise<BaseLLMProvider> {
+  private async getProviders(): Promise<BaseLLMProvider[]> {
     if (!this.providerPromise) {
       throw new Error("LLM provider not configured");
     }
     return this.providerPromise;
   }
 
+  /**
+   * Run an operation against each provider in order until one succeeds. Each
+   * failed attempt has already been recorded by the provider as an `llm_call`
+   * event carrying its model and error. `canFallBack` can rule out repeating an
+   * operation that already had side effects.
+   */
+  private async withFallback<T>(
+    operation: (provider: BaseLLMProvider) => Promise<T>,
+    canFallBack: () => boolean = () => true
+  ): Promise<T> {
+    const providers = await this.getProviders();
+
+    for (const [index, provider] of providers.entries()) {
+      try {
+        return await operation(provider);
+      } catch (error) {
+        const nextProvider = providers[index + 1];
+        if (!nextProvider || !provider.isFallbackEligible(error) || !canFallBack()) {
+          throw toLLMError(error, provider.modelName);
+        }
+
+        this.logger.warn(
+          `LLM request with model ${provider.modelName} failed, falling back to model ${nextProvider.modelName}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    throw new Error("LLM provider not configured");
+  }
+
+  /**
+   * Record the call to the cassette or replay it from there, if one is configured.
+   * Replayed tool calls are served with their recorded events; tool handlers do not run.
+   */
+  private async withCassette<T>(
+    request: CassetteLLMRequest,
+    events: Event[],
+    operation: () => Promise<T>
+  ): Promise<T> {
+    if (!this.cassette) {
+      return operation();
+    }
+    return this.cassette.capture(toCassetteRequest(request), events, operation);
+  }
+
   async generateContent(
     messages: Message[],
     systemInstruction?: string,
@@ -413,19 +858,34 @@ export class LLM {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Record<string, unknown>
   ): Promise<string> {
-    const provider = await this.getProvider();
-    return provider.generateContent(
-      messages,
-      systemInstruction,
-      includePersona,
-      includeContext,
-      persona,
-      context,
+    return this.withCassette(
+      {
+        method: "generateContent",
+        messages,
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context,
+        parameters,
+      },
       events,
-      parameters
+      () =>
+        this.withFallback((provider) =>
+          provider.generateContent(
+            messages,
+            systemInstruction,
+            includePersona,
+            includeContext,
+            persona,
+            context,
+            events,
+            parameters
+          )
+        )
     );
   }
 
@@ -437,20 +897,36 @@ export class LLM {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Record<string, unknown>
   ): Promise<T> {
-    const provider = await this.getProvider();
-    return provider.generateStructuredContent(
-      messages,
-      schema,
-      systemInstruction,
-      includePersona,
-      includeContext,
-      persona,
-      context,
+    return this.withCassette(
+      {
+        method: "generateStructuredContent",
+        messages,
+        schema,
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context,
+        parameters,
+      },
       events,
-      parameters
+      () =>
+        this.withFallback((provider) =>
+          provider.generateStructuredContent(
+            messages,
+            schema,
+            systemInstruction,
+            includePersona,
+            includeContext,
+            persona,
+            context,
+            events,
+            parameters
+          )
+        )
     );
   }
 
@@ -462,20 +938,36 @@ export class LLM {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Record<string, unknown>
   ): Promise<string[]> {
-    const provider = await this.getProvider();
-    return provider.generateContentWithCandidates(
-      messages,
-      candidateCount,
-      systemInstruction,
-      includePersona,
-      includeContext,
-      persona,
-      context,
+    return this.withCassette(
+      {
+        method: "generateContentWithCandidates",
+        messages,
+        candidateCount,
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context,
+        parameters,
+      },
       events,
-      parameters
+      () =>
+        this.withFallback((provider) =>
+          provider.generateContentWithCandidates(
+            messages,
+            candidateCount,
+            systemInstruction,
+            includePersona,
+            includeContext,
+            persona,
+            context,
+            events,
+            parameters
+          )
+        )
     );
   }
 
@@ -488,21 +980,261 @@ export class LLM {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Record<string, unknown>
   ): Promise<T[]> {
-    const provider = await this.getProvider();
-    return provider.generateStructuredContentWithCandidates(
+    return this.withCassette(
+      {
+        method: "generateStructuredContentWithCandidates",
+        messages,
+        candidateCount,
+        schema,
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context,
+        parameters,
+      },
+      events,
+      () =>
+        this.withFallback((provider) =>
+          provider.generateStructuredContentWithCandidates(
+            messages,
+            candidateCount,
+            schema,
+            systemInstruction,
+            includePersona,
+            includeContext,
+            persona,
+            context,
+            events,
+            parameters
+          )
+        )
+    );
+  }
+
+  async generateContentWithTools(
+    messages: Message[],
+    tools: LLMTool[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Record<string, unknown>
+  ): Promise<string> {
+    const firstEvent = events.length;
+    // Tool handlers may have side effects, such as creating a refund, so a run is not
+    // repeated on the next provider once it has called a tool
+    const noToolCalled = () =>
+      !events.slice(firstEvent).some((event) => event.type === "tool_call");
+    return this.withCassette(
+      {
+        method: "generateContentWithTools",
+        messages,
+        tools,
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context,
+        parameters,
+      },
+      events,
+      () =>
+        this.withFallback(
+          (provider) =>
+            provider.generateContentWithTools(
+              messages,
+              tools,
+              systemInstruction,
+              includePersona,
+              includeContext,
+              persona,
+              context,
+              events,
+              parameters
+            ),
+          noToolCalled
+        )
+    );
+  }
+
+  /**
+   * Stream text deltas as they are generated. Falls back to the next provider
+   * only while no text has been produced yet.
+   */
+  async *streamContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Record<string, unknown>
+  ): AsyncIterable<string> {
+    if (!this.cassette) {
+      yield* this.streamFromProviders(
+        messages,
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context,
+        events,
+        parameters
+      );
+      return;
+    }
+
+    const request = toCassetteRequest({
+      method: "streamContent",
       messages,
-      candidateCount,
-      schema,
       systemInstruction,
       includePersona,
       includeContext,
       persona,
       context,
-      events,
-      parameters
-    );
+      parameters,
+    });
+    if (this.cassette.mode === "replay") {
+      const interaction = await this.cassette.find(request);
+      events.push(...(interaction.events ?? []));
+      yield* (interaction.response as string[] | undefined) ?? [];
+      if (interaction.error !== undefined) {
+        throw replayedError(interaction);
+      }
+      return;
+    }
+
+    const firstEvent = events.length;
+    const deltas: string[] = [];
+    try {
+      for await (const delta of this.streamFromProviders(
+        messages,
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context,
+        events,
+        parameters
+      )) {
+        deltas.push(delta);
+        yield delta;
+      }
+    } catch (error) {
+      await this.cassette.record({
+        request,
+        response: deltas,
+        ...recordedError(error),
+        events: events.slice(firstEvent),
+      });
+      throw error;
+    }
+    await this.cassette.record({ request, response: deltas, events: events.slice(firstEvent) });
+  }
+
+  private async *streamFromProviders(
+    messages: Message[],
+    systemInstruction: string | undefined,
+    includePersona: boolean | undefined,
+    includeContext: boolean | undefined,
+    persona: Persona | undefined,
+    context: string | undefined,
+    events: Event[],
+    parameters: Record<string, unknown> | undefined
+  ): AsyncIterable<string> {
+    const providers = await this.getProviders();
+
+    for (const [index, provider] of providers.entries()) {
+      let started = false;
+      try {
+        for await (const delta of provider.streamContent(
+          messages,
+          systemInstruction,
+          includePersona,
+          includeContext,
+          persona,
+          context,
+          events,
+          parameters
+        )) {
+          started = true;
+          yield delta;
+        }
+        return;
+      } catch (error) {
+        const nextProvider = providers[index + 1];
+        if (started || !nextProvider || !provider.isFallbackEligible(error)) {
+          throw toLLMError(error, provider.modelName);
+        }
+
+        this.logger.warn(
+          `LLM stream with model ${provider.modelName} failed, falling back to model ${nextProvider.modelName}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
   }
 }
+
+/**
+ * Raise a failed call as an `AgentError`, keeping the provider error as its cause
+ */
+function toLLMError(error: unknown, model: string): AgentError {
+  if (error instanceof AgentError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new LLMError(message, model, { cause: error });
+}
+
+/**
+ * An LLM call as identified in cassettes
+ */
+interface CassetteLLMRequest {
+  method: string;
+  messages: Message[];
+  systemInstruction: string | undefined;
+  includePersona: boolean | undefined;
+  includeContext: boolean | undefined;
+  persona: Persona | undefined;
+  context: string | undefined;
+  parameters: Record<string, unknown> | undefined;
+  candidateCount?: number;
+  schema?: z.ZodSchema<unknown>;
+  tools?: LLMTool[];
+}
+
+/**
+ * Serializable form of an LLM call. Message timestamps are left out so recordings
+ * match across runs, and schemas and tools are described by their JSON schemas.
+ */
+function toCassetteRequest(request: CassetteLLMRequest): Record<string, unknown> {
+  const { messages, schema, tools, ...rest } = request;
+  return {
+    kind: "llm",
+    ...rest,
+    messages: messages.map(({ timestamp: _timestamp, ...message }) => message),
+    schema: schema && zodToJsonSchema(schema),
+    tools: tools?.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: toolParametersJsonSchema(tool),
+    })),
+  };
+}
+
+/**
+ * Token usage span attributes, per the GenAI semantic conventions
+ */
+function usageSpanAttributes(usage: LLMUsage | undefined): Attributes {
+  return {
+    ...(usage?.inputTokens !== undefined && { "gen_ai.usage.input_tokens": usage.inputTokens }),
+    ...(usage?.outputTokens !== undefined && { "gen_ai.usage.output_tokens": usage.outputTokens }),
+  };
+}
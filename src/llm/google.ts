@@ -2,13 +2,29 @@
  * Google Generative AI provider implementation
  */
 
-import type { GenerateContentConfig } from "@google/genai";
+import { setTimeout as sleep } from "node:timers/promises";
+import type {
+  Content,
+  FunctionCall,
+  GenerateContentConfig,
+  GenerateContentResponseUsageMetadata,
+  Part,
+} from "@google/genai";
 import { ApiError, GoogleGenAI } from "@google/genai";
 import type { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import type { GoogleProviderConfig } from "../domain.js";
+import { ValidationError } from "../errors.js";
 import type { Event, Message, Persona } from "../protocol.js";
+import { currentEvents, withRequestSignal } from "../scope.js";
 import { BaseLLMProvider, prepareMessagesForLLM } from "./base.js";
+import {
+  DEFAULT_MAX_TOOL_ITERATIONS,
+  type LLMTool,
+  type LLMToolCall,
+  toolParametersJsonSchema,
+} from "./tools.js";
+import type { LLMPricing, LLMUsage } from "./usage.js";
 
 export class GoogleProvider extends BaseLLMProvider {
   private genAI?: GoogleGenAI;
@@ -21,7 +37,9 @@ export class GoogleProvider extends BaseLLMProvider {
     includeContextDefault = true,
     includeRandomNonceDefault = false,
     llmTimeoutMs?: number,
-    llmTimeoutRetries = 3
+    llmTimeoutRetries = 3,
+    maxToolIterations = DEFAULT_MAX_TOOL_ITERATIONS,
+    pricing?: LLMPricing
   ) {
     super(
       config,
@@ -30,7 +48,9 @@ export class GoogleProvider extends BaseLLMProvider {
       includeContextDefault,
       includeRandomNonceDefault,
       llmTimeoutMs,
-      llmTimeoutRetries
+      llmTimeoutRetries,
+      maxToolIterations,
+      pricing
     );
     this.thinkingBudget = config.thinkingBudget;
     this.vertexaiConfig = config.vertexai;
@@ -86,7 +106,8 @@ export class GoogleProvider extends BaseLLMProvider {
           this.logger.warn(
             `Google API request failed (attempt ${attempt + 1}/${maxRetries + 1}). Retrying in ${Math.round(delay)}ms... Error: ${error}`
           );
-          await new Promise((resolve) => setTimeout(resolve, delay));
+          // Cut short by the request's deadline or by shutdown
+          await sleep(delay, undefined, { signal: withRequestSignal() });
           continue;
         }
 
@@ -97,7 +118,11 @@ export class GoogleProvider extends BaseLLMProvider {
     throw lastError;
   }
 
-  private isRetryableError(error: unknown): boolean {
+  protected override get telemetryProviderName(): string {
+    return this.vertexaiConfig ? "gcp.vertex_ai" : "gcp.gemini";
+  }
+
+  protected override isRetryableError(error: unknown): boolean {
     if (error instanceof ApiError) {
       // Retry on:
       // - 429: Too Many Requests (rate limiting)
@@ -115,7 +140,7 @@ export class GoogleProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<GenerateContentConfig>
   ): Promise<string> {
     const genAI = this.getGenAI();
@@ -132,7 +157,7 @@ export class GoogleProvider extends BaseLLMProvider {
     const chatHistory = this.prepareHistory(llmMessages);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const response = await this.retryWithBackoff(() =>
           this.withTimeoutRetries((signal) =>
             genAI.models.generateContent({
@@ -153,6 +178,7 @@ export class GoogleProvider extends BaseLLMProvider {
             })
           )
         );
+        recordUsage(this.extractUsage(response.usageMetadata));
         return response.text || "";
       },
       llmMessages,
@@ -171,7 +197,7 @@ export class GoogleProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<GenerateContentConfig>
   ): Promise<T> {
     const genAI = this.getGenAI();
@@ -189,7 +215,7 @@ export class GoogleProvider extends BaseLLMProvider {
     const responseSchema = zodToJsonSchema(schema);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const response = await this.retryWithBackoff(() =>
           this.withTimeoutRetries((signal) =>
             genAI.models.generateContent({
@@ -212,6 +238,7 @@ export class GoogleProvider extends BaseLLMProvider {
             })
           )
         );
+        recordUsage(this.extractUsage(response.usageMetadata));
 
         const content = response.text || "";
 
@@ -219,7 +246,10 @@ export class GoogleProvider extends BaseLLMProvider {
           const parsed = JSON.parse(content);
           return schema.parse(parsed);
         } catch (error) {
-          throw new Error(`Failed to parse structured response: ${error}\nResponse: ${content}`);
+          throw new ValidationError(
+            `Failed to parse structured response: ${error}\nResponse: ${content}`,
+            { cause: error }
+          );
         }
       },
       llmMessages,
@@ -238,7 +268,7 @@ export class GoogleProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<GenerateContentConfig>
   ): Promise<string[]> {
     const genAI = this.getGenAI();
@@ -255,7 +285,7 @@ export class GoogleProvider extends BaseLLMProvider {
     const chatHistory = this.prepareHistory(llmMessages);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const response = await this.retryWithBackoff(() =>
           this.withTimeoutRetries((signal) =>
             genAI.models.generateContent({
@@ -277,6 +307,7 @@ export class GoogleProvider extends BaseLLMProvider {
             })
           )
         );
+        recordUsage(this.extractUsage(response.usageMetadata));
 
         const results: string[] = [];
         if (response.candidates) {
@@ -311,7 +342,7 @@ export class GoogleProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<GenerateContentConfig>
   ): Promise<T[]> {
     const genAI = this.getGenAI();
@@ -329,7 +360,7 @@ export class GoogleProvider extends BaseLLMProvider {
     const responseSchema = zodToJsonSchema(schema);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const response = await this.retryWithBackoff(() =>
           this.withTimeoutRetries((signal) =>
             genAI.models.generateContent({
@@ -353,6 +384,7 @@ export class GoogleProvider extends BaseLLMProvider {
             })
           )
         );
+        recordUsage(this.extractUsage(response.usageMetadata));
 
         const results: T[] = [];
         if (response.candidates) {
@@ -385,6 +417,190 @@ export class GoogleProvider extends BaseLLMProvider {
     );
   }
 
+  async generateContentWithTools(
+    messages: Message[],
+    tools: LLMTool[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Partial<GenerateContentConfig>
+  ): Promise<string> {
+    const genAI = this.getGenAI();
+
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const contents: Content[] = this.prepareHistory(llmMessages);
+    const functionDeclarations = tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parametersJsonSchema: toolParametersJsonSchema(tool),
+    }));
+
+    for (let iteration = 0; iteration < this.maxToolIterations; iteration++) {
+      let functionCalls: FunctionCall[] = [];
+      let modelContent: Content | undefined;
+
+      const step = await this.withTiming(
+        async (recordUsage): Promise<string | LLMToolCall[]> => {
+          const response = await this.retryWithBackoff(() =>
+            this.withTimeoutRetries((signal) =>
+              genAI.models.generateContent({
+                model: this.model,
+                contents,
+                config: {
+                  ...(systemInstructionText && {
+                    systemInstruction: systemInstructionText,
+                  }),
+                  tools: [{ functionDeclarations }],
+                  ...(this.thinkingBudget !== undefined && {
+                    thinkingConfig: {
+                      thinkingBudget: this.thinkingBudget,
+                    },
+                  }),
+                  ...parameters,
+                  ...(signal && { abortSignal: signal }),
+                },
+              })
+            )
+          );
+          recordUsage(this.extractUsage(response.usageMetadata));
+
+          functionCalls = response.functionCalls ?? [];
+          if (functionCalls.length > 0) {
+            // Keep the original model turn so thought signatures are sent back unchanged
+            modelContent = response.candidates?.[0]?.content;
+            return functionCalls.map((call, index) => ({
+              id: call.id ?? `${call.name}_${iteration}_${index}`,
+              name: call.name ?? "",
+              arguments: JSON.stringify(call.args ?? {}),
+            }));
+          }
+
+          return response.text || "";
+        },
+        llmMessages,
+        systemInstructionText,
+        events,
+        undefined,
+        { ...parameters, tools: tools.map((tool) => tool.name) }
+      );
+
+      if (typeof step === "string") {
+        return step;
+      }
+
+      contents.push(
+        modelContent ?? {
+          role: "model",
+          parts: functionCalls.map((functionCall) => ({ functionCall })),
+        }
+      );
+
+      const responseParts: Part[] = [];
+      for (const [index, call] of step.entries()) {
+        const output = await this.executeToolCall(tools, call, events);
+        const id = functionCalls[index]?.id;
+        responseParts.push({
+          functionResponse: { name: call.name, ...(id && { id }), response: { output } },
+        });
+      }
+      contents.push({ role: "user", parts: responseParts });
+    }
+
+    throw this.toolIterationsExceededError();
+  }
+
+  async *streamContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Partial<GenerateContentConfig>
+  ): AsyncIterable<string> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const chatHistory = this.prepareHistory(llmMessages);
+
+    yield* this.withStreamTiming(
+      (signal, recordUsage) =>
+        this.streamDeltas(chatHistory, systemInstructionText, signal, recordUsage, parameters),
+      llmMessages,
+      systemInstructionText,
+      events,
+      parameters
+    );
+  }
+
+  private async *streamDeltas(
+    contents: Content[],
+    systemInstruction: string,
+    signal: AbortSignal,
+    recordUsage: (usage: LLMUsage) => void,
+    parameters?: Partial<GenerateContentConfig>
+  ): AsyncGenerator<string> {
+    const genAI = this.getGenAI();
+    const stream = await this.retryWithBackoff(() =>
+      genAI.models.generateContentStream({
+        model: this.model,
+        contents,
+        config: {
+          ...(systemInstruction && { systemInstruction }),
+          ...(this.thinkingBudget !== undefined && {
+            thinkingConfig: {
+              thinkingBudget: this.thinkingBudget,
+            },
+          }),
+          ...parameters,
+          abortSignal: signal,
+        },
+      })
+    );
+
+    // Usage metadata is cumulative, so only the last reported value is recorded
+    let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+    recordUsage(this.extractUsage(usageMetadata));
+  }
+
+  private extractUsage(usage: GenerateContentResponseUsageMetadata | undefined): LLMUsage {
+    // Gemini reports thinking tokens separately from candidate tokens
+    const outputTokens =
+      usage?.candidatesTokenCount === undefined && usage?.thoughtsTokenCount === undefined
+        ? undefined
+        : (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+    return {
+      inputTokens: usage?.promptTokenCount,
+      outputTokens,
+      cachedTokens: usage?.cachedContentTokenCount,
+      reasoningTokens: usage?.thoughtsTokenCount,
+    };
+  }
+
   private prepareHistory(messages: Message[]) {
     const history: Array<{ role: string; parts: Array<{ text: string }> }> = [];
 
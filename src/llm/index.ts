@@ -2,6 +2,8 @@
  * LLM provider exports
  */
 
-export { BaseLLMProvider, LLM } from "./base.js";
+export { LLMTimeoutError } from "../errors.js";
+export { AnthropicProvider } from "./anthropic.js";
+export { BaseLLMProvider, LLM, type LLMProviderSpec } from "./base.js";
 export { GoogleProvider } from "./google.js";
 export { OpenAIProvider } from "./openai.js";
@@ -3,13 +3,22 @@
  */
 
 import type OpenAI_NS from "openai";
-import { OpenAI } from "openai";
+import { APIConnectionError, APIError, OpenAI } from "openai";
 import { zodResponseFormat } from "openai/helpers/zod";
 // biome-ignore lint/style/useImportType: z is used at runtime for zodResponseFormat
 import { z } from "zod";
 import type { OpenAIProviderConfig } from "../domain.js";
+import { ValidationError } from "../errors.js";
 import type { Event, Message, Persona } from "../protocol.js";
+import { currentEvents } from "../scope.js";
 import { BaseLLMProvider, prepareMessagesForLLM } from "./base.js";
+import {
+  DEFAULT_MAX_TOOL_ITERATIONS,
+  type LLMTool,
+  type LLMToolCall,
+  toolParametersJsonSchema,
+} from "./tools.js";
+import type { LLMPricing, LLMUsage } from "./usage.js";
 
 export class OpenAIProvider extends BaseLLMProvider {
   private openai?: OpenAI;
@@ -22,7 +31,9 @@ export class OpenAIProvider extends BaseLLMProvider {
     includeContextDefault = true,
     includeRandomNonceDefault = false,
     llmTimeoutMs?: number,
-    llmTimeoutRetries = 3
+    llmTimeoutRetries = 3,
+    maxToolIterations = DEFAULT_MAX_TOOL_ITERATIONS,
+    pricing?: LLMPricing
   ) {
     super(
       config,
@@ -31,7 +42,9 @@ export class OpenAIProvider extends BaseLLMProvider {
       includeContextDefault,
       includeRandomNonceDefault,
       llmTimeoutMs,
-      llmTimeoutRetries
+      llmTimeoutRetries,
+      maxToolIterations,
+      pricing
     );
     this.reasoningEffort = config.reasoningEffort;
     this.baseURL = config.baseURL;
@@ -52,6 +65,18 @@ export class OpenAIProvider extends BaseLLMProvider {
     return this.openai;
   }
 
+  protected override isRetryableError(error: unknown): boolean {
+    // Reached only after the SDK's own retries: rate limiting, server errors and
+    // connection failures are worth trying on another provider
+    if (error instanceof APIConnectionError) {
+      return true;
+    }
+    if (error instanceof APIError && error.status !== undefined) {
+      return error.status === 429 || error.status >= 500;
+    }
+    return false;
+  }
+
   async generateContent(
     messages: Message[],
     systemInstruction?: string,
@@ -59,7 +84,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<
       Omit<OpenAI_NS.Chat.ChatCompletionCreateParamsNonStreaming, "model" | "messages">
     >
@@ -78,7 +103,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     const openaiMessages = this.prepareMessages(llmMessages, systemInstructionText);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const completion = await this.withTimeoutRetries((signal) =>
           openai.chat.completions.create(
             {
@@ -92,6 +117,7 @@ export class OpenAIProvider extends BaseLLMProvider {
             signal ? { signal } : undefined
           )
         );
+        recordUsage(this.extractUsage(completion.usage));
 
         const message = completion.choices[0]?.message;
         const content = message?.content;
@@ -124,7 +150,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<
       Omit<
         OpenAI_NS.Chat.ChatCompletionCreateParamsNonStreaming,
@@ -146,7 +172,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     const openaiMessages = this.prepareMessages(llmMessages, systemInstructionText);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const completion = await this.withTimeoutRetries((signal) =>
           openai.chat.completions.parse(
             {
@@ -161,10 +187,11 @@ export class OpenAIProvider extends BaseLLMProvider {
             signal ? { signal } : undefined
           )
         );
+        recordUsage(this.extractUsage(completion.usage));
 
         const message = completion.choices[0]?.message;
         if (!message?.parsed) {
-          throw new Error("No parsed content received from OpenAI");
+          throw new ValidationError("No parsed content received from OpenAI");
         }
 
         return message.parsed;
@@ -185,7 +212,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<
       Omit<OpenAI_NS.Chat.ChatCompletionCreateParamsNonStreaming, "model" | "messages" | "n">
     >
@@ -204,7 +231,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     const openaiMessages = this.prepareMessages(llmMessages, systemInstructionText);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const completion = await this.withTimeoutRetries((signal) =>
           openai.chat.completions.create(
             {
@@ -219,6 +246,7 @@ export class OpenAIProvider extends BaseLLMProvider {
             signal ? { signal } : undefined
           )
         );
+        recordUsage(this.extractUsage(completion.usage));
 
         const results: string[] = [];
         for (const choice of completion.choices) {
@@ -255,7 +283,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     includeContext?: boolean,
     persona?: Persona,
     context?: string,
-    events: Event[] = [],
+    events: Event[] = currentEvents(),
     parameters?: Partial<
       Omit<
         OpenAI_NS.Chat.ChatCompletionCreateParamsNonStreaming,
@@ -277,7 +305,7 @@ export class OpenAIProvider extends BaseLLMProvider {
     const openaiMessages = this.prepareMessages(llmMessages, systemInstructionText);
 
     return this.withTiming(
-      async () => {
+      async (recordUsage) => {
         const completion = await this.withTimeoutRetries((signal) =>
           openai.chat.completions.parse(
             {
@@ -293,6 +321,7 @@ export class OpenAIProvider extends BaseLLMProvider {
             signal ? { signal } : undefined
           )
         );
+        recordUsage(this.extractUsage(completion.usage));
 
         const results: T[] = [];
         for (const choice of completion.choices) {
@@ -303,7 +332,7 @@ export class OpenAIProvider extends BaseLLMProvider {
         }
 
         if (results.length === 0) {
-          throw new Error("No parsed content received from OpenAI");
+          throw new ValidationError("No parsed content received from OpenAI");
         }
 
         return results;
@@ -316,6 +345,198 @@ export class OpenAIProvider extends BaseLLMProvider {
     );
   }
 
+  async generateContentWithTools(
+    messages: Message[],
+    tools: LLMTool[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Partial<
+      Omit<OpenAI_NS.Chat.ChatCompletionCreateParamsNonStreaming, "model" | "messages" | "tools">
+    >
+  ): Promise<string> {
+    const openai = this.getOpenAI();
+
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const conversation: OpenAI_NS.Chat.ChatCompletionMessageParam[] = this.prepareMessages(
+      llmMessages,
+      systemInstructionText
+    );
+    const openaiTools: OpenAI_NS.Chat.ChatCompletionFunctionTool[] = tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: toolParametersJsonSchema(tool),
+      },
+    }));
+
+    for (let iteration = 0; iteration < this.maxToolIterations; iteration++) {
+      const step = await this.withTiming(
+        async (recordUsage): Promise<string | LLMToolCall[]> => {
+          const completion = await this.withTimeoutRetries((signal) =>
+            openai.chat.completions.create(
+              {
+                model: this.model,
+                messages: conversation,
+                tools: openaiTools,
+                ...(this.reasoningEffort && {
+                  reasoning_effort: this.reasoningEffort,
+                }),
+                ...parameters,
+              },
+              signal ? { signal } : undefined
+            )
+          );
+          recordUsage(this.extractUsage(completion.usage));
+
+          const message = completion.choices[0]?.message;
+          const toolCalls = (message?.tool_calls ?? []).filter((call) => call.type === "function");
+
+          if (toolCalls.length > 0) {
+            conversation.push({
+              role: "assistant",
+              content: message?.content ?? null,
+              tool_calls: toolCalls,
+            });
+            return toolCalls.map((call) => ({
+              id: call.id,
+              name: call.function.name,
+              arguments: call.function.arguments,
+            }));
+          }
+
+          const content = message?.content;
+          if (!content) {
+            if (message?.refusal) {
+              throw new Error(`OpenAI refused to respond: ${message.refusal}`);
+            }
+            throw new Error(
+              `No content received from OpenAI. Response: ${JSON.stringify(completion.choices[0])}`
+            );
+          }
+
+          return content;
+        },
+        llmMessages,
+        systemInstructionText,
+        events,
+        undefined,
+        { ...parameters, tools: tools.map((tool) => tool.name) }
+      );
+
+      if (typeof step === "string") {
+        return step;
+      }
+
+      for (const call of step) {
+        const output = await this.executeToolCall(tools, call, events);
+        conversation.push({ role: "tool", tool_call_id: call.id, content: output });
+      }
+    }
+
+    throw this.toolIterationsExceededError();
+  }
+
+  async *streamContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = currentEvents(),
+    parameters?: Partial<
+      Omit<OpenAI_NS.Chat.ChatCompletionCreateParamsStreaming, "model" | "messages" | "stream">
+    >
+  ): AsyncIterable<string> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+
+    const llmMessages = prepareMessagesForLLM(messages);
+    const openaiMessages = this.prepareMessages(llmMessages, systemInstructionText);
+
+    yield* this.withStreamTiming(
+      (signal, recordUsage) => this.streamDeltas(openaiMessages, signal, recordUsage, parameters),
+      llmMessages,
+      systemInstructionText,
+      events,
+      parameters
+    );
+  }
+
+  private async *streamDeltas(
+    messages: OpenAI_NS.Chat.ChatCompletionMessageParam[],
+    signal: AbortSignal,
+    recordUsage: (usage: LLMUsage) => void,
+    parameters?: Partial<
+      Omit<OpenAI_NS.Chat.ChatCompletionCreateParamsStreaming, "model" | "messages" | "stream">
+    >
+  ): AsyncGenerator<string> {
+    const stream = await this.getOpenAI().chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(this.reasoningEffort && {
+          reasoning_effort: this.reasoningEffort,
+        }),
+        ...parameters,
+      },
+      { signal }
+    );
+
+    let produced = false;
+    let refusal = "";
+    for await (const chunk of stream) {
+      if (chunk.usage) {
+        recordUsage(this.extractUsage(chunk.usage));
+      }
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.refusal) {
+        refusal += delta.refusal;
+      }
+      if (delta?.content) {
+        produced = true;
+        yield delta.content;
+      }
+    }
+
+    if (!produced) {
+      if (refusal) {
+        throw new Error(`OpenAI refused to respond: ${refusal}`);
+      }
+      throw new Error("No content received from OpenAI");
+    }
+  }
+
+  private extractUsage(usage: OpenAI_NS.CompletionUsage | undefined): LLMUsage {
+    return {
+      inputTokens: usage?.prompt_tokens,
+      outputTokens: usage?.completion_tokens,
+      cachedTokens: usage?.prompt_tokens_details?.cached_tokens,
+      reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens,
+    };
+  }
+
   private prepareMessages(messages: Message[], systemInstruction?: string) {
     const openaiMessages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [];
 
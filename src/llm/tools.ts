@@ -0,0 +1,61 @@
+/**
+ * Tool (function calling) definitions shared by all LLM providers
+ */
+
+import type { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+/** Default cap on model round-trips in a single tool-calling run */
+export const DEFAULT_MAX_TOOL_ITERATIONS = 10;
+
+/**
+ * A tool the model can decide to call. Arguments produced by the model are
+ * validated against `inputSchema` before `handler` runs.
+ */
+export interface LLMTool<TInput = unknown> {
+  /** Name the model uses to call the tool (letters, digits, underscores and dashes) */
+  name: string;
+  /** Description the model uses to decide when to call the tool */
+  description: string;
+  /** Zod schema of the tool arguments */
+  inputSchema: z.ZodType<TInput>;
+  /** Executes the tool; non-string results are serialized to JSON before being sent to the model */
+  handler(input: TInput): Promise<unknown>;
+}
+
+/**
+ * A tool call requested by the model, normalized across providers
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON arguments as produced by the model */
+  arguments: string;
+}
+
+/**
+ * Define a tool with the handler input type inferred from its schema.
+ *
+ * @example
+ * ```typescript
+ * const getOrder = defineTool({
+ *   name: "get_order",
+ *   description: "Look up an order by its number",
+ *   inputSchema: z.object({ orderNumber: z.string() }),
+ *   handler: async ({ orderNumber }) => ordersApi.get(orderNumber),
+ * });
+ * ```
+ */
+export function defineTool<TInput>(tool: LLMTool<TInput>): LLMTool<TInput> {
+  return tool;
+}
+
+/**
+ * Convert a tool's input schema to the plain JSON Schema object providers expect
+ */
+export function toolParametersJsonSchema(tool: LLMTool): Record<string, unknown> {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(tool.inputSchema, {
+    $refStrategy: "none",
+  }) as Record<string, unknown>;
+  return jsonSchema;
+}
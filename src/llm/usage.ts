@@ -0,0 +1,108 @@
+/**
+ * Token usage and cost estimation shared by all LLM providers
+ */
+
+import type { LLMCallEventPayload } from "../protocol.js";
+
+/**
+ * Token usage of an LLM call, normalized across providers.
+ *
+ * `inputTokens` includes `cachedTokens` and `outputTokens` includes
+ * `reasoningTokens`, so totals can be summed without double counting.
+ */
+export interface LLMUsage {
+  inputTokens?: number | undefined;
+  outputTokens?: number | undefined;
+  /** Input tokens served from the provider's prompt cache */
+  cachedTokens?: number | undefined;
+  /** Output tokens spent on reasoning/thinking */
+  reasoningTokens?: number | undefined;
+}
+
+/**
+ * Price of a model in currency units per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  /** Price of cached input tokens (default: `inputPerMillionTokens`) */
+  cachedInputPerMillionTokens?: number | undefined;
+}
+
+/**
+ * Per-model price table keyed by model name, used to estimate the cost of LLM calls
+ */
+export type LLMPricing = Record<string, ModelPricing>;
+
+/**
+ * Aggregated usage of all LLM calls made while handling a request
+ */
+export interface LLMUsageSummary {
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
+  /** Sum of the estimated costs; undefined when no call could be priced */
+  estimatedCost?: number | undefined;
+}
+
+/**
+ * Add two usage records, keeping fields unset when neither side reports them
+ */
+export function addUsage(a: LLMUsage | undefined, b: LLMUsage): LLMUsage {
+  const sum = (x?: number, y?: number) =>
+    x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0);
+  return {
+    inputTokens: sum(a?.inputTokens, b.inputTokens),
+    outputTokens: sum(a?.outputTokens, b.outputTokens),
+    cachedTokens: sum(a?.cachedTokens, b.cachedTokens),
+    reasoningTokens: sum(a?.reasoningTokens, b.reasoningTokens),
+  };
+}
+
+/**
+ * Estimate the cost of a call from its usage. Returns undefined when the usage
+ * does not report token counts.
+ */
+export function estimateCost(usage: LLMUsage, pricing: ModelPricing): number | undefined {
+  if (usage.inputTokens === undefined && usage.outputTokens === undefined) {
+    return undefined;
+  }
+
+  const cachedTokens = usage.cachedTokens ?? 0;
+  const uncachedInputTokens = (usage.inputTokens ?? 0) - cachedTokens;
+  const cachedPrice = pricing.cachedInputPerMillionTokens ?? pricing.inputPerMillionTokens;
+
+  return (
+    (uncachedInputTokens * pricing.inputPerMillionTokens +
+      cachedTokens * cachedPrice +
+      (usage.outputTokens ?? 0) * pricing.outputPerMillionTokens) /
+    1_000_000
+  );
+}
+
+/**
+ * Summarize token usage and estimated cost over `llm_call` event payloads
+ */
+export function summarizeUsage(payloads: LLMCallEventPayload[]): LLMUsageSummary {
+  const summary: LLMUsageSummary = {
+    llmCalls: payloads.length,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    reasoningTokens: 0,
+  };
+
+  for (const payload of payloads) {
+    summary.inputTokens += payload.inputTokens ?? 0;
+    summary.outputTokens += payload.outputTokens ?? 0;
+    summary.cachedTokens += payload.cachedTokens ?? 0;
+    summary.reasoningTokens += payload.reasoningTokens ?? 0;
+    if (payload.estimatedCost !== undefined) {
+      summary.estimatedCost = (summary.estimatedCost ?? 0) + payload.estimatedCost;
+    }
+  }
+
+  return summary;
+}
@@ -1,9 +1,43 @@
 /**
- * Simple logging setup for the SDK
+ * Logging setup for the SDK
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Writable } from "node:stream";
 import winston from "winston";
 
+/** Log line format: human-readable text or one JSON object per line */
+export type LogFormat = "text" | "json";
+
+/**
+ * Minimal structured logger interface, compatible with pino and similar loggers
+ * taking a fields object followed by a message
+ */
+export interface LoggerLike {
+  debug(fields: Record<string, unknown>, message?: string): void;
+  info(fields: Record<string, unknown>, message?: string): void;
+  warn(fields: Record<string, unknown>, message?: string): void;
+  error(fields: Record<string, unknown>, message?: string): void;
+}
+
+export interface LoggerOptions {
+  /** Minimum level to log (default: the LOG_LEVEL environment variable, or "info") */
+  level?: string | undefined;
+  /** Output format (default: the LOG_FORMAT environment variable, or "text") */
+  format?: LogFormat | undefined;
+  /** Winston transports replacing the default console output */
+  transports?: winston.transport[] | undefined;
+  /** Logger receiving every log entry, e.g. a pino instance; replaces the console output */
+  logger?: LoggerLike | undefined;
+}
+
+interface LogScope {
+  logger: winston.Logger;
+  bindings: Record<string, unknown>;
+}
+
+const logScope = new AsyncLocalStorage<LogScope>();
+
 // Custom format that ensures we always get the full output
 const customFormat = winston.format.printf(({ timestamp, level, message, component, ...meta }) => {
   const componentName = component || "zowie_agent";
@@ -16,30 +50,114 @@ const customFormat = winston.format.printf(({ timestamp, level, message, compone
   return `${timestamp} - ${componentName} - ${level.toUpperCase()} - ${message}${metaStr}`;
 });
 
-// Create a root logger with explicit configuration
-const rootLogger = winston.createLogger({
-  // biome-ignore lint/complexity/useLiteralKeys: Required by TypeScript noPropertyAccessFromIndexSignature
-  level: process.env["LOG_LEVEL"] || "info",
+// Adds the bindings of the current log scope (e.g. requestId) to every entry
+const scopeBindings = winston.format((info) => {
+  const bindings = logScope.getStore()?.bindings ?? {};
+  for (const [key, value] of Object.entries(bindings)) {
+    if (!(key in info)) {
+      info[key] = value;
+    }
+  }
+  return info;
+});
+
+const forwardedLevels: Record<string, keyof LoggerLike> = {
+  error: "error",
+  warn: "warn",
+  info: "info",
+  http: "info",
+};
+
+/**
+ * Winston transport handing each entry to a function
+ */
+function objectTransport(
+  handle: (info: winston.Logform.TransformableInfo) => void
+): winston.transport {
+  return new winston.transports.Stream({
+    stream: new Writable({
+      objectMode: true,
+      write(info: winston.Logform.TransformableInfo, _encoding, callback) {
+        handle(info);
+        callback();
+      },
+    }),
+  });
+}
+
+/**
+ * Winston transport handing entries to a `LoggerLike`
+ */
+function loggerLikeTransport(target: LoggerLike): winston.transport {
+  return objectTransport((info) => {
+    const { level, message, timestamp: _timestamp, ...fields } = info;
+    target[forwardedLevels[level] ?? "debug"](fields, String(message));
+  });
+}
+
+/**
+ * Create a logger with its own level and outputs. Entries logged while a log scope is
+ * active (see `runWithLogScope`) carry the scope's bindings.
+ */
+export function createLogger(options: LoggerOptions = {}): winston.Logger {
+  const format: LogFormat =
+    // biome-ignore lint/complexity/useLiteralKeys: Required by TypeScript noPropertyAccessFromIndexSignature
+    options.format ?? (process.env["LOG_FORMAT"] === "json" ? "json" : "text");
+  const transports = [
+    ...(options.transports ?? []),
+    ...(options.logger ? [loggerLikeTransport(options.logger)] : []),
+  ];
+
+  return winston.createLogger({
+    // biome-ignore lint/complexity/useLiteralKeys: Required by TypeScript noPropertyAccessFromIndexSignature
+    level: options.level ?? (process.env["LOG_LEVEL"] || "info"),
+    format: winston.format.combine(
+      winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
+      winston.format.errors({ stack: true }),
+      scopeBindings(),
+      format === "json" ? winston.format.json() : customFormat
+    ),
+    transports: transports.length > 0 ? transports : [new winston.transports.Console()],
+  });
+}
+
+const defaultLogger = createLogger();
+
+const targetLogger = Symbol("targetLogger");
+
+// SDK components log through this logger, so their entries reach the agent handling
+// the current request; it passes every level and leaves filtering to the target logger.
+// Transports may run after the log call returns, so the target is resolved while formatting.
+const scopedLogger = winston.createLogger({
+  level: "silly",
   format: winston.format.combine(
-    winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
-    winston.format.errors({ stack: true }),
-    customFormat
+    scopeBindings(),
+    winston.format((info) => {
+      info[targetLogger] = logScope.getStore()?.logger ?? defaultLogger;
+      return info;
+    })()
   ),
-  transports: [
-    new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.timestamp({ format: "YYYY-MM-DD HH:mm:ss" }),
-        customFormat
-      ),
-    }),
-  ],
+  transports: [objectTransport((info) => (info[targetLogger] as winston.Logger).write(info))],
 });
 
 /**
- * Get a logger for a specific component
+ * Get a logger for a specific component. Without a level, entries go to the logger of
+ * the agent handling the current request, or to a default logger configured by the
+ * LOG_LEVEL and LOG_FORMAT environment variables.
+ */
+export function getLogger(component: string, level?: string): winston.Logger {
+  const logger = level === undefined ? scopedLogger : createLogger({ level });
+  return logger.child({ component });
+}
+
+/**
+ * Run a function with a log scope: entries logged by SDK components during the call go
+ * to `logger`, and all entries carry `bindings`
  */
-export function getLogger(component: string, _level?: string): winston.Logger {
-  // Always use the root logger and just create a child - ignore the level parameter for now
-  // The level can be controlled via LOG_LEVEL environment variable
-  return rootLogger.child({ component });
+export function runWithLogScope<T>(
+  logger: winston.Logger,
+  bindings: Record<string, unknown>,
+  fn: () => T
+): T {
+  return logScope.run({ logger, bindings }, fn);
 }
@@ -0,0 +1,337 @@
+/**
+ * Prometheus metrics for agents.
+ *
+ * A small registry of counters, gauges and histograms rendered in the Prometheus
+ * text exposition format, plus the agent's own series. LLM and HTTP call series are
+ * derived from the `llm_call` and `api_call` events of each request.
+ */
+
+import type { Event } from "./protocol.js";
+
+/** `path` label of requests to paths not listed in `MetricsOptions.paths` */
+const OTHER_PATH_LABEL = "other";
+
+/** Default histogram buckets in seconds, sized for both HTTP and LLM latencies */
+export const DEFAULT_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export type MetricLabels = Record<string, string | number>;
+
+export interface MetricsOptions {
+  /** Serve the metrics on the Express app (default: true) */
+  endpoint?: boolean | undefined;
+  /** Path of the metrics route (default: "/metrics") */
+  path?: string | undefined;
+  /** Registry to record to, e.g. one shared by several agents (default: a new registry) */
+  registry?: MetricsRegistry | undefined;
+  /**
+   * Request paths recorded as their own `path` label (default: ["/"]). The agent answers
+   * POSTs on any path, so other paths share the "other" label to keep the series bounded.
+   */
+  paths?: string[] | undefined;
+}
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+abstract class Metric {
+  protected readonly values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType
+  ) {}
+
+  protected add(labels: MetricLabels, value: number): void {
+    const key = labelString(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ];
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${labelString(labels)} ${value}`
+    );
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.add(labels, value);
+  }
+}
+
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.add(labels, value);
+  }
+
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.add(labels, -value);
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.values.set(labelString(labels), { labels, value });
+  }
+}
+
+export class Histogram extends Metric {
+  private readonly series = new Map<
+    string,
+    { labels: MetricLabels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelString(labels);
+    const series = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    for (const [index, bound] of this.buckets.entries()) {
+      if (value <= bound) {
+        series.counts[index] = (series.counts[index] ?? 0) + 1;
+      }
+    }
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  protected override samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${labelString({ ...labels, le: bound })} ${counts[index] ?? 0}`
+      ),
+      `${this.name}_bucket${labelString({ ...labels, le: "+Inf" })} ${count}`,
+      `${this.name}_sum${labelString(labels)} ${sum}`,
+      `${this.name}_count${labelString(labels)} ${count}`,
+    ]);
+  }
+}
+
+/**
+ * Collection of metrics rendered together in the Prometheus text format
+ */
+export class MetricsRegistry {
+  /** Content type of `render()` output */
+  readonly contentType = "text/plain; version=0.0.4; charset=utf-8";
+  private readonly metrics = new Map<string, Metric>();
+
+  /**
+   * Get or create a counter
+   */
+  counter(name: string, help: string): Counter {
+    return this.register(name, Counter, () => new Counter(name, help));
+  }
+
+  /**
+   * Get or create a gauge
+   */
+  gauge(name: string, help: string): Gauge {
+    return this.register(name, Gauge, () => new Gauge(name, help));
+  }
+
+  /**
+   * Get or create a histogram
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, Histogram, () => new Histogram(name, help, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines = [...this.metrics.values()].flatMap((metric) => metric.render());
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  private register<T extends Metric>(
+    name: string,
+    type: abstract new (...args: never[]) => T,
+    create: () => T
+  ): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Outcome of a request: answered, answered with the deadline response, rejected as
+ * invalid, or failed
+ */
+export type RequestOutcome = "success" | "deadline" | "invalid" | "error";
+
+/**
+ * Concurrency limit a caller waited for: of requests, of an LLM model or of an HTTP host
+ */
+export type ConcurrencyQueue = "request" | "llm" | "http";
+
+/**
+ * The agent's series, recorded to a registry
+ */
+export class AgentMetrics {
+  private readonly requests: Counter;
+  private readonly requestDuration: Histogram;
+  private readonly requestsInFlight: Gauge;
+  private readonly commands: Counter;
+  private readonly llmCalls: Counter;
+  private readonly llmCallDuration: Histogram;
+  private readonly llmTokens: Counter;
+  private readonly httpCalls: Counter;
+  private readonly httpCallDuration: Histogram;
+  private readonly queueWait: Histogram;
+  private readonly requestsShed: Counter;
+  private readonly paths: Set<string>;
+
+  constructor(
+    readonly registry: MetricsRegistry,
+    paths: string[] = ["/"]
+  ) {
+    this.paths = new Set(paths);
+    this.requests = registry.counter("zowie_agent_requests_total", "Requests handled");
+    this.requestDuration = registry.histogram(
+      "zowie_agent_request_duration_seconds",
+      "Request handling duration in seconds"
+    );
+    this.requestsInFlight = registry.gauge(
+      "zowie_agent_requests_in_flight",
+      "Requests currently being handled"
+    );
+    this.commands = registry.counter("zowie_agent_commands_total", "Commands returned by type");
+    this.llmCalls = registry.counter("zowie_agent_llm_calls_total", "LLM calls");
+    this.llmCallDuration = registry.histogram(
+      "zowie_agent_llm_call_duration_seconds",
+      "LLM call duration in seconds"
+    );
+    this.llmTokens = registry.counter("zowie_agent_llm_tokens_total", "LLM tokens by type");
+    this.httpCalls = registry.counter("zowie_agent_http_calls_total", "Outgoing HTTP calls");
+    this.httpCallDuration = registry.histogram(
+      "zowie_agent_http_call_duration_seconds",
+      "Outgoing HTTP call duration in seconds"
+    );
+    this.queueWait = registry.histogram(
+      "zowie_agent_queue_wait_seconds",
+      "Time spent waiting for a concurrency slot in seconds"
+    );
+    this.requestsShed = registry.counter(
+      "zowie_agent_requests_shed_total",
+      "Requests rejected because the request queue was full"
+    );
+    // Expose the gauge before the first request
+    this.requestsInFlight.inc({}, 0);
+  }
+
+  requestStarted(): void {
+    this.requestsInFlight.inc();
+  }
+
+  /**
+   * Record the time a request, LLM call or HTTP call waited for its concurrency slot
+   */
+  queueWaited(queue: ConcurrencyQueue, waitMs: number, labels: MetricLabels = {}): void {
+    this.queueWait.observe({ queue, ...labels }, waitMs / 1000);
+  }
+
+  requestShed(path: string): void {
+    this.requestsShed.inc({ path: this.pathLabel(path) });
+  }
+
+  /**
+   * Record a finished request along with the LLM and HTTP calls it made
+   */
+  requestFinished(
+    path: string,
+    outcome: RequestOutcome,
+    durationMs: number,
+    commandType: string | undefined,
+    events: Event[]
+  ): void {
+    this.requestsInFlight.dec();
+    const labels = { path: this.pathLabel(path), outcome };
+    this.requests.inc(labels);
+    this.requestDuration.observe(labels, durationMs / 1000);
+    if (commandType) {
+      this.commands.inc({ type: commandType });
+    }
+
+    for (const event of events) {
+      if (event.type === "llm_call") {
+        const { model, durationInMillis, inputTokens, outputTokens } = event.payload;
+        this.llmCalls.inc({ model });
+        this.llmCallDuration.observe({ model }, durationInMillis / 1000);
+        if (inputTokens !== undefined) {
+          this.llmTokens.inc({ model, type: "input" }, inputTokens);
+        }
+        if (outputTokens !== undefined) {
+          this.llmTokens.inc({ model, type: "output" }, outputTokens);
+        }
+      } else if (event.type === "api_call") {
+        const { url, responseStatusCode, durationInMillis } = event.payload;
+        const labels = { host: hostOf(url), status: responseStatusCode };
+        this.httpCalls.inc(labels);
+        this.httpCallDuration.observe(labels, durationInMillis / 1000);
+      }
+    }
+  }
+
+  private pathLabel(path: string): string {
+    return this.paths.has(path) ? path : OTHER_PATH_LABEL;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "unknown";
+  }
+}
+
+function labelString(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const escaped = entries.map(
+    ([name, value]) =>
+      `${name}="${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return `{${escaped.join(",")}}`;
+}
@@ -88,6 +88,11 @@ export const LLMCallEventPayloadSchema = z.object({
   response: z.string(),
   model: z.string(),
   durationInMillis: z.number(),
+  inputTokens: z.number().optional(),
+  outputTokens: z.number().optional(),
+  cachedTokens: z.number().optional(),
+  reasoningTokens: z.number().optional(),
+  estimatedCost: z.number().optional(),
 });
 
 export type LLMCallEventPayload = z.infer<typeof LLMCallEventPayloadSchema>;
@@ -119,7 +124,44 @@ export const APICallEventSchema = z.object({
 
 export type APICallEvent = z.infer<typeof APICallEventSchema>;
 
-export const EventSchema = z.discriminatedUnion("type", [LLMCallEventSchema, APICallEventSchema]);
+export const ToolCallEventPayloadSchema = z.object({
+  toolName: z.string(),
+  input: z.string(),
+  output: z.string(),
+  durationInMillis: z.number(),
+});
+
+export type ToolCallEventPayload = z.infer<typeof ToolCallEventPayloadSchema>;
+
+export const ToolCallEventSchema = z.object({
+  type: z.literal("tool_call"),
+  payload: ToolCallEventPayloadSchema,
+});
+
+export type ToolCallEvent = z.infer<typeof ToolCallEventSchema>;
+
+export const ErrorEventPayloadSchema = z.object({
+  errorType: z.string(),
+  message: z.string(),
+  /** Whether `Agent.onError` turned the error into a response */
+  handled: z.boolean(),
+});
+
+export type ErrorEventPayload = z.infer<typeof ErrorEventPayloadSchema>;
+
+export const ErrorEventSchema = z.object({
+  type: z.literal("error"),
+  payload: ErrorEventPayloadSchema,
+});
+
+export type ErrorEvent = z.infer<typeof ErrorEventSchema>;
+
+export const EventSchema = z.discriminatedUnion("type", [
+  LLMCallEventSchema,
+  APICallEventSchema,
+  ToolCallEventSchema,
+  ErrorEventSchema,
+]);
 
 export type Event = z.infer<typeof EventSchema>;
 
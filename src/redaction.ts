@@ -0,0 +1,223 @@
+/**
+ * Sensitive data redaction for events sent to Supervisor.
+ *
+ * Events are recorded in full while a request is handled and redacted once, when
+ * the response leaves the agent, so every source (HTTP client, LLM providers,
+ * manually logged calls) is covered the same way.
+ */
+
+import type { Event } from "./protocol.js";
+
+/** Headers redacted when `RedactionConfig.headers` is not set */
+export const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+
+const DEFAULT_REPLACEMENT = "[REDACTED]";
+
+/**
+ * Built-in detectors for sensitive values in free text
+ */
+export type RedactionDetector = "email" | "cardNumber" | "phoneNumber";
+
+interface TextPattern {
+  pattern: RegExp;
+  /** Further check of a match, to cut false positives of broad patterns */
+  accept?: (match: string) => boolean;
+}
+
+const DETECTOR_PATTERNS: Record<RedactionDetector, TextPattern> = {
+  email: { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  // 13-19 digits, optionally grouped with spaces or dashes
+  cardNumber: { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: passesLuhn },
+  // 9-15 digits (E.164), so dates such as 2025-12-05 are left alone
+  phoneNumber: {
+    pattern: /(?<![\w+])\+?\d[\d ().-]{6,}\d\b/g,
+    accept: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 9 && digits <= 15;
+    },
+  },
+};
+
+export interface RedactionConfig {
+  /** Header names (case-insensitive) whose values are replaced (default: `DEFAULT_REDACTED_HEADERS`) */
+  headers?: string[];
+  /**
+   * Paths of JSON request/response body fields whose values are replaced, e.g.
+   * `"password"`, `"$.user.ssn"`, `"cards[*].number"`. `*` matches any key or index.
+   */
+  bodyPaths?: string[];
+  /** Built-in detectors applied to all event text (default: none) */
+  detectors?: RedactionDetector[];
+  /** Additional patterns applied to all event text */
+  patterns?: RegExp[];
+  /** Replacement for redacted values (default: "[REDACTED]") */
+  replacement?: string;
+}
+
+/**
+ * Applies a `RedactionConfig` to events
+ */
+export class Redactor {
+  private readonly headers: Set<string>;
+  private readonly bodyPaths: string[][];
+  private readonly patterns: TextPattern[];
+  private readonly replacement: string;
+
+  constructor(config: RedactionConfig = {}) {
+    this.headers = new Set(
+      (config.headers ?? DEFAULT_REDACTED_HEADERS).map((name) => name.toLowerCase())
+    );
+    this.bodyPaths = (config.bodyPaths ?? []).map(parsePath);
+    this.patterns = [
+      // Card numbers run before phone numbers, which would otherwise match their digits
+      ...(["cardNumber", "email", "phoneNumber"] as const)
+        .filter((detector) => config.detectors?.includes(detector))
+        .map((detector) => DETECTOR_PATTERNS[detector]),
+      ...(config.patterns ?? []).map((pattern) => ({
+        pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+      })),
+    ];
+    this.replacement = config.replacement ?? DEFAULT_REPLACEMENT;
+  }
+
+  /**
+   * Return a redacted copy of an event
+   */
+  redactEvent(event: Event): Event {
+    switch (event.type) {
+      case "api_call": {
+        const { payload } = event;
+        return {
+          type: "api_call",
+          payload: {
+            ...payload,
+            url: this.redactText(payload.url),
+            requestHeaders: this.redactHeaders(payload.requestHeaders),
+            requestBody: this.redactBody(payload.requestBody),
+            responseHeaders: this.redactHeaders(payload.responseHeaders),
+            responseBody: this.redactBody(payload.responseBody),
+          },
+        };
+      }
+      case "llm_call":
+        return {
+          type: "llm_call",
+          payload: {
+            ...event.payload,
+            prompt: this.redactText(event.payload.prompt),
+            response: this.redactText(event.payload.response),
+          },
+        };
+      case "tool_call":
+        return {
+          type: "tool_call",
+          payload: {
+            ...event.payload,
+            input: this.redactText(event.payload.input),
+            output: this.redactText(event.payload.output),
+          },
+        };
+      case "error":
+        return {
+          type: "error",
+          payload: { ...event.payload, message: this.redactText(event.payload.message) },
+        };
+    }
+  }
+
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name,
+        this.headers.has(name.toLowerCase()) ? this.replacement : this.redactText(value),
+      ])
+    );
+  }
+
+  /**
+   * Mask configured fields of a JSON body, then apply the text detectors. Bodies that
+   * are not JSON only go through the detectors.
+   */
+  redactBody(body: string | undefined): string | undefined {
+    if (body === undefined) {
+      return undefined;
+    }
+    if (this.bodyPaths.length === 0) {
+      return this.redactText(body);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return this.redactText(body);
+    }
+    for (const path of this.bodyPaths) {
+      this.maskPath(parsed, path);
+    }
+    return this.redactText(JSON.stringify(parsed));
+  }
+
+  redactText(text: string): string {
+    let result = text;
+    for (const { pattern, accept } of this.patterns) {
+      result = result.replace(pattern, (match) =>
+        accept && !accept(match) ? match : this.replacement
+      );
+    }
+    return result;
+  }
+
+  private maskPath(value: unknown, path: string[]): void {
+    const [segment, ...rest] = path;
+    if (segment === undefined || typeof value !== "object" || value === null) {
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    const keys = segment === "*" ? Object.keys(record) : [segment];
+    for (const key of keys) {
+      if (!(key in record)) {
+        continue;
+      }
+      if (rest.length === 0) {
+        record[key] = this.replacement;
+      } else {
+        this.maskPath(record[key], rest);
+      }
+    }
+  }
+}
+
+/**
+ * Split `$.a.b[0].c` / `a.b[*]` into path segments
+ */
+function parsePath(path: string): string[] {
+  return path
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\*|\d+)\]/g, ".$1")
+    .split(".")
+    .filter((segment) => segment.length > 0);
+}
+
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,157 @@
+/**
+ * Async-local request scope.
+ *
+ * `Agent.handleRequest` runs each request inside a scope carrying its metadata,
+ * events and correlation IDs. The shared `LLM` and `HTTPClient` instances read it to
+ * record events and propagate correlation headers without them being passed along.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import type { Event, Metadata } from "./protocol.js";
+import { activeSpanContext } from "./telemetry.js";
+
+/** Correlation headers that `HTTPClient` can add to outgoing requests */
+export type CorrelationHeader = "x-request-id" | "traceparent";
+
+/**
+ * W3C Trace Context of a request
+ */
+export interface TraceContext {
+  /** 32 hex characters shared by every span of the trace */
+  traceId: string;
+  /** 16 hex characters identifying the request's span */
+  spanId: string;
+  /** Trace flags, "01" when sampled */
+  traceFlags: string;
+}
+
+export interface RequestScope {
+  metadata: Metadata;
+  /** Events of the request, as returned to Supervisor */
+  events: Event[];
+  /** The incoming `X-Request-Id` header, or the request ID from the metadata */
+  correlationId: string;
+  /**
+   * The active OpenTelemetry span when an SDK is registered; otherwise continues the
+   * incoming `traceparent` header, or starts a new trace
+   */
+  trace: TraceContext;
+  /** Aborted when the request passes its deadline or is cancelled by a graceful shutdown */
+  signal: AbortSignal;
+}
+
+const requestScope = new AsyncLocalStorage<RequestScope>();
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Build the scope of a request from its metadata and HTTP headers. Called inside the
+ * request's span, whose IDs take precedence over the incoming `traceparent`.
+ */
+export function createRequestScope(
+  metadata: Metadata,
+  events: Event[],
+  headers: Record<string, string>,
+  signal: AbortSignal = new AbortController().signal
+): RequestScope {
+  const incoming = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const correlationId = incoming["x-request-id"] || metadata.requestId;
+
+  const span = activeSpanContext();
+  if (span) {
+    return {
+      metadata,
+      events,
+      correlationId,
+      trace: {
+        traceId: span.traceId,
+        spanId: span.spanId,
+        traceFlags: formatFlags(span.traceFlags),
+      },
+      signal,
+    };
+  }
+
+  // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation for Record<string, any>
+  const parent = TRACEPARENT_PATTERN.exec(incoming["traceparent"]?.trim().toLowerCase() ?? "");
+  const traceId = parent?.[1] && !/^0+$/.test(parent[1]) ? parent[1] : randomHex(16);
+  return {
+    metadata,
+    events,
+    correlationId,
+    trace: { traceId, spanId: randomHex(8), traceFlags: parent?.[3] ?? "01" },
+    signal,
+  };
+}
+
+/**
+ * Scope of the request being handled, if any
+ */
+export function getRequestScope(): RequestScope | undefined {
+  return requestScope.getStore();
+}
+
+/**
+ * Run a function inside a request scope
+ */
+export function runInRequestScope<T>(scope: RequestScope, fn: () => T): T {
+  return requestScope.run(scope, fn);
+}
+
+/**
+ * Events of the current request, or a fresh list outside of one. Used as the default
+ * `events` argument of `LLM` and `HTTPClient` calls.
+ */
+export function currentEvents(): Event[] {
+  return requestScope.getStore()?.events ?? [];
+}
+
+/**
+ * Combine a signal with the abort signal of the current request, so that LLM and HTTP
+ * calls are cancelled along with the request
+ */
+export function withRequestSignal(signal: AbortSignal): AbortSignal;
+export function withRequestSignal(signal?: AbortSignal): AbortSignal | undefined;
+export function withRequestSignal(signal?: AbortSignal): AbortSignal | undefined {
+  const requestSignal = requestScope.getStore()?.signal;
+  if (!requestSignal) {
+    return signal;
+  }
+  return signal ? AbortSignal.any([signal, requestSignal]) : requestSignal;
+}
+
+/**
+ * Correlation headers for an outgoing request made in the current scope. The
+ * `traceparent` names the active OpenTelemetry span (the request's HTTP span) when an
+ * SDK is registered, or a new span ID child of the request's span otherwise.
+ */
+export function correlationHeaders(names: CorrelationHeader[]): Record<string, string> {
+  const scope = requestScope.getStore();
+  if (!scope) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {};
+  if (names.includes("x-request-id")) {
+    headers["X-Request-Id"] = scope.correlationId;
+  }
+  if (names.includes("traceparent")) {
+    const span = activeSpanContext();
+    // biome-ignore lint/complexity/useLiteralKeys: noPropertyAccessFromIndexSignature requires bracket notation for Record<string, any>
+    headers["traceparent"] = span
+      ? `00-${span.traceId}-${span.spanId}-${formatFlags(span.traceFlags)}`
+      : `00-${scope.trace.traceId}-${randomHex(8)}-${scope.trace.traceFlags}`;
+  }
+  return headers;
+}
+
+function formatFlags(flags: number): string {
+  return flags.toString(16).padStart(2, "0");
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
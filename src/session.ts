@@ -0,0 +1,207 @@
+/**
+ * Conversation sessions: agent-owned state kept across turns of a conversation.
+ *
+ * Sessions are keyed by `metadata.conversationId`, loaded from the configured
+ * `SessionStore` before `handle` runs and saved after it returns.
+ */
+
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getTimeMs } from "./utils.js";
+
+/** Default time-to-live of a session since it was last saved (24 hours) */
+export const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Default maximum number of sessions kept by the in-memory store */
+export const DEFAULT_MAX_SESSIONS = 10_000;
+
+/**
+ * Session state. Values must be JSON-serializable to work with every store.
+ */
+export type SessionData = Record<string, unknown>;
+
+/**
+ * Storage backend for conversation sessions
+ */
+export interface SessionStore {
+  /** Load a session, or undefined when it does not exist or has expired */
+  get(sessionId: string): Promise<SessionData | undefined>;
+  /** Save a session, replacing any previous state */
+  set(sessionId: string, data: SessionData): Promise<void>;
+  /** Remove a session */
+  delete(sessionId: string): Promise<void>;
+}
+
+/**
+ * Typed view over the state of one conversation, exposed as `context.session`
+ */
+export class Session<TData extends object = SessionData> {
+  public readonly id: string;
+  private data: Partial<TData>;
+  private modified = false;
+
+  constructor(id: string, data: Partial<TData> = {}) {
+    this.id = id;
+    this.data = data;
+  }
+
+  get<K extends keyof TData>(key: K): TData[K] | undefined {
+    return this.data[key];
+  }
+
+  set<K extends keyof TData>(key: K, value: TData[K]): void {
+    this.data[key] = value;
+    this.modified = true;
+  }
+
+  has(key: keyof TData): boolean {
+    return key in this.data;
+  }
+
+  delete(key: keyof TData): void {
+    if (key in this.data) {
+      delete this.data[key];
+      this.modified = true;
+    }
+  }
+
+  /** Remove all values; the session is deleted from the store when saved empty */
+  clear(): void {
+    this.data = {};
+    this.modified = true;
+  }
+
+  /** Whether the session changed since it was loaded */
+  get isModified(): boolean {
+    return this.modified;
+  }
+
+  toJSON(): Partial<TData> {
+    return this.data;
+  }
+}
+
+interface InMemoryEntry {
+  data: SessionData;
+  expiresAt: number;
+}
+
+/**
+ * Session store kept in process memory. Sessions expire `ttlMs` after they were
+ * last saved, and the least recently used sessions are evicted beyond
+ * `maxSessions`. State is lost on restart and not shared between instances.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private readonly sessions = new Map<string, InMemoryEntry>();
+
+  constructor(
+    private readonly ttlMs = DEFAULT_SESSION_TTL_MS,
+    private readonly maxSessions = DEFAULT_MAX_SESSIONS
+  ) {}
+
+  async get(sessionId: string): Promise<SessionData | undefined> {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= getTimeMs()) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used (Map keeps insertion order)
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, entry);
+    return structuredClone(entry.data);
+  }
+
+  async set(sessionId: string, data: SessionData): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, {
+      data: structuredClone(data),
+      expiresAt: getTimeMs() + this.ttlMs,
+    });
+
+    for (const oldestId of this.sessions.keys()) {
+      if (this.sessions.size <= this.maxSessions) {
+        break;
+      }
+      this.sessions.delete(oldestId);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  /** Number of sessions currently held, including expired ones not yet evicted */
+  get size(): number {
+    return this.sessions.size;
+  }
+}
+
+interface FileEntry {
+  expiresAt: number;
+  data: SessionData;
+}
+
+/**
+ * Session store writing one JSON file per session to a directory. Sessions
+ * expire `ttlMs` after they were last saved; expired files are removed when read.
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(
+    private readonly directory: string,
+    private readonly ttlMs = DEFAULT_SESSION_TTL_MS
+  ) {}
+
+  async get(sessionId: string): Promise<SessionData | undefined> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath(sessionId), "utf8");
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const entry = JSON.parse(content) as FileEntry;
+    if (entry.expiresAt <= getTimeMs()) {
+      await this.delete(sessionId);
+      return undefined;
+    }
+    return entry.data;
+  }
+
+  async set(sessionId: string, data: SessionData): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const entry: FileEntry = { expiresAt: getTimeMs() + this.ttlMs, data };
+    const filePath = this.filePath(sessionId);
+    // Write to a temporary file first so readers never see a partial session
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entry), "utf8");
+    await rename(tempPath, filePath);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await unlink(this.filePath(sessionId));
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  private filePath(sessionId: string): string {
+    return join(this.directory, `${encodeURIComponent(sessionId)}.json`);
+  }
+}
+
+function isNotFoundError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "ENOENT";
+}
@@ -0,0 +1,87 @@
+/**
+ * OpenTelemetry instrumentation.
+ *
+ * Spans are created through `@opentelemetry/api` only, so they are no-ops unless the
+ * application registers an OpenTelemetry SDK. Attribute names follow the OpenTelemetry
+ * semantic conventions for HTTP and generative AI where they exist.
+ */
+
+import {
+  type Attributes,
+  type Context,
+  context,
+  propagation,
+  type Span,
+  type SpanContext,
+  type SpanKind,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+
+const TRACER_NAME = "@zowieteam/zowie-agent-sdk";
+
+/**
+ * Run an operation inside an active span, recording a thrown error on the span
+ */
+export async function withSpan<T>(
+  name: string,
+  kind: SpanKind,
+  attributes: Attributes,
+  operation: (span: Span) => Promise<T>,
+  parentContext: Context = context.active()
+): Promise<T> {
+  return trace
+    .getTracer(TRACER_NAME)
+    .startActiveSpan(name, { kind, attributes }, parentContext, async (span) => {
+      try {
+        return await operation(span);
+      } catch (error) {
+        recordSpanError(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+}
+
+/**
+ * Start a span that is not made active, for operations that outlive a single call
+ * such as streams. The caller ends it.
+ */
+export function startSpan(name: string, kind: SpanKind, attributes: Attributes): Span {
+  return trace.getTracer(TRACER_NAME).startSpan(name, { kind, attributes });
+}
+
+/**
+ * Mark the span as failed with the error
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  const err = error instanceof Error ? error : new Error(String(error));
+  span.recordException(err);
+  span.setAttribute("error.type", err.name);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+}
+
+/**
+ * Parent context of a request: the active span when there is one (e.g. from HTTP
+ * server instrumentation), otherwise the trace propagated in the request headers
+ */
+export function requestParentContext(headers: Record<string, string>): Context {
+  const active = context.active();
+  if (trace.getSpan(active)) {
+    return active;
+  }
+  const carrier = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  return propagation.extract(active, carrier);
+}
+
+/**
+ * IDs of the active span, when there is one with a valid context (i.e. an
+ * OpenTelemetry SDK is registered or a trace was propagated to the request)
+ */
+export function activeSpanContext(): SpanContext | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && trace.isSpanContextValid(spanContext) ? spanContext : undefined;
+}
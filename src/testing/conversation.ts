@@ -0,0 +1,120 @@
+/**
+ * Multi-turn conversation driver for testing agents end to end
+ */
+
+import type { Agent, HandleRequestOptions } from "../agent.js";
+import type { ExternalAgentResponse, IncomingRequest, Message, Persona } from "../protocol.js";
+
+export interface CreateRequestOptions {
+  /** Request ID (default: "<conversationId>-<sequence>") */
+  requestId?: string;
+  /** Conversation ID, keying `context.session` (default: "test-conversation") */
+  conversationId?: string | undefined;
+  /** Chatbot ID (default: "test-chatbot") */
+  chatbotId?: string | undefined;
+  /** Position of the request in the conversation, starting at 1 (default: 1) */
+  sequence?: number;
+  persona?: Persona | undefined;
+  context?: string | undefined;
+  /** Messages preceding the user message */
+  history?: Message[];
+}
+
+export interface RunConversationOptions
+  extends HandleRequestOptions,
+    Omit<CreateRequestOptions, "requestId" | "sequence"> {}
+
+/**
+ * One turn: the request sent to the agent and its response
+ */
+export interface ConversationTurn {
+  request: IncomingRequest;
+  response: ExternalAgentResponse;
+}
+
+/**
+ * Build a request as the Decision Engine sends it, ending with a user message. For
+ * requests sent to `agent.app` or `agent.fetch`, or to `handleRequest` directly.
+ *
+ * @example
+ * ```typescript
+ * const response = await agent.handleRequest(createRequest("Where is my order?"));
+ * ```
+ */
+export function createRequest(
+  userMessage = "Hello",
+  options: CreateRequestOptions = {}
+): IncomingRequest {
+  const {
+    conversationId = "test-conversation",
+    chatbotId = "test-chatbot",
+    sequence = 1,
+    requestId = `${conversationId}-${sequence}`,
+    persona,
+    context,
+    history = [],
+  } = options;
+  return {
+    metadata: { requestId, chatbotId, conversationId, sequence },
+    messages: [
+      ...history,
+      { author: "User", content: userMessage, timestamp: new Date().toISOString() },
+    ],
+    ...(persona && { persona }),
+    ...(context !== undefined && { context }),
+  };
+}
+
+/**
+ * Send each user message to the agent through `handleRequest`, as the Decision Engine
+ * would: every request carries the conversation so far, including the agent's previous
+ * replies. Returns the request and response of every turn.
+ *
+ * @example
+ * ```typescript
+ * const turns = await runConversation(agent, ["Hi", "Where is my order 123456?"]);
+ * expect(turns[1]?.response.command).toEqual({
+ *   type: "send_message",
+ *   payload: { message: "It has shipped." },
+ * });
+ * ```
+ */
+export async function runConversation(
+  agent: Pick<Agent, "handleRequest">,
+  userMessages: string[],
+  options: RunConversationOptions = {}
+): Promise<ConversationTurn[]> {
+  const {
+    conversationId,
+    chatbotId,
+    persona,
+    context,
+    history = [],
+    ...handleRequestOptions
+  } = options;
+  let messages = history;
+  const turns: ConversationTurn[] = [];
+
+  for (const [index, content] of userMessages.entries()) {
+    const request = createRequest(content, {
+      conversationId,
+      chatbotId,
+      sequence: index + 1,
+      persona,
+      context,
+      history: messages,
+    });
+    const response = await agent.handleRequest(request, handleRequestOptions);
+    turns.push({ request, response });
+
+    const reply = response.command.payload.message;
+    messages = reply
+      ? [
+          ...request.messages,
+          { author: "Chatbot", content: reply, timestamp: new Date().toISOString() },
+        ]
+      : request.messages;
+  }
+
+  return turns;
+}
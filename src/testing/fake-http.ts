@@ -0,0 +1,183 @@
+/**
+ * Route-based fake of the network for testing `context.http` calls
+ */
+
+/**
+ * A request received by the fake, as matched against routes and recorded in `requests`
+ */
+export interface FakeHTTPRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Request body, parsed as JSON when possible */
+  body: unknown;
+}
+
+/**
+ * Response description; objects and arrays in `body` are sent as JSON
+ */
+export interface FakeHTTPResponseInit {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Delay before responding, e.g. to exercise timeouts */
+  delayMs?: number;
+}
+
+/**
+ * What a route answers: a response description, a `Response`, or an `Error` that
+ * fails the request like a network error
+ */
+export type FakeHTTPReply = FakeHTTPResponseInit | Response | Error;
+
+export type FakeHTTPResponder =
+  | FakeHTTPReply
+  | ((request: FakeHTTPRequest) => FakeHTTPReply | Promise<FakeHTTPReply>);
+
+/**
+ * Matches a request URL: the exact URL (with or without its query string), a
+ * pattern, or a predicate
+ */
+export type FakeHTTPMatcher = string | RegExp | ((request: FakeHTTPRequest) => boolean);
+
+interface FakeHTTPRoute {
+  method: string;
+  matcher: FakeHTTPMatcher;
+  responder: FakeHTTPResponder;
+}
+
+/**
+ * Fake network for `HTTPClient`. Pass `fakeHttp.fetch` as the `httpFetch` agent option;
+ * requests go through the real client, so retries and `api_call` events behave as in
+ * production. Requests without a matching route fail.
+ *
+ * @example
+ * ```typescript
+ * const http = new FakeHTTP()
+ *   .get("https://api.example.com/orders/1", { body: { status: "shipped" } })
+ *   .post(/\/refunds$/, (request) => ({ status: 201, body: { amount: request.body } }));
+ * const agent = new MyAgent({ llmConfig, httpFetch: http.fetch });
+ * ```
+ */
+export class FakeHTTP {
+  /** Every request made, in order */
+  public readonly requests: FakeHTTPRequest[] = [];
+  private readonly routes: FakeHTTPRoute[] = [];
+
+  /**
+   * Answer matching requests; routes are tried in the order they were added.
+   * Use `"*"` as the method to match any method.
+   */
+  on(method: string, matcher: FakeHTTPMatcher, responder: FakeHTTPResponder): this {
+    this.routes.push({ method: method.toUpperCase(), matcher, responder });
+    return this;
+  }
+
+  get(matcher: FakeHTTPMatcher, responder: FakeHTTPResponder): this {
+    return this.on("GET", matcher, responder);
+  }
+
+  post(matcher: FakeHTTPMatcher, responder: FakeHTTPResponder): this {
+    return this.on("POST", matcher, responder);
+  }
+
+  put(matcher: FakeHTTPMatcher, responder: FakeHTTPResponder): this {
+    return this.on("PUT", matcher, responder);
+  }
+
+  patch(matcher: FakeHTTPMatcher, responder: FakeHTTPResponder): this {
+    return this.on("PATCH", matcher, responder);
+  }
+
+  delete(matcher: FakeHTTPMatcher, responder: FakeHTTPResponder): this {
+    return this.on("DELETE", matcher, responder);
+  }
+
+  /**
+   * `fetch` implementation answering from the routes
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = await toFakeRequest(input, init);
+    this.requests.push(request);
+
+    const route = this.routes.find(
+      (candidate) =>
+        (candidate.method === "*" || candidate.method === request.method) &&
+        matches(candidate.matcher, request)
+    );
+    if (!route) {
+      throw new Error(`No fake HTTP route for ${request.method} ${request.url}`);
+    }
+
+    const reply =
+      typeof route.responder === "function" ? await route.responder(request) : route.responder;
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    if (reply instanceof Response) {
+      return reply;
+    }
+
+    if (reply.delayMs) {
+      await delay(reply.delayMs, init?.signal ?? undefined);
+    }
+    return toResponse(reply);
+  };
+}
+
+async function toFakeRequest(
+  input: string | URL | Request,
+  init: RequestInit | undefined
+): Promise<FakeHTTPRequest> {
+  const request = new Request(input, init);
+  const text = request.body ? await request.text() : undefined;
+  let body: unknown = text;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON, keep the text
+    }
+  }
+
+  return {
+    method: request.method,
+    url: request.url,
+    headers: Object.fromEntries(request.headers.entries()),
+    body,
+  };
+}
+
+function matches(matcher: FakeHTTPMatcher, request: FakeHTTPRequest): boolean {
+  if (typeof matcher === "string") {
+    return request.url === matcher || request.url.split("?")[0] === matcher;
+  }
+  if (matcher instanceof RegExp) {
+    return matcher.test(request.url);
+  }
+  return matcher(request);
+}
+
+function toResponse(reply: FakeHTTPResponseInit): Response {
+  const headers = new Headers(reply.headers);
+  let body: string | undefined;
+  if (typeof reply.body === "string") {
+    body = reply.body;
+  } else if (reply.body !== undefined) {
+    body = JSON.stringify(reply.body);
+    if (!headers.has("content-type")) {
+      headers.set("content-type", "application/json");
+    }
+  }
+  return new Response(body, { status: reply.status ?? 200, headers });
+}
+
+function delay(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
@@ -0,0 +1,420 @@
+/**
+ * Scripted LLM provider for testing agents without calling a model API
+ */
+
+import type { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ValidationError } from "../errors.js";
+import { BaseLLMProvider, prepareMessagesForLLM } from "../llm/base.js";
+import type { LLMTool } from "../llm/tools.js";
+import type { Event, Message, Persona } from "../protocol.js";
+
+const DEFAULT_FAKE_MODEL = "fake-model";
+
+export type FakeLLMMethod =
+  | "generateContent"
+  | "generateStructuredContent"
+  | "generateContentWithCandidates"
+  | "generateStructuredContentWithCandidates"
+  | "generateContentWithTools"
+  | "streamContent";
+
+/**
+ * A model call received by the fake, as matched against rules and recorded in `calls`
+ */
+export interface FakeLLMRequest {
+  method: FakeLLMMethod;
+  messages: Message[];
+  /** System instruction as sent to a real model, including persona and context */
+  systemInstruction: string;
+  /** Content of the last message, usually what the user just said */
+  lastMessage: string;
+  parameters: Record<string, unknown> | undefined;
+  /** Names of the tools offered to the model (`generateContentWithTools` only) */
+  tools: string[];
+  /** Results of the tool calls made so far in this tool-calling run */
+  toolResults: Array<{ name: string; output: string }>;
+}
+
+/**
+ * Tool calls the fake model makes before its final answer (`generateContentWithTools` only)
+ */
+export interface FakeToolCalls {
+  toolCalls: Array<{ name: string; input: unknown }>;
+}
+
+/**
+ * What the fake model answers: text, a structured value (object or JSON text), tool
+ * calls, or an `Error` to throw
+ */
+export type FakeLLMReply = string | object | Error | FakeToolCalls;
+
+export type FakeLLMResponse =
+  | FakeLLMReply
+  | ((request: FakeLLMRequest) => FakeLLMReply | Promise<FakeLLMReply>);
+
+/**
+ * Matches a request: a substring or pattern of the last message, or a predicate
+ */
+export type FakeLLMMatcher = string | RegExp | ((request: FakeLLMRequest) => boolean);
+
+/**
+ * LLM provider returning scripted responses. Pass it as `llmConfig` of an agent.
+ *
+ * Each model call is answered by the first `when()` rule whose matcher accepts it,
+ * otherwise by the next queued response. Candidate methods take one response per
+ * candidate and a tool-calling run one per model turn. Calls are recorded as
+ * `llm_call` events like those of real providers, and in `calls`.
+ *
+ * @example
+ * ```typescript
+ * const llm = new FakeLLMProvider(["Hello!"]);
+ * llm.when(/refund/i, { intent: "refund" });
+ * llm.respondWith({ toolCalls: [{ name: "get_order", input: { id: "1" } }] }, "Shipped");
+ * const agent = new MyAgent({ llmConfig: llm });
+ * ```
+ */
+export class FakeLLMProvider extends BaseLLMProvider {
+  /** Every model call made, in order */
+  public readonly calls: FakeLLMRequest[] = [];
+  private readonly queue: FakeLLMResponse[];
+  private readonly rules: Array<{ matcher: FakeLLMMatcher; response: FakeLLMResponse }> = [];
+
+  constructor(responses: FakeLLMResponse[] = [], model = DEFAULT_FAKE_MODEL) {
+    super({ model }, "FakeLLMProvider");
+    this.queue = [...responses];
+  }
+
+  /**
+   * Queue responses answering model calls in order, once each
+   */
+  respondWith(...responses: FakeLLMResponse[]): this {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  /**
+   * Answer every matching model call with the response; rules are tried in the
+   * order they were added, before the queue
+   */
+  when(matcher: FakeLLMMatcher, response: FakeLLMResponse): this {
+    this.rules.push({ matcher, response });
+    return this;
+  }
+
+  async generateContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = [],
+    parameters?: Record<string, unknown>
+  ): Promise<string> {
+    const request = this.createRequest(
+      "generateContent",
+      messages,
+      this.buildSystemInstruction(
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context
+      ),
+      parameters
+    );
+    return this.withTiming(
+      async () => this.toText(await this.reply(request)),
+      request.messages,
+      request.systemInstruction,
+      events,
+      undefined,
+      parameters
+    );
+  }
+
+  async generateStructuredContent<T>(
+    messages: Message[],
+    schema: z.ZodSchema<T>,
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = [],
+    parameters?: Record<string, unknown>
+  ): Promise<T> {
+    const request = this.createRequest(
+      "generateStructuredContent",
+      messages,
+      this.buildSystemInstruction(
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context
+      ),
+      parameters
+    );
+    return this.withTiming(
+      async () => this.toStructured(await this.reply(request), schema),
+      request.messages,
+      request.systemInstruction,
+      events,
+      zodToJsonSchema(schema),
+      parameters
+    );
+  }
+
+  async generateContentWithCandidates(
+    messages: Message[],
+    candidateCount: number,
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = [],
+    parameters?: Record<string, unknown>
+  ): Promise<string[]> {
+    const request = this.createRequest(
+      "generateContentWithCandidates",
+      messages,
+      this.buildSystemInstruction(
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context
+      ),
+      parameters
+    );
+    return this.withTiming(
+      async () => {
+        const candidates: string[] = [];
+        for (let i = 0; i < candidateCount; i++) {
+          candidates.push(this.toText(await this.reply(request)));
+        }
+        return candidates;
+      },
+      request.messages,
+      request.systemInstruction,
+      events,
+      undefined,
+      parameters
+    );
+  }
+
+  async generateStructuredContentWithCandidates<T>(
+    messages: Message[],
+    candidateCount: number,
+    schema: z.ZodSchema<T>,
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = [],
+    parameters?: Record<string, unknown>
+  ): Promise<T[]> {
+    const request = this.createRequest(
+      "generateStructuredContentWithCandidates",
+      messages,
+      this.buildSystemInstruction(
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context
+      ),
+      parameters
+    );
+    return this.withTiming(
+      async () => {
+        const candidates: T[] = [];
+        for (let i = 0; i < candidateCount; i++) {
+          candidates.push(this.toStructured(await this.reply(request), schema));
+        }
+        return candidates;
+      },
+      request.messages,
+      request.systemInstruction,
+      events,
+      zodToJsonSchema(schema),
+      parameters
+    );
+  }
+
+  async generateContentWithTools(
+    messages: Message[],
+    tools: LLMTool[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = [],
+    parameters?: Record<string, unknown>
+  ): Promise<string> {
+    const systemInstructionText = this.buildSystemInstruction(
+      systemInstruction,
+      includePersona,
+      includeContext,
+      persona,
+      context
+    );
+    const toolNames = tools.map((tool) => tool.name);
+    const toolResults: FakeLLMRequest["toolResults"] = [];
+
+    for (let iteration = 0; iteration < this.maxToolIterations; iteration++) {
+      const request = this.createRequest(
+        "generateContentWithTools",
+        messages,
+        systemInstructionText,
+        parameters,
+        toolNames,
+        [...toolResults]
+      );
+      const step = await this.withTiming(
+        async () => {
+          const reply = await this.reply(request);
+          return isToolCalls(reply) ? reply : this.toText(reply);
+        },
+        request.messages,
+        systemInstructionText,
+        events,
+        undefined,
+        { ...parameters, tools: toolNames }
+      );
+
+      if (typeof step === "string") {
+        return step;
+      }
+
+      for (const [index, call] of step.toolCalls.entries()) {
+        const output = await this.executeToolCall(
+          tools,
+          {
+            id: `call_${iteration}_${index}`,
+            name: call.name,
+            arguments: JSON.stringify(call.input),
+          },
+          events
+        );
+        toolResults.push({ name: call.name, output });
+      }
+    }
+
+    throw this.toolIterationsExceededError();
+  }
+
+  async *streamContent(
+    messages: Message[],
+    systemInstruction?: string,
+    includePersona?: boolean,
+    includeContext?: boolean,
+    persona?: Persona,
+    context?: string,
+    events: Event[] = [],
+    parameters?: Record<string, unknown>
+  ): AsyncIterable<string> {
+    const request = this.createRequest(
+      "streamContent",
+      messages,
+      this.buildSystemInstruction(
+        systemInstruction,
+        includePersona,
+        includeContext,
+        persona,
+        context
+      ),
+      parameters
+    );
+    const streamWords = async function* (
+      this: FakeLLMProvider
+    ): AsyncGenerator<string, void, undefined> {
+      const text = this.toText(await this.reply(request));
+      // One delta per word, keeping the whitespace that follows it
+      yield* text.match(/\s*\S+\s*/g) ?? [];
+    };
+
+    yield* this.withStreamTiming(
+      () => streamWords.call(this),
+      request.messages,
+      request.systemInstruction,
+      events,
+      parameters
+    );
+  }
+
+  private createRequest(
+    method: FakeLLMMethod,
+    messages: Message[],
+    systemInstruction: string,
+    parameters: Record<string, unknown> | undefined,
+    tools: string[] = [],
+    toolResults: FakeLLMRequest["toolResults"] = []
+  ): FakeLLMRequest {
+    const llmMessages = prepareMessagesForLLM(messages);
+    const request: FakeLLMRequest = {
+      method,
+      messages: llmMessages,
+      systemInstruction,
+      lastMessage: llmMessages.at(-1)?.content ?? "",
+      parameters,
+      tools,
+      toolResults,
+    };
+    this.calls.push(request);
+    return request;
+  }
+
+  private async reply(request: FakeLLMRequest): Promise<FakeLLMReply> {
+    const rule = this.rules.find(({ matcher }) => matches(matcher, request));
+    const response = rule ? rule.response : this.queue.shift();
+    if (response === undefined) {
+      throw new Error(
+        `FakeLLMProvider has no response for ${request.method}: ${JSON.stringify(request.lastMessage)}`
+      );
+    }
+
+    const reply = typeof response === "function" ? await response(request) : response;
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    return reply;
+  }
+
+  private toText(reply: FakeLLMReply): string {
+    if (isToolCalls(reply)) {
+      throw new Error("FakeLLMProvider tool calls are only supported by generateContentWithTools");
+    }
+    return typeof reply === "string" ? reply : JSON.stringify(reply);
+  }
+
+  private toStructured<T>(reply: FakeLLMReply, schema: z.ZodSchema<T>): T {
+    const value = typeof reply === "string" ? JSON.parse(reply) : reply;
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      throw new ValidationError(
+        `Failed to parse structured response: ${result.error}\nResponse: ${JSON.stringify(value)}`
+      );
+    }
+    return result.data;
+  }
+}
+
+function matches(matcher: FakeLLMMatcher, request: FakeLLMRequest): boolean {
+  if (typeof matcher === "string") {
+    return request.lastMessage.includes(matcher);
+  }
+  if (matcher instanceof RegExp) {
+    return matcher.test(request.lastMessage);
+  }
+  return matcher(request);
+}
+
+function isToolCalls(reply: FakeLLMReply): reply is FakeToolCalls {
+  return typeof reply === "object" && "toolCalls" in reply && Array.isArray(reply.toolCalls);
+}
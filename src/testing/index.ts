@@ -0,0 +1,27 @@
+/**
+ * Test harness for agents, exported as `@zowieteam/zowie-agent-sdk/testing`
+ */
+
+export {
+  type ConversationTurn,
+  type CreateRequestOptions,
+  createRequest,
+  type RunConversationOptions,
+  runConversation,
+} from "./conversation.js";
+export {
+  FakeHTTP,
+  type FakeHTTPMatcher,
+  type FakeHTTPReply,
+  type FakeHTTPRequest,
+  type FakeHTTPResponder,
+  type FakeHTTPResponseInit,
+} from "./fake-http.js";
+export {
+  type FakeLLMMatcher,
+  FakeLLMProvider,
+  type FakeLLMReply,
+  type FakeLLMRequest,
+  type FakeLLMResponse,
+  type FakeToolCalls,
+} from "./fake-llm.js";
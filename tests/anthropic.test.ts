@@ -0,0 +1,254 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { AnthropicProvider } from "../src/llm/anthropic";
+import { LLM } from "../src/llm/index";
+import { defineTool } from "../src/llm/tools";
+import type { Event, Message } from "../src/protocol";
+
+interface RecordedRequest {
+  path: string;
+  body: { messages?: unknown; [key: string]: unknown };
+}
+
+const messages: Message[] = [
+  { author: "User", content: "Hello", timestamp: new Date().toISOString() },
+];
+
+const textMessage = (text: string) => ({
+  id: "msg_1",
+  type: "message",
+  role: "assistant",
+  model: "claude-test-model",
+  content: [{ type: "text", text }],
+  stop_reason: "end_turn",
+  stop_sequence: null,
+  usage: { input_tokens: 10, output_tokens: 5 },
+});
+
+const toolUseMessage = (name: string, input: unknown) => ({
+  ...textMessage(""),
+  content: [{ type: "tool_use", id: "toolu_1", name, input }],
+  stop_reason: "tool_use",
+});
+
+describe("AnthropicProvider", () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: RecordedRequest[] = [];
+  const responses: unknown[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => {
+        data += chunk;
+      });
+      req.on("end", () => {
+        requests.push({ path: req.url ?? "", body: JSON.parse(data) });
+        const response = responses.shift() ?? textMessage("default");
+        if (Array.isArray(response)) {
+          // Server-sent events of a streaming response
+          res.writeHead(200, { "content-type": "text/event-stream" });
+          for (const event of response as Array<{ type: string }>) {
+            res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+          }
+          res.end();
+          return;
+        }
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(response));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    responses.length = 0;
+  });
+
+  const createProvider = () =>
+    new AnthropicProvider({
+      provider: "anthropic",
+      apiKey: "test-key",
+      model: "claude-test-model",
+      maxTokens: 512,
+      baseURL,
+    });
+
+  it("should generate content and record an llm_call event", async () => {
+    responses.push(textMessage("Hi there!"));
+    const events: Event[] = [];
+
+    const result = await createProvider().generateContent(
+      messages,
+      "Be helpful",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      events
+    );
+
+    expect(result).toBe("Hi there!");
+    expect(requests[0]?.path).toBe("/v1/messages");
+    expect(requests[0]?.body).toMatchObject({
+      model: "claude-test-model",
+      max_tokens: 512,
+      system: "<instructions>\\nBe helpful\\n</instructions>",
+      messages: [{ role: "user", content: "Hello" }],
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "llm_call",
+      payload: {
+        prompt: expect.any(String),
+        response: "Hi there!",
+        model: "claude-test-model",
+        durationInMillis: expect.any(Number),
+        inputTokens: 10,
+        outputTokens: 5,
+      },
+    });
+  });
+
+  it("should produce structured output through a forced tool", async () => {
+    const schema = z.object({ sentiment: z.enum(["positive", "negative"]), score: z.number() });
+    responses.push(toolUseMessage("response", { sentiment: "positive", score: 0.9 }));
+
+    const result = await createProvider().generateStructuredContent(messages, schema);
+
+    expect(result).toEqual({ sentiment: "positive", score: 0.9 });
+    expect(requests[0]?.body).toMatchObject({
+      tool_choice: { type: "tool", name: "response" },
+      tools: [{ name: "response", input_schema: { type: "object" } }],
+    });
+  });
+
+  it("should reject structured output that does not match the schema", async () => {
+    const schema = z.object({ score: z.number() });
+    responses.push(toolUseMessage("response", { score: "high" }));
+
+    await expect(createProvider().generateStructuredContent(messages, schema)).rejects.toThrow(
+      "Failed to parse structured response"
+    );
+  });
+
+  it("should request one message per candidate", async () => {
+    responses.push(textMessage("First"), textMessage("Second"));
+
+    const result = await createProvider().generateContentWithCandidates(messages, 2);
+
+    expect(result.sort()).toEqual(["First", "Second"]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should run the tool loop", async () => {
+    responses.push(toolUseMessage("get_weather", { city: "Paris" }), textMessage("It is sunny."));
+    const events: Event[] = [];
+    const tool = defineTool({
+      name: "get_weather",
+      description: "Get the weather for a city",
+      inputSchema: z.object({ city: z.string() }),
+      handler: async ({ city }) => `Sunny in ${city}`,
+    });
+
+    const result = await createProvider().generateContentWithTools(
+      messages,
+      [tool],
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      events
+    );
+
+    expect(result).toBe("It is sunny.");
+    expect(requests[1]?.body.messages).toEqual([
+      { role: "user", content: "Hello" },
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Paris" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "Sunny in Paris" }],
+      },
+    ]);
+    expect(events.map((event) => event.type)).toEqual(["llm_call", "tool_call", "llm_call"]);
+  });
+
+  it("should stream text deltas", async () => {
+    responses.push([
+      { type: "message_start", message: { ...textMessage(""), content: [] } },
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hi " } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "there" } },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "message_delta",
+        delta: { stop_reason: "end_turn", stop_sequence: null },
+        usage: { output_tokens: 7 },
+      },
+      { type: "message_stop" },
+    ]);
+    const events: Event[] = [];
+
+    const deltas: string[] = [];
+    for await (const delta of createProvider().streamContent(
+      messages,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      events
+    )) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual(["Hi ", "there"]);
+    expect(requests[0]?.body).toMatchObject({ stream: true });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      payload: { response: "Hi there", inputTokens: 10, outputTokens: 7 },
+    });
+  });
+
+  it("should be selected by the LLM factory", async () => {
+    responses.push(textMessage("From Claude"));
+    const llm = new LLM({ provider: "anthropic", apiKey: "test-key", model: "claude-x", baseURL });
+
+    await expect(llm.generateContent(messages)).resolves.toBe("From Claude");
+  });
+
+  it("should fall back to ANTHROPIC_API_KEY without a configured key", () => {
+    const previous = process.env["ANTHROPIC_API_KEY"];
+    process.env["ANTHROPIC_API_KEY"] = "env-key";
+    try {
+      const provider = new AnthropicProvider({
+        provider: "anthropic",
+        apiKey: undefined as unknown as string,
+        model: "claude-test-model",
+      });
+      // biome-ignore lint/suspicious/noExplicitAny: Inspecting the SDK client
+      expect((provider as any).getAnthropic().apiKey).toBe("env-key");
+    } finally {
+      if (previous === undefined) {
+        delete process.env["ANTHROPIC_API_KEY"];
+      } else {
+        process.env["ANTHROPIC_API_KEY"] = previous;
+      }
+    }
+  });
+});
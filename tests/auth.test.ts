@@ -2,10 +2,23 @@
  * Authentication middleware tests
  */
 
+import { createHmac } from "node:crypto";
 import { jest } from "@jest/globals";
 import type { Request, Response } from "express";
+import request from "supertest";
+import { Agent, AgentAuthenticationError, type AgentOptions } from "../src/agent.js";
 import { AuthError, AuthValidator } from "../src/auth.js";
-import { createAPIKeyAuth, createBasicAuth, createBearerTokenAuth } from "../src/domain.js";
+import {
+  type AgentResponse,
+  type AuthConfig,
+  createAPIKeyAuth,
+  createBasicAuth,
+  createBearerTokenAuth,
+  type HMACAuth,
+} from "../src/domain.js";
+import { InMemoryIdempotencyStore } from "../src/idempotency.js";
+import type { ExternalAgentResponse } from "../src/protocol.js";
+import { FakeLLMProvider } from "../src/testing/index.js";
 
 // Mock Express request/response objects
 const mockRequest = (headers: Record<string, string> = {}): Partial<Request> => ({
@@ -16,6 +29,7 @@ const mockResponse = () => {
   const res = {
     status: jest.fn().mockReturnThis(),
     json: jest.fn().mockReturnThis(),
+    locals: {},
   };
   return res as unknown as Response;
 };
@@ -185,6 +199,373 @@ describe("AuthValidator", () => {
     });
   });
 
+  describe("HMAC Signature Authentication", () => {
+    const authConfig: HMACAuth = { type: "hmac", secret: "signing-secret" };
+    const rawBody = '{"hello":"world"}';
+
+    const sign = (timestamp: string, body = rawBody, secret = "signing-secret") =>
+      createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    const nowSeconds = () => String(Math.floor(Date.now() / 1000));
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("should pass with a valid signature, with or without the algorithm prefix", () => {
+      const validator = new AuthValidator(authConfig);
+      const timestamp = nowSeconds();
+
+      expect(() =>
+        validator.validateHeaders(
+          { "x-zowie-signature": sign(timestamp), "x-zowie-timestamp": timestamp },
+          rawBody
+        )
+      ).not.toThrow();
+      expect(() =>
+        validator.validateHeaders(
+          {
+            "x-zowie-signature": `sha256=${sign(timestamp, "{}")}`,
+            "x-zowie-timestamp": timestamp,
+          },
+          "{}"
+        )
+      ).not.toThrow();
+    });
+
+    test("should fail with a tampered body, wrong secret or missing headers", () => {
+      const validator = new AuthValidator(authConfig);
+      const timestamp = nowSeconds();
+
+      expect(() =>
+        validator.validateHeaders(
+          { "x-zowie-signature": sign(timestamp), "x-zowie-timestamp": timestamp },
+          '{"hello":"mallory"}'
+        )
+      ).toThrow("Invalid signature");
+      expect(() =>
+        validator.validateHeaders(
+          {
+            "x-zowie-signature": sign(timestamp, rawBody, "other-secret"),
+            "x-zowie-timestamp": timestamp,
+          },
+          rawBody
+        )
+      ).toThrow("Invalid signature");
+      expect(() => validator.validateHeaders({ "x-zowie-timestamp": timestamp }, rawBody)).toThrow(
+        "Missing X-Zowie-Signature header"
+      );
+    });
+
+    test("should reject timestamps outside the tolerance window", () => {
+      const validator = new AuthValidator({ ...authConfig, toleranceSeconds: 60 });
+      const stale = String(Math.floor(Date.now() / 1000) - 120);
+
+      expect(() =>
+        validator.validateHeaders(
+          { "x-zowie-signature": sign(stale), "x-zowie-timestamp": stale },
+          rawBody
+        )
+      ).toThrow("Request timestamp outside the tolerance window");
+    });
+
+    test("should reject a replayed request until it leaves the window", () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+      const validator = new AuthValidator({ ...authConfig, toleranceSeconds: 60 });
+      const timestamp = "1700000000";
+      const headers = { "x-zowie-signature": sign(timestamp), "x-zowie-timestamp": timestamp };
+
+      validator.validateHeaders(headers, rawBody);
+      expect(() => validator.validateHeaders(headers, rawBody)).toThrow(
+        "Request has already been received"
+      );
+
+      now.mockReturnValue(1_700_000_061_000);
+      expect(() => validator.validateHeaders(headers, rawBody)).toThrow(
+        "Request timestamp outside the tolerance window"
+      );
+    });
+
+    test("should forget expired signatures of credentials with different windows", () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+      const validator = new AuthValidator([
+        { ...authConfig, toleranceSeconds: 600 },
+        { ...authConfig, secret: "short-secret", toleranceSeconds: 60 },
+      ]);
+      const seenSignatures = (): number[] =>
+        // biome-ignore lint/suspicious/noExplicitAny: Inspecting the replay cache
+        [...(validator as any).seenSignatures.values()].flatMap(
+          (signatures: Map<string, number>) => [...signatures.values()]
+        );
+      const signedHeaders = (timestamp: string, secret: string) => ({
+        "x-zowie-signature": sign(timestamp, rawBody, secret),
+        "x-zowie-timestamp": timestamp,
+      });
+
+      validator.validateHeaders(signedHeaders("1700000000", "signing-secret"), rawBody);
+      validator.validateHeaders(signedHeaders("1700000000", "short-secret"), rawBody);
+      expect(seenSignatures()).toHaveLength(2);
+
+      now.mockReturnValue(1_700_000_121_000);
+      validator.validateHeaders(signedHeaders("1700000121", "short-secret"), rawBody);
+      expect(seenSignatures()).toEqual([1_700_001_200_000, 1_700_000_241_000]);
+    });
+
+    test("should only accept repeats of requests whose response is cached", async () => {
+      const createAgent = (idempotency: AgentOptions["idempotency"]) =>
+        new (class extends Agent {
+          public calls = 0;
+
+          async handle(): Promise<AgentResponse> {
+            this.calls++;
+            return { type: "continue", message: "Signed" };
+          }
+        })({ llmConfig: new FakeLLMProvider([]), authConfig, idempotency });
+      const body = JSON.stringify({
+        metadata: { requestId: "r", chatbotId: "b", conversationId: "c", sequence: 1 },
+        messages: [],
+      });
+      const timestamp = nowSeconds();
+      const send = (agent: Agent) =>
+        request(agent.app)
+          .post("/")
+          .set("Content-Type", "application/json")
+          .set("X-Zowie-Signature", sign(timestamp, body))
+          .set("X-Zowie-Timestamp", timestamp)
+          .send(body);
+
+      const idempotent = createAgent(true);
+      await send(idempotent);
+      const retry = await send(idempotent);
+      expect(retry.status).toBe(200);
+      expect(retry.headers["idempotent-replayed"]).toBe("true");
+      expect(idempotent.calls).toBe(1);
+
+      const plain = createAgent(false);
+      await send(plain);
+      expect((await send(plain)).status).toBe(401);
+      expect(plain.calls).toBe(1);
+
+      // Once the cached response expires, the repeat is a replay
+      const expiring = createAgent({ store: new InMemoryIdempotencyStore(1) });
+      await send(expiring);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      expect((await send(expiring)).status).toBe(401);
+      expect(expiring.calls).toBe(1);
+    });
+
+    test("should verify the raw body received by the agent endpoint", async () => {
+      const agent = new (class extends Agent {
+        async handle(): Promise<AgentResponse> {
+          return { type: "continue", message: "Signed" };
+        }
+      })({ llmConfig: new FakeLLMProvider([]), authConfig });
+      // Spacing is kept as sent, so the signature covers the exact bytes
+      const body = JSON.stringify(
+        {
+          metadata: { requestId: "r", chatbotId: "b", conversationId: "c", sequence: 1 },
+          messages: [],
+        },
+        null,
+        2
+      );
+      const timestamp = nowSeconds();
+
+      const signed = await request(agent.app)
+        .post("/")
+        .set("Content-Type", "application/json")
+        .set("X-Zowie-Signature", sign(timestamp, body))
+        .set("X-Zowie-Timestamp", timestamp)
+        .send(body);
+      const unsigned = await request(agent.app)
+        .post("/")
+        .set("Content-Type", "application/json")
+        .send(body);
+
+      expect(signed.status).toBe(200);
+      expect(unsigned.status).toBe(401);
+    });
+  });
+
+  describe("Multiple Credentials", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("should accept a request matching any credential and report its label", () => {
+      const validator = new AuthValidator([
+        { ...createAPIKeyAuth("X-API-Key", "old-key"), label: "old" },
+        { ...createAPIKeyAuth("X-API-Key", "new-key"), label: "new" },
+        createBearerTokenAuth("token"),
+      ]);
+
+      expect(validator.validateHeaders({ "x-api-key": "old-key" })).toEqual({
+        credential: "old",
+        caller: "old",
+      });
+      expect(validator.validateHeaders({ "x-api-key": "new-key" })).toEqual({
+        credential: "new",
+        caller: "new",
+      });
+      expect(validator.validateHeaders({ authorization: "Bearer token" })).toEqual({
+        credential: undefined,
+        caller: "#2",
+      });
+      expect(() => validator.validateHeaders({ "x-api-key": "other-key" })).toThrow(
+        "Invalid API key"
+      );
+    });
+
+    test("should only accept credentials within their validity window", () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(Date.parse("2025-06-01T00:00:00Z"));
+      const validator = new AuthValidator([
+        { ...createBearerTokenAuth("old-token"), notAfter: "2025-06-15T00:00:00Z" },
+        { ...createBearerTokenAuth("new-token"), notBefore: new Date("2025-06-10T00:00:00Z") },
+      ]);
+      const accepts = (token: string) => () =>
+        validator.validateHeaders({ authorization: `Bearer ${token}` });
+
+      expect(accepts("old-token")).not.toThrow();
+      expect(accepts("new-token")).toThrow("Invalid bearer token");
+
+      now.mockReturnValue(Date.parse("2025-06-12T00:00:00Z"));
+      expect(accepts("old-token")).not.toThrow();
+      expect(accepts("new-token")).not.toThrow();
+
+      now.mockReturnValue(Date.parse("2025-06-20T00:00:00Z"));
+      expect(accepts("old-token")).toThrow("Invalid bearer token");
+      expect(accepts("new-token")).not.toThrow();
+    });
+
+    test("should reject configurations without a currently valid credential", () => {
+      expect(() => new AuthValidator([])).toThrow("at least one credential");
+      expect(
+        () => new AuthValidator({ ...createBearerTokenAuth("token"), notAfter: "yesterday" })
+      ).toThrow("Invalid notAfter: yesterday");
+
+      const expired = new AuthValidator({
+        ...createBearerTokenAuth("token"),
+        notAfter: "2020-01-01T00:00:00Z",
+      });
+      expect(() => expired.validateHeaders({ authorization: "Bearer token" })).toThrow(
+        expect.objectContaining({ status: 401, message: "No credential is currently valid" })
+      );
+    });
+
+    test("should reject requests with 401 and log the labels once every credential lapsed", () => {
+      jest.spyOn(Date, "now").mockReturnValue(Date.parse("2025-06-20T00:00:00Z"));
+      const validator = new AuthValidator([
+        {
+          ...createBearerTokenAuth("old-token"),
+          label: "2025-q1",
+          notAfter: "2025-03-31T00:00:00Z",
+        },
+        { ...createBearerTokenAuth("mid-token"), notAfter: "2025-06-15T00:00:00Z" },
+        {
+          ...createBearerTokenAuth("new-token"),
+          label: "2025-q3",
+          notBefore: "2025-07-01T00:00:00Z",
+        },
+      ]);
+      const { logger } = validator as unknown as {
+        logger: { error: (...args: unknown[]) => void };
+      };
+      const error = jest.spyOn(logger, "error").mockImplementation(() => undefined);
+
+      expect(() => validator.validateHeaders({ authorization: "Bearer mid-token" })).toThrow(
+        expect.objectContaining({ status: 401, message: "No credential is currently valid" })
+      );
+      expect(error).toHaveBeenCalledWith("No credential is currently valid, rejecting request", {
+        expired: ["2025-q1", "#1"],
+        notYetValid: ["2025-q3"],
+      });
+    });
+
+    test("should log the label of the credential that authenticated a request", async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const agent = new (class extends Agent {
+        async handle(): Promise<AgentResponse> {
+          return { type: "continue", message: "Hello" };
+        }
+      })({
+        llmConfig: new FakeLLMProvider([]),
+        logger,
+        authConfig: [
+          { ...createAPIKeyAuth("X-API-Key", "old-key"), label: "2024-q4" },
+          { ...createAPIKeyAuth("X-API-Key", "new-key"), label: "2025-q1" },
+        ],
+      });
+
+      const response = await request(agent.app)
+        .post("/")
+        .set("X-API-Key", "new-key")
+        .send({
+          metadata: { requestId: "r", chatbotId: "b", conversationId: "c", sequence: 1 },
+          messages: [],
+        });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(response.status).toBe(200);
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ requestId: "r", credential: "2025-q1" }),
+        "Processing request"
+      );
+    });
+  });
+
+  describe("handleRequest Authentication", () => {
+    const body = {
+      metadata: { requestId: "r", chatbotId: "b", conversationId: "c", sequence: 1 },
+      messages: [],
+    };
+    const createAgent = (authConfig: AuthConfig) =>
+      new (class extends Agent {
+        async handle(): Promise<AgentResponse> {
+          return { type: "continue", message: "Hello" };
+        }
+      })({ llmConfig: new FakeLLMProvider([]), authConfig });
+
+    test("should only authenticate when asked to, accepting any header casing", async () => {
+      const agent = createAgent(createAPIKeyAuth("X-API-Key", "secret-key"));
+
+      await expect(agent.handleRequest(body)).resolves.toBeDefined();
+      await expect(
+        agent.handleRequest(body, { headers: { "X-API-Key": "secret-key" }, authenticate: true })
+      ).resolves.toBeDefined();
+
+      const rejected = agent.handleRequest(body, {
+        headers: { "X-API-Key": "wrong-key" },
+        authenticate: true,
+      });
+      await expect(rejected).rejects.toBeInstanceOf(AgentAuthenticationError);
+      await expect(rejected).rejects.toMatchObject({ status: 401, message: "Invalid API key" });
+    });
+
+    test("should verify HMAC signatures over the raw body", async () => {
+      const agent = createAgent({ type: "hmac", secret: "signing-secret" });
+      const rawBody = JSON.stringify(body);
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers = {
+        "x-zowie-signature": createHmac("sha256", "signing-secret")
+          .update(`${timestamp}.${rawBody}`)
+          .digest("hex"),
+        "x-zowie-timestamp": timestamp,
+      };
+
+      const response: ExternalAgentResponse = await agent.handleRequest(JSON.parse(rawBody), {
+        headers,
+        rawBody,
+        authenticate: true,
+      });
+      const withoutBody = agent.handleRequest(body, { headers, authenticate: true });
+
+      expect(response.command.payload.message).toBe("Hello");
+      await expect(withoutBody).rejects.toMatchObject({
+        status: 500,
+        message: "HMAC authentication requires the raw request body",
+      });
+    });
+  });
+
   describe("AuthError", () => {
     test("should create auth error with status and message", () => {
       const error = new AuthError(401, "Unauthorized");
@@ -0,0 +1,249 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { Agent, type AgentOptions } from "../src/agent";
+import {
+  Cassette,
+  CassetteMissError,
+  type CassetteMode,
+  resolveCassetteConfig,
+} from "../src/cassette";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { LLMError, LLMTimeoutError } from "../src/errors";
+import { LLM } from "../src/llm";
+import { defineTool } from "../src/llm/tools";
+import { FakeHTTP, FakeLLMProvider, runConversation } from "../src/testing";
+
+class WeatherAgent extends Agent {
+  async handle(context: Context): Promise<AgentResponse> {
+    const response = await context.http.get("https://weather.example.com/today", {
+      Authorization: "Bearer secret",
+    });
+    const { forecast } = (await response.json()) as { forecast: string };
+    const answer = await context.llm.generateContent(context.messages, `Forecast: ${forecast}`);
+    return { type: "continue", message: answer };
+  }
+}
+
+describe("Cassettes", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "cassette-"));
+    path = join(dir, "weather.json");
+  });
+
+  afterEach(async () => {
+    delete process.env["ZOWIE_CASSETTE_MODE"];
+    delete process.env["ZOWIE_CASSETTE_PATH"];
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function createAgent(options: Partial<AgentOptions>): WeatherAgent {
+    return new WeatherAgent({ llmConfig: new FakeLLMProvider(), ...options });
+  }
+
+  function createLLM(mode: CassetteMode, provider = new FakeLLMProvider()): LLM {
+    return new LLM(
+      provider,
+      true,
+      true,
+      false,
+      undefined,
+      3,
+      undefined,
+      undefined,
+      new Cassette(path, mode)
+    );
+  }
+
+  async function record(): Promise<void> {
+    const agent = createAgent({
+      llmConfig: new FakeLLMProvider(["It will be sunny."]),
+      httpFetch: new FakeHTTP().get("https://weather.example.com/today", {
+        body: { forecast: "sunny" },
+      }).fetch,
+      cassette: { path, mode: "record" },
+    });
+    await runConversation(agent, ["What's the weather?"]);
+  }
+
+  it("should replay recorded LLM calls and HTTP requests offline", async () => {
+    await record();
+    const http = new FakeHTTP();
+    const agent = createAgent({ httpFetch: http.fetch, cassette: { path, mode: "replay" } });
+
+    const [turn] = await runConversation(agent, ["What's the weather?"]);
+
+    expect(turn?.response.command).toEqual({
+      type: "send_message",
+      payload: { message: "It will be sunny." },
+    });
+    expect(turn?.response.events?.map((event) => event.type)).toEqual(["api_call", "llm_call"]);
+    expect(http.requests).toHaveLength(0);
+  });
+
+  it("should keep request headers out of the cassette", async () => {
+    await record();
+    const content = await readFile(path, "utf8");
+
+    expect(JSON.parse(content)).toMatchObject({ version: 1 });
+    expect(content).toContain("https://weather.example.com/today");
+    expect(content).not.toContain("Bearer secret");
+  });
+
+  it("should redact credential headers of recorded HTTP responses", async () => {
+    const cassette = new Cassette(path, "record");
+    const fetch = cassette.wrapFetch(
+      new FakeHTTP().get("https://weather.example.com/today", {
+        headers: { "Set-Cookie": "session=secret", "X-Request-Id": "abc" },
+        body: { forecast: "sunny" },
+      }).fetch
+    );
+
+    const response = await fetch("https://weather.example.com/today");
+    const content = await readFile(path, "utf8");
+
+    expect(response.headers.get("set-cookie")).toBe("session=secret");
+    expect(content).toContain('"set-cookie": "[REDACTED]"');
+    expect(content).toContain('"x-request-id": "abc"');
+    expect(content).not.toContain("secret");
+  });
+
+  it("should keep requests that are not recorded again in an existing cassette", async () => {
+    const firstLLM = createLLM("record", new FakeLLMProvider(["Sunny", "Windy"]));
+    await firstLLM.generateContent([], "Today");
+    await firstLLM.generateContent([], "Tomorrow");
+    const secondLLM = createLLM("record", new FakeLLMProvider(["Rainy"]));
+    await secondLLM.generateContent([], "Today");
+
+    const replayingLLM = createLLM("replay");
+
+    await expect(replayingLLM.generateContent([], "Today")).resolves.toBe("Rainy");
+    await expect(replayingLLM.generateContent([], "Today")).rejects.toThrow(CassetteMissError);
+    await expect(replayingLLM.generateContent([], "Tomorrow")).resolves.toBe("Windy");
+  });
+
+  it("should redact credential headers of HTTP calls made by tools", async () => {
+    const agent = new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        const getForecast = defineTool({
+          name: "get_forecast",
+          description: "Get today's forecast",
+          inputSchema: z.object({}),
+          handler: async () => {
+            const response = await context.http.get("https://weather.example.com/today", {
+              Authorization: "Bearer secret",
+              Cookie: "session=secret",
+            });
+            return response.json();
+          },
+        });
+        const answer = await context.llm.generateContentWithTools(context.messages, [getForecast]);
+        return { type: "continue", message: answer };
+      }
+    })({
+      llmConfig: new FakeLLMProvider([
+        { toolCalls: [{ name: "get_forecast", input: {} }] },
+        "It will be sunny.",
+      ]),
+      httpFetch: new FakeHTTP().get("https://weather.example.com/today", {
+        body: { forecast: "sunny" },
+      }).fetch,
+      cassette: { path, mode: "record" },
+    });
+
+    await runConversation(agent, ["What's the weather?"]);
+    const content = await readFile(path, "utf8");
+
+    expect(content).toContain('"type": "api_call"');
+    expect(content).toContain("[REDACTED]");
+    expect(content).not.toContain("secret");
+  });
+
+  it("should replay errors with their recorded type and status", async () => {
+    const recordingLLM = createLLM(
+      "record",
+      new FakeLLMProvider([
+        new LLMTimeoutError("LLM request timed out after 20ms", "fake-model"),
+        Object.assign(new Error("overloaded"), { status: 503 }),
+      ])
+    );
+    await expect(recordingLLM.generateContent([])).rejects.toThrow(LLMTimeoutError);
+    await expect(recordingLLM.generateContent([])).rejects.toThrow(LLMError);
+
+    const replayingLLM = createLLM("replay");
+
+    await expect(replayingLLM.generateContent([])).rejects.toThrow(LLMTimeoutError);
+    await expect(replayingLLM.generateContent([])).rejects.toMatchObject({
+      name: "LLMError",
+      message: "overloaded",
+      model: "fake-model",
+      status: 503,
+    });
+  });
+
+  it("should fail on calls that were not recorded", async () => {
+    await record();
+    const agent = createAgent({ cassette: { path, mode: "replay" } });
+
+    await expect(runConversation(agent, ["Will it rain?"])).rejects.toThrow(CassetteMissError);
+  });
+
+  it("should replay repeated calls in recorded order and fail once exhausted", async () => {
+    const recordingLLM = createLLM("record", new FakeLLMProvider(["First", "Second"]));
+    await recordingLLM.generateContent([], "Say something");
+    await recordingLLM.generateContent([], "Say something");
+
+    const replayingLLM = createLLM("replay");
+
+    await expect(replayingLLM.generateContent([], "Say something")).resolves.toBe("First");
+    await expect(replayingLLM.generateContent([], "Say something")).resolves.toBe("Second");
+    await expect(replayingLLM.generateContent([], "Say something")).rejects.toThrow(
+      CassetteMissError
+    );
+  });
+
+  it("should record and replay streams and errors", async () => {
+    const recordingLLM = createLLM(
+      "record",
+      new FakeLLMProvider(["Hello there", new Error("overloaded")])
+    );
+    for await (const _delta of recordingLLM.streamContent([])) {
+      // Drain the stream
+    }
+    await expect(recordingLLM.generateContent([])).rejects.toThrow("overloaded");
+
+    const replayingLLM = createLLM("replay");
+    const deltas: string[] = [];
+    for await (const delta of replayingLLM.streamContent([])) {
+      deltas.push(delta);
+    }
+
+    expect(deltas).toEqual(["Hello ", "there"]);
+    await expect(replayingLLM.generateContent([])).rejects.toThrow("overloaded");
+  });
+
+  it("should let environment variables override the configuration", () => {
+    expect(resolveCassetteConfig()).toBeUndefined();
+
+    process.env["ZOWIE_CASSETTE_PATH"] = path;
+    expect(resolveCassetteConfig()).toEqual({ path, mode: "replay" });
+
+    process.env["ZOWIE_CASSETTE_MODE"] = "record";
+    expect(resolveCassetteConfig({ path: "other.json", mode: "replay" })).toEqual({
+      path: "other.json",
+      mode: "record",
+    });
+
+    process.env["ZOWIE_CASSETTE_MODE"] = "off";
+    expect(resolveCassetteConfig({ path, mode: "record" })).toBeUndefined();
+
+    process.env["ZOWIE_CASSETTE_MODE"] = "rewind";
+    expect(() => resolveCassetteConfig({ path })).toThrow("ZOWIE_CASSETTE_MODE must be");
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "@jest/globals";
+import request from "supertest";
+import { Agent, AgentOverloadedError } from "../src/agent";
+import { Semaphore } from "../src/concurrency";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { createRequest, FakeHTTP, FakeLLMProvider } from "../src/testing";
+
+const body = createRequest("Where is my order?");
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Tracks the highest number of overlapping calls
+ */
+function concurrencyProbe(): { enter: () => Promise<void>; peak: () => number } {
+  let active = 0;
+  let peak = 0;
+  return {
+    enter: async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(20);
+      active--;
+    },
+    peak: () => peak,
+  };
+}
+
+class OrderAgent extends Agent {
+  async handle(context: Context): Promise<AgentResponse> {
+    await context.http.get("https://shop.example.com/orders/1");
+    return { type: "continue", message: "Your order is on its way" };
+  }
+}
+
+describe("Concurrency limits", () => {
+  it("should queue requests beyond the limit and shed them once the queue is full", async () => {
+    const http = new FakeHTTP().get(/orders/, { delayMs: 20, body: {} });
+    const agent = new OrderAgent({
+      llmConfig: new FakeLLMProvider([]),
+      httpFetch: http.fetch,
+      metrics: true,
+      concurrency: { maxConcurrentRequests: 1, maxQueuedRequests: 1, retryAfterSeconds: 5 },
+    });
+
+    const results = await Promise.allSettled([
+      agent.handleRequest(body),
+      agent.handleRequest(body),
+      agent.handleRequest(body),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "fulfilled", "rejected"]);
+    const shed = (results[2] as PromiseRejectedResult).reason;
+    expect(shed).toBeInstanceOf(AgentOverloadedError);
+    expect(shed).toMatchObject({ retryAfterSeconds: 5 });
+
+    const metrics = agent.metrics?.render() ?? "";
+    expect(metrics).toContain('zowie_agent_requests_shed_total{path="/"} 1');
+    expect(metrics).toContain('zowie_agent_queue_wait_seconds_count{queue="request"} 2');
+  });
+
+  it("should answer shed requests with 503 and Retry-After", async () => {
+    const http = new FakeHTTP().get(/orders/, { delayMs: 50, body: {} });
+    const agent = new OrderAgent({
+      llmConfig: new FakeLLMProvider([]),
+      httpFetch: http.fetch,
+      concurrency: { maxConcurrentRequests: 1, maxQueuedRequests: 0 },
+    });
+
+    const pending = agent.handleRequest(body);
+    const response = await request(agent.app).post("/").send(body);
+    await pending;
+
+    expect(response.status).toBe(503);
+    expect(response.headers["retry-after"]).toBe("1");
+    expect(response.body).toEqual({ error: "Service unavailable", message: "Agent is overloaded" });
+  });
+
+  it("should limit concurrent LLM calls per model", async () => {
+    const probe = concurrencyProbe();
+    const llm = new FakeLLMProvider().when("", async () => {
+      await probe.enter();
+      return "Hello";
+    });
+    const agent = new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        const replies = await Promise.all(
+          [1, 2, 3].map(() => context.llm.generateContent(context.messages))
+        );
+        return { type: "continue", message: replies.join(" ") };
+      }
+    })({ llmConfig: llm, metrics: true, concurrency: { maxConcurrentLLMCalls: 2 } });
+
+    const response = await agent.handleRequest(body);
+
+    expect(probe.peak()).toBe(2);
+    expect(response.command.payload.message).toBe("Hello Hello Hello");
+    expect(agent.metrics?.render()).toContain(
+      'zowie_agent_queue_wait_seconds_count{queue="llm",model="fakellm:fake-model"} 3'
+    );
+  });
+
+  it("should limit concurrent HTTP calls per host", async () => {
+    const probe = concurrencyProbe();
+    const http = new FakeHTTP()
+      .get(/slow\.example\.com/, async () => {
+        await probe.enter();
+        return { body: {} };
+      })
+      .get(/other\.example\.com/, { body: {} });
+    const agent = new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        await Promise.all([
+          context.http.get("https://slow.example.com/a"),
+          context.http.get("https://slow.example.com/b"),
+          context.http.get("https://slow.example.com/c"),
+          context.http.get("https://other.example.com/d"),
+        ]);
+        return { type: "continue", message: "Done" };
+      }
+    })({
+      llmConfig: new FakeLLMProvider([]),
+      httpFetch: http.fetch,
+      concurrency: { maxConcurrentHTTPCallsPerHost: 1 },
+    });
+
+    await agent.handleRequest(body);
+
+    expect(probe.peak()).toBe(1);
+    expect(http.requests).toHaveLength(4);
+  });
+
+  it("should stop waiting for a slot when the signal aborts", async () => {
+    const semaphore = new Semaphore(1);
+    const release = await semaphore.acquire();
+    const controller = new AbortController();
+
+    const waiting = semaphore.acquire(controller.signal);
+    expect(semaphore.queued).toBe(1);
+    controller.abort(new Error("deadline"));
+
+    await expect(waiting).rejects.toThrow("deadline");
+    expect(semaphore.queued).toBe(0);
+    release();
+    expect(semaphore.active).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { InMemorySessionStore } from "../src/session";
+import { createRequest, FakeHTTP } from "../src/testing";
+import { createAgent } from "./helpers";
+
+const body = createRequest();
+
+describe("Request deadline", () => {
+  it("should return the deadline response with the events collected so far", async () => {
+    const http = new FakeHTTP()
+      .get(/fast/, { body: { ok: true } })
+      .get(/slow/, { delayMs: 60000, body: {} });
+    const sessionStore = new InMemorySessionStore();
+    let signal: AbortSignal | undefined;
+    const agent = createAgent(
+      async (context) => {
+        signal = context.signal;
+        context.session.set("step", "started");
+        await context.http.get("https://api.example.com/fast");
+        await context.http.get("https://api.example.com/slow");
+      },
+      {
+        httpFetch: http.fetch,
+        sessionStore,
+        requestDeadlineMs: 50,
+        deadlineResponse: { type: "finish", nextBlock: "human-handover" },
+      }
+    );
+
+    const response = await agent.handleRequest(body);
+
+    expect(response.command).toEqual({
+      type: "go_to_next_block",
+      payload: { nextBlockReferenceKey: "human-handover" },
+    });
+    expect(response.events).toHaveLength(1);
+    expect(response.events?.[0]).toMatchObject({
+      type: "api_call",
+      payload: { url: "https://api.example.com/fast", responseStatusCode: 200 },
+    });
+    expect(signal?.aborted).toBe(true);
+    expect(await sessionStore.get(body.metadata.conversationId)).toBeUndefined();
+  });
+
+  it("should keep values stored after the deadline out of the response", async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    let finished: (() => void) | undefined;
+    const done = new Promise<void>((resolve) => {
+      finished = resolve;
+    });
+    const agent = createAgent(
+      async (context) => {
+        context.storeValue("step", "started");
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        context.storeValue("step", "finished");
+        context.storeValue("late", true);
+        finished?.();
+      },
+      { requestDeadlineMs: 10, logger }
+    );
+
+    const response = await agent.handleRequest(body);
+    await done;
+
+    expect(response.valuesToSave).toEqual({ step: "started" });
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: "deadline" }),
+      "Request answered with a fallback response"
+    );
+    expect(logger.info).not.toHaveBeenCalledWith(
+      expect.anything(),
+      "Request processed successfully"
+    );
+  });
+
+  it("should let a per-request deadline override the agent option", async () => {
+    const agent = createAgent(() => new Promise((resolve) => setTimeout(resolve, 200)), {
+      requestDeadlineMs: 10,
+    });
+
+    const response = await agent.handleRequest(body, { deadlineMs: 5000 });
+
+    expect(response.command).toEqual({ type: "send_message", payload: { message: "Done" } });
+  });
+
+  it("should fall back to the default deadline response", async () => {
+    const agent = createAgent(() => new Promise((resolve) => setTimeout(resolve, 200)));
+
+    const response = await agent.handleRequest(body, { deadlineMs: 10 });
+
+    expect(response.command.type).toBe("send_message");
+    expect(response.command.payload.message).toMatch(/taking longer than expected/);
+    expect(response.events).toBeUndefined();
+  });
+
+  it("should expose the remaining time to the handler", async () => {
+    const remaining: number[] = [];
+    const agent = createAgent(async (context) => {
+      remaining.push(context.remainingMs());
+    });
+
+    await agent.handleRequest(body, { deadlineMs: 1000 });
+    await agent.handleRequest(body);
+
+    expect(remaining[0]).toBeGreaterThan(0);
+    expect(remaining[0]).toBeLessThanOrEqual(1000);
+    expect(remaining[1]).toBe(Infinity);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import request from "supertest";
+import { z } from "zod";
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { HTTPError, LLMError, ValidationError } from "../src/errors";
+import { LLM } from "../src/llm";
+import { InMemorySessionStore } from "../src/session";
+import { createRequest, FakeHTTP, FakeLLMProvider, runConversation } from "../src/testing";
+
+const body = createRequest();
+
+class HandoverAgent extends Agent {
+  public readonly errors: unknown[] = [];
+
+  async handle(context: Context): Promise<AgentResponse> {
+    context.session.set("greeted", true);
+    const reply = await context.llm.generateContent(context.messages);
+    return { type: "continue", message: reply };
+  }
+
+  protected override onError(error: unknown): AgentResponse | undefined {
+    this.errors.push(error);
+    if (error instanceof LLMError) {
+      return { type: "finish", message: "Let me find a colleague", nextBlock: "handover" };
+    }
+    return undefined;
+  }
+}
+
+function createAgent(llm: FakeLLMProvider, options: Partial<AgentOptions> = {}): HandoverAgent {
+  return new HandoverAgent({ llmConfig: llm, ...options });
+}
+
+describe("Error handling", () => {
+  it("should map errors to the onError response and record an error event", async () => {
+    const sessionStore = new InMemorySessionStore();
+    const agent = createAgent(new FakeLLMProvider([new Error("overloaded")]), { sessionStore });
+
+    const [turn] = await runConversation(agent, ["Hi"]);
+
+    expect(turn?.response.command).toEqual({
+      type: "go_to_next_block",
+      payload: { nextBlockReferenceKey: "handover", message: "Let me find a colleague" },
+    });
+    expect(turn?.response.events?.at(-1)).toEqual({
+      type: "error",
+      payload: { errorType: "LLMError", message: "overloaded", handled: true },
+    });
+    expect(agent.errors[0]).toMatchObject({ model: "fake-model" });
+    expect((agent.errors[0] as LLMError).cause).toEqual(new Error("overloaded"));
+    expect(await sessionStore.get("test-conversation")).toBeUndefined();
+  });
+
+  it("should answer 500 without leaking the error message when unhandled", async () => {
+    const agent = new (class extends Agent {
+      async handle(): Promise<AgentResponse> {
+        throw new Error("database password is hunter2");
+      }
+    })({ llmConfig: new FakeLLMProvider([]) });
+
+    const response = await request(agent.app).post("/").send(body);
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({
+      error: "Internal server error",
+      message: "An error occurred while processing the request",
+    });
+  });
+
+  it("should log the type of an unhandled error, but not return its events", async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const agent = new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        await context.llm.generateContent(context.messages);
+        throw new ValidationError("database password is hunter2");
+      }
+    })({ llmConfig: new FakeLLMProvider(["Hello"]), logger });
+
+    const response = await request(agent.app).post("/").send(body);
+
+    expect(response.status).toBe(500);
+    expect(response.body.events).toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ errorType: "ValidationError", handled: false }),
+      "Request failed with an unhandled error"
+    );
+  });
+
+  it("should fail the request when onError throws", async () => {
+    const agent = new (class extends Agent {
+      async handle(): Promise<AgentResponse> {
+        throw new Error("original");
+      }
+
+      protected override onError(): AgentResponse | undefined {
+        throw new Error("hook");
+      }
+    })({ llmConfig: new FakeLLMProvider([]) });
+
+    await expect(agent.handleRequest(body)).rejects.toThrow("original");
+  });
+
+  it("should raise structured output mismatches as validation errors", async () => {
+    const llm = new LLM(new FakeLLMProvider([{ wrong: true }]));
+
+    await expect(
+      llm.generateStructuredContent([], z.object({ intent: z.string() }))
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("should raise missing OpenAI structured output as a validation error", async () => {
+    const llm = new LLM({ provider: "openai", apiKey: "test-key", model: "gpt-5-mini" });
+    // biome-ignore lint/suspicious/noExplicitAny: Accessing private providers for mocking
+    const [provider] = await (llm as any).getProviders();
+    provider.getOpenAI().chat.completions.parse = async () => ({
+      choices: [{ message: { parsed: null, refusal: "I can't help with that" } }],
+    });
+
+    await expect(
+      llm.generateStructuredContent([], z.object({ intent: z.string() }))
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("should raise failed HTTP requests as HTTP errors", async () => {
+    const http = new FakeHTTP()
+      .get(/down/, new TypeError("fetch failed"))
+      .get(/slow/, { delayMs: 1000, body: {} });
+    const captured: unknown[] = [];
+    const agent = new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        for (const url of ["https://down.example.com", "https://slow.example.com"]) {
+          await context.http.get(url, {}, { timeout: 10 }).catch((error) => captured.push(error));
+        }
+        return { type: "continue", message: "Done" };
+      }
+    })({ llmConfig: new FakeLLMProvider([]), httpFetch: http.fetch });
+
+    await agent.handleRequest(body);
+
+    expect(captured[0]).toBeInstanceOf(HTTPError);
+    expect(captured[0]).toMatchObject({ method: "GET", url: "https://down.example.com" });
+    expect((captured[0] as HTTPError).cause).toBeInstanceOf(TypeError);
+    expect(captured[1]).toBeInstanceOf(HTTPError);
+  });
+});
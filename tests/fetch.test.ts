@@ -0,0 +1,114 @@
+import { describe, expect, it } from "@jest/globals";
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { createRequest, FakeLLMProvider } from "../src/testing";
+
+const body = createRequest();
+
+class EchoAgent extends Agent {
+  public readonly contexts: Context[] = [];
+
+  async handle(context: Context): Promise<AgentResponse> {
+    this.contexts.push(context);
+    return { type: "continue", message: `Echo: ${context.messages.at(-1)?.content}` };
+  }
+}
+
+function createAgent(options: Partial<AgentOptions> = {}): EchoAgent {
+  return new EchoAgent({ llmConfig: new FakeLLMProvider([]), ...options });
+}
+
+function post(path: string, payload: unknown, headers: Record<string, string> = {}): Request {
+  return new Request(`https://agent.example.com${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof payload === "string" ? payload : JSON.stringify(payload),
+  });
+}
+
+describe("Fetch API adapter", () => {
+  it("should map path, query and headers to the request context", async () => {
+    const agent = createAgent();
+
+    const response = await agent.fetch(
+      post("/orders?tag=a&tag=b&lang=en", body, { "X-Request-Id": "trace-1" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      command: { type: "send_message", payload: { message: "Echo: Hello" } },
+    });
+    const [context] = agent.contexts;
+    expect(context?.path).toBe("/orders");
+    expect(context?.queryParams).toEqual({ tag: ["a", "b"], lang: "en" });
+    expect(context?.headers["x-request-id"]).toBe("trace-1");
+  });
+
+  it("should enforce authConfig", async () => {
+    const agent = createAgent({
+      authConfig: { type: "api_key", headerName: "X-API-Key", apiKey: "secret-key" },
+    });
+
+    const accepted = await agent.fetch(post("/", body, { "X-API-Key": "secret-key" }));
+    const rejected = await agent.fetch(post("/", body, { "X-API-Key": "wrong-key" }));
+
+    expect(accepted.status).toBe(200);
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toEqual({ error: "Invalid API key" });
+    expect(agent.contexts).toHaveLength(1);
+  });
+
+  it("should answer invalid requests with 400 and other methods with 405", async () => {
+    const agent = createAgent();
+
+    const invalid = await agent.fetch(post("/", { messages: [] }));
+    const malformed = await agent.fetch(post("/", "{not json"));
+    const get = await agent.fetch(new Request("https://agent.example.com/"));
+
+    for (const response of [invalid, malformed]) {
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Bad request",
+        message: "Invalid request format",
+      });
+    }
+    expect(get.status).toBe(405);
+    expect(await get.json()).toEqual({
+      error: "Method not allowed",
+      message: "Method GET not supported",
+    });
+  });
+
+  it("should serve the health check and fail it once shutdown has begun", async () => {
+    const agent = createAgent();
+    const health = () => agent.fetch(new Request("https://agent.example.com/health"));
+
+    const healthy = await health();
+    expect(healthy.status).toBe(200);
+    expect(await healthy.json()).toMatchObject({ status: "healthy", agent: "EchoAgent" });
+
+    await agent.close();
+    const shuttingDown = await health();
+    const rejected = await agent.fetch(post("/", body));
+    expect(shuttingDown.status).toBe(503);
+    expect(await shuttingDown.json()).toMatchObject({ status: "shutting_down" });
+    expect(rejected.status).toBe(503);
+  });
+
+  it("should mark replayed responses and serve metrics", async () => {
+    const agent = createAgent({ idempotency: true, metrics: true });
+
+    const first = await agent.fetch(post("/", body));
+    const retry = await agent.fetch(post("/", body));
+    const metrics = await agent.fetch(new Request("https://agent.example.com/metrics"));
+
+    expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await retry.json()).toEqual(await first.json());
+    expect(metrics.headers.get("Content-Type")).toContain("text/plain");
+    expect(await metrics.text()).toContain(
+      'zowie_agent_requests_total{path="/",outcome="success"} 1'
+    );
+  });
+});
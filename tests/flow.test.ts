@@ -0,0 +1,191 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { z } from "zod";
+import { defineFlow, FlowAgent } from "../src/flow";
+import type { ExternalAgentResponse } from "../src/protocol";
+import { InMemorySessionStore } from "../src/session";
+
+interface ReturnSlots {
+  orderNumber: string;
+  reason: string;
+  confirmed: boolean;
+}
+
+const buildRequest = (content: string, conversationId = "conv-1") => ({
+  metadata: { requestId: `req-${content}`, chatbotId: "bot-1", conversationId, sequence: 1 },
+  messages: [{ author: "User", content, timestamp: new Date().toISOString() }],
+});
+
+const commandOf = (response: ExternalAgentResponse) => response.command;
+
+describe("FlowAgent", () => {
+  let store: InMemorySessionStore;
+  let agent: FlowAgent<ReturnSlots>;
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking
+  let mockExtract: jest.MockedFunction<any>;
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking
+  let lookupOrder: jest.MockedFunction<any>;
+
+  /** Queue the raw values the model "extracts"; they are parsed with the real schema */
+  const extractNext = (values: Record<string, unknown>) => {
+    mockExtract.mockImplementationOnce(async (_messages: unknown, schema: z.ZodTypeAny) =>
+      schema.parse(values)
+    );
+  };
+
+  beforeEach(() => {
+    store = new InMemorySessionStore();
+    lookupOrder = jest.fn(async () => true);
+
+    const flow = defineFlow<ReturnSlots>({
+      initialStep: "order",
+      steps: {
+        order: {
+          collect: z.object({
+            orderNumber: z.string().regex(/^\d{6}$/, "Order numbers have 6 digits."),
+            reason: z.string().describe("Why the customer wants to return the order"),
+          }),
+          prompt: "Please give me your order number and the reason for the return.",
+          validate: async (slots) =>
+            (await lookupOrder(slots.orderNumber)) ? undefined : "I could not find that order.",
+          next: "confirm",
+        },
+        confirm: {
+          collect: z.object({ confirmed: z.boolean() }),
+          prompt: (slots) => `Shall I start a return for order ${slots.orderNumber}?`,
+          next: (slots) =>
+            slots.confirmed
+              ? { nextBlock: "return_created", message: "Your return has been started." }
+              : { nextBlock: "main_menu" },
+        },
+      },
+    });
+
+    agent = new FlowAgent<ReturnSlots>({
+      llmConfig: { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+      sessionStore: store,
+      flow,
+    });
+    mockExtract = jest.fn();
+    // biome-ignore lint/suspicious/noExplicitAny: Replacing the LLM with a mock
+    (agent as any).baseLLM.generateStructuredContent = mockExtract;
+  });
+
+  it("should ask for missing slots and keep the flow position across turns", async () => {
+    extractNext({ orderNumber: "123456", reason: null });
+    const first = await agent.handleRequest(buildRequest("I want to return order 123456"));
+    expect(commandOf(first)).toEqual({
+      type: "send_message",
+      payload: { message: "Please give me your order number and the reason for the return." },
+    });
+    expect(await store.get("conv-1")).toEqual({
+      flow: { step: "order", slots: { orderNumber: "123456" }, awaitingInput: true },
+    });
+
+    extractNext({ orderNumber: null, reason: "Broken" });
+    const second = await agent.handleRequest(buildRequest("It arrived broken"));
+    expect(commandOf(second)).toEqual({
+      type: "send_message",
+      payload: { message: "Shall I start a return for order 123456?" },
+    });
+    // Entering the confirm step does not extract from the same message
+    expect(mockExtract).toHaveBeenCalledTimes(2);
+
+    extractNext({ confirmed: true });
+    const third = await agent.handleRequest(buildRequest("Yes"));
+    expect(commandOf(third)).toEqual({
+      type: "go_to_next_block",
+      payload: {
+        nextBlockReferenceKey: "return_created",
+        message: "Your return has been started.",
+      },
+    });
+    expect(await store.get("conv-1")).toBeUndefined();
+  });
+
+  it("should pass collected values and descriptions to the extraction", async () => {
+    extractNext({ orderNumber: "123456", reason: null });
+    await agent.handleRequest(buildRequest("Order 123456"));
+    extractNext({ orderNumber: null, reason: null });
+    await agent.handleRequest(buildRequest("Hmm"));
+
+    const [messages, schema, instruction] = mockExtract.mock.calls[1] as [
+      unknown[],
+      z.ZodObject<z.ZodRawShape>,
+      string,
+    ];
+    expect(messages).toHaveLength(1);
+    expect(Object.keys(schema.shape)).toEqual(["orderNumber", "reason"]);
+    expect(schema.shape["reason"]?.description).toBe("Why the customer wants to return the order");
+    expect(instruction).toContain('{"orderNumber":"123456"}');
+  });
+
+  it("should re-prompt when an extracted value fails its schema", async () => {
+    extractNext({ orderNumber: "12", reason: "Broken" });
+
+    const response = await agent.handleRequest(buildRequest("Order 12, it is broken"));
+
+    expect(commandOf(response)).toEqual({
+      type: "send_message",
+      payload: {
+        message:
+          "Order numbers have 6 digits. Please give me your order number and the reason for the return.",
+      },
+    });
+    expect(await store.get("conv-1")).toMatchObject({ flow: { slots: { reason: "Broken" } } });
+  });
+
+  it("should discard the step's slots when validation fails", async () => {
+    lookupOrder.mockResolvedValueOnce(false);
+    extractNext({ orderNumber: "999999", reason: "Broken" });
+
+    const response = await agent.handleRequest(buildRequest("Order 999999, broken"));
+
+    expect(commandOf(response)).toMatchObject({
+      payload: { message: expect.stringMatching(/^I could not find that order\. /) },
+    });
+    expect(await store.get("conv-1")).toEqual({
+      flow: { step: "order", slots: {}, awaitingInput: true },
+    });
+  });
+
+  it("should transfer to the block chosen by the terminal transition", async () => {
+    extractNext({ orderNumber: "123456", reason: "Broken" });
+    await agent.handleRequest(buildRequest("Return 123456, broken"));
+    extractNext({ confirmed: false });
+
+    const response = await agent.handleRequest(buildRequest("No"));
+
+    expect(commandOf(response)).toEqual({
+      type: "go_to_next_block",
+      payload: { nextBlockReferenceKey: "main_menu" },
+    });
+  });
+
+  it("should fail on transitions to unknown steps", async () => {
+    const broken = new FlowAgent({
+      llmConfig: { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+      sessionStore: store,
+      flow: defineFlow({ initialStep: "start", steps: { start: { next: "missing" } } }),
+    });
+
+    await expect(broken.handleRequest(buildRequest("Hi"))).rejects.toThrow(
+      "Unknown flow step: missing"
+    );
+  });
+
+  it("should stop flows that cycle within a turn", async () => {
+    const cyclic = new FlowAgent({
+      llmConfig: { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+      sessionStore: store,
+      flow: defineFlow({
+        initialStep: "a",
+        maxTransitions: 5,
+        steps: { a: { next: "b" }, b: { next: "a" } },
+      }),
+    });
+
+    await expect(cyclic.handleRequest(buildRequest("Hi"))).rejects.toThrow(
+      "Flow exceeded 5 step transitions in a single turn"
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import { ApiError } from "@google/genai";
 import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
 import { GoogleProvider } from "../src/llm/google";
+import { createRequestScope, runInRequestScope } from "../src/scope";
 
 describe("GoogleProvider Retry Logic", () => {
   let provider: GoogleProvider;
@@ -189,6 +190,22 @@ describe("GoogleProvider Retry Logic", () => {
     expect(delay3).toBeLessThan(4500);
   });
 
+  it("should stop waiting to retry when the request is aborted", async () => {
+    const controller = new AbortController();
+    const metadata = { requestId: "r", chatbotId: "b", conversationId: "c", sequence: 1 };
+    const scope = createRequestScope(metadata, [], {}, controller.signal);
+    mockGenAIGenerateContent.mockImplementation(async () => {
+      // The request is cancelled, e.g. by its deadline, while the call fails
+      controller.abort();
+      throw new ApiError({ status: 503, message: "The model is overloaded." });
+    });
+
+    await expect(
+      runInRequestScope(scope, () => provider.generateContent([], "instruction"))
+    ).rejects.toThrow();
+    expect(mockGenAIGenerateContent).toHaveBeenCalledTimes(1);
+  });
+
   it("should NOT retry on 400 bad request error", async () => {
     // biome-ignore lint/suspicious/noExplicitAny: Accessing private logger for testing
     const warnSpy = jest.spyOn((provider as any).logger, "warn");
@@ -0,0 +1,20 @@
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { FakeLLMProvider } from "../src/testing";
+
+/**
+ * Agent that runs `handle` and then replies "Done". It leaves process signals alone, so
+ * tests can close it without ending the test run.
+ */
+export function createAgent(
+  handle: (context: Context) => Promise<void>,
+  options: Partial<AgentOptions> = {}
+): Agent {
+  return new (class extends Agent {
+    async handle(context: Context): Promise<AgentResponse> {
+      await handle(context);
+      return { type: "continue", message: "Done" };
+    }
+  })({ llmConfig: new FakeLLMProvider(["Hi"]), shutdownSignals: false, ...options });
+}
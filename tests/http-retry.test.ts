@@ -0,0 +1,230 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { CircuitOpenError } from "../src/errors";
+import { HTTPClient } from "../src/http";
+import type { APICallEvent, Event } from "../src/protocol";
+import { createRequestScope, runInRequestScope } from "../src/scope";
+
+interface QueuedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  /** Delay before responding, to trigger client timeouts */
+  delayMs?: number;
+}
+
+const statusCodes = (events: Event[]) =>
+  events.map((event) => (event as APICallEvent).payload.responseStatusCode);
+
+describe("HTTPClient retries and circuit breaker", () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: string[] = [];
+  const responses: QueuedResponse[] = [];
+  let events: Event[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      const response = responses.shift() ?? { status: 200 };
+      setTimeout(() => {
+        res.writeHead(response.status, { "content-type": "text/plain", ...response.headers });
+        res.end(`status ${response.status}`);
+      }, response.delayMs ?? 0);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    responses.length = 0;
+    events = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const fastRetries = { initialDelayMs: 1, maxDelayMs: 50 };
+
+  it("should attempt once without a retry policy", async () => {
+    responses.push({ status: 503 });
+
+    const response = await new HTTPClient().get(`${baseURL}/items`, {}, events);
+
+    expect(response.status).toBe(503);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should retry retryable statuses and record every attempt", async () => {
+    responses.push({ status: 503 }, { status: 502 }, { status: 200 });
+    const client = new HTTPClient(5000, true, true, fastRetries);
+
+    const response = await client.get(`${baseURL}/items`, {}, events);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("status 200");
+    expect(statusCodes(events)).toEqual([503, 502, 200]);
+  });
+
+  it("should return the last response once attempts are exhausted", async () => {
+    responses.push({ status: 500 }, { status: 500 }, { status: 500 });
+    const client = new HTTPClient(5000, true, true, { ...fastRetries, maxAttempts: 2 });
+
+    const response = await client.get(`${baseURL}/items`, {}, events);
+
+    expect(response.status).toBe(500);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should not retry non-retryable statuses", async () => {
+    responses.push({ status: 404 });
+    const client = new HTTPClient(5000, true, true, fastRetries);
+
+    await client.get(`${baseURL}/items`, {}, events);
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should only retry idempotent methods by default", async () => {
+    responses.push({ status: 503 }, { status: 503 }, { status: 200 });
+    const client = new HTTPClient(5000, true, true, fastRetries);
+
+    const postResponse = await client.post(`${baseURL}/items`, { a: 1 }, {}, events);
+    expect(postResponse.status).toBe(503);
+    expect(requests).toEqual(["POST /items"]);
+
+    const putResponse = await client.put(`${baseURL}/items/1`, { a: 1 }, {}, events, {
+      retry: { ...fastRetries, retryMethods: ["PUT"] },
+    });
+    expect(putResponse.status).toBe(200);
+    expect(requests).toEqual(["POST /items", "PUT /items/1", "PUT /items/1"]);
+  });
+
+  it("should disable retries per request", async () => {
+    responses.push({ status: 503 });
+    const client = new HTTPClient(5000, true, true, fastRetries);
+
+    await client.get(`${baseURL}/items`, {}, events, { retry: false });
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should retry timeouts and rethrow the last error", async () => {
+    responses.push({ status: 200, delayMs: 200 }, { status: 200, delayMs: 200 });
+    const client = new HTTPClient(20, true, true, { ...fastRetries, maxAttempts: 2 });
+
+    await expect(client.get(`${baseURL}/slow`, {}, events)).rejects.toThrow("timeout");
+
+    expect(requests).toHaveLength(2);
+    expect(events).toHaveLength(2);
+  });
+
+  it("should wait as long as Retry-After asks", async () => {
+    responses.push({ status: 429, headers: { "retry-after": "0.03" } }, { status: 200 });
+    const client = new HTTPClient(5000, true, true, fastRetries);
+
+    const startTime = Date.now();
+    const response = await client.get(`${baseURL}/items`, {}, events);
+
+    expect(response.status).toBe(200);
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(29);
+  });
+
+  it("should stop waiting to retry when the request is aborted", async () => {
+    responses.push({ status: 503, headers: { "retry-after": "10" } });
+    const client = new HTTPClient(5000, true, true, { ...fastRetries, maxDelayMs: 60_000 });
+    const controller = new AbortController();
+    const metadata = { requestId: "r", chatbotId: "b", conversationId: "c", sequence: 1 };
+    const scope = createRequestScope(metadata, events, {}, controller.signal);
+
+    const startTime = Date.now();
+    const pending = runInRequestScope(scope, () => client.get(`${baseURL}/items`, {}, events));
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(pending).rejects.toThrow("HTTP request failed");
+    expect(Date.now() - startTime).toBeLessThan(5000);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should not retry when Retry-After exceeds the maximum delay", async () => {
+    responses.push({ status: 503, headers: { "retry-after": "120" } });
+    const client = new HTTPClient(5000, true, true, fastRetries);
+
+    const response = await client.get(`${baseURL}/items`, {}, events);
+
+    expect(response.status).toBe(503);
+    expect(requests).toHaveLength(1);
+  });
+
+  describe("circuit breaker", () => {
+    it("should fail fast once the failure threshold is reached", async () => {
+      responses.push({ status: 500 }, { status: 500 });
+      const client = new HTTPClient(5000, true, true, undefined, { failureThreshold: 2 });
+
+      await client.get(`${baseURL}/a`, {}, events);
+      await client.get(`${baseURL}/b`, {}, events);
+      await expect(client.get(`${baseURL}/c`, {}, events)).rejects.toThrow(CircuitOpenError);
+
+      expect(requests).toHaveLength(2);
+      expect(events[2]).toMatchObject({
+        payload: { url: `${baseURL}/c`, responseStatusCode: 503 },
+      });
+    });
+
+    it("should stop retrying when the circuit opens", async () => {
+      responses.push({ status: 503 }, { status: 503 });
+      const client = new HTTPClient(5000, true, true, fastRetries, { failureThreshold: 2 });
+
+      await expect(client.get(`${baseURL}/items`, {}, events)).rejects.toThrow(
+        "Circuit breaker open for 127.0.0.1"
+      );
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should let a trial request through after the reset timeout", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+      responses.push({ status: 500 }, { status: 500 }, { status: 200 });
+      const client = new HTTPClient(5000, true, true, undefined, {
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+      });
+
+      await client.get(`${baseURL}/a`, {}, events);
+      now.mockReturnValue(1_100);
+      // A failed trial re-opens the circuit
+      await client.get(`${baseURL}/b`, {}, events);
+      await expect(client.get(`${baseURL}/c`, {}, events)).rejects.toThrow(CircuitOpenError);
+
+      now.mockReturnValue(1_200);
+      expect((await client.get(`${baseURL}/d`, {}, events)).status).toBe(200);
+      expect((await client.get(`${baseURL}/e`, {}, events)).status).toBe(200);
+      expect(requests).toEqual(["GET /a", "GET /b", "GET /d", "GET /e"]);
+    });
+
+    it("should not count client errors as failures", async () => {
+      responses.push({ status: 404 }, { status: 404 });
+      const client = new HTTPClient(5000, true, true, undefined, { failureThreshold: 1 });
+
+      await client.get(`${baseURL}/a`, {}, events);
+      await client.get(`${baseURL}/b`, {}, events);
+
+      expect(requests).toHaveLength(2);
+    });
+  });
+});
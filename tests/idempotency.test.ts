@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import request from "supertest";
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { InMemoryIdempotencyStore } from "../src/idempotency";
+import { createRequest, FakeHTTP, FakeLLMProvider } from "../src/testing";
+
+const body = createRequest("Refund my order");
+
+class RefundAgent extends Agent {
+  public calls = 0;
+
+  async handle(context: Context): Promise<AgentResponse> {
+    this.calls++;
+    await context.http.post("https://shop.example.com/refunds", { order: "123" });
+    return { type: "continue", message: `Refund ${this.calls} created` };
+  }
+}
+
+function createAgent(options: Partial<AgentOptions> = {}): { agent: RefundAgent; http: FakeHTTP } {
+  const http = new FakeHTTP().post(/refunds/, { delayMs: 20, body: { id: "refund-1" } });
+  const agent = new RefundAgent({
+    llmConfig: new FakeLLMProvider([]),
+    httpFetch: http.fetch,
+    idempotency: true,
+    ...options,
+  });
+  return { agent, http };
+}
+
+describe("Idempotent request handling", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should replay the cached response to a retried request", async () => {
+    const { agent, http } = createAgent();
+
+    const first = await request(agent.app).post("/").send(body);
+    const retry = await request(agent.app).post("/").send(body);
+
+    expect(http.requests).toHaveLength(1);
+    expect(retry.body).toEqual(first.body);
+    expect(first.headers["idempotent-replayed"]).toBeUndefined();
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+  });
+
+  it("should let concurrent duplicates wait for the in-flight request", async () => {
+    const { agent, http } = createAgent();
+
+    const responses = await Promise.all([
+      agent.handleRequest(body),
+      agent.handleRequest(body),
+      agent.handleRequest(body),
+    ]);
+
+    expect(agent.calls).toBe(1);
+    expect(http.requests).toHaveLength(1);
+    expect(responses[1]).toEqual(responses[0]);
+    expect(responses[2]).toEqual(responses[0]);
+  });
+
+  it("should handle requests again when disabled or after a failure", async () => {
+    const { agent, http } = createAgent({ idempotency: false });
+    await agent.handleRequest(body);
+    await agent.handleRequest(body);
+    expect(http.requests).toHaveLength(2);
+
+    const failing = new (class extends Agent {
+      public calls = 0;
+
+      async handle(): Promise<AgentResponse> {
+        this.calls++;
+        throw new Error("temporary");
+      }
+    })({ llmConfig: new FakeLLMProvider([]), idempotency: true });
+    await expect(failing.handleRequest(body)).rejects.toThrow("temporary");
+    await expect(failing.handleRequest(body)).rejects.toThrow("temporary");
+    expect(failing.calls).toBe(2);
+  });
+
+  it("should not cache deadline or onError responses", async () => {
+    const { agent, http } = createAgent({ requestDeadlineMs: 5 });
+    await agent.handleRequest(body);
+    await agent.handleRequest(body);
+    expect(agent.calls).toBe(2);
+    expect(http.requests).toHaveLength(2);
+
+    const recovering = new (class extends Agent {
+      public calls = 0;
+
+      async handle(): Promise<AgentResponse> {
+        this.calls++;
+        throw new Error("temporary");
+      }
+
+      protected override onError(): AgentResponse {
+        return { type: "continue", message: "Please try again" };
+      }
+    })({ llmConfig: new FakeLLMProvider([]), idempotency: true });
+    await recovering.handleRequest(body);
+    await recovering.handleRequest(body);
+    expect(recovering.calls).toBe(2);
+  });
+
+  it("should scope request IDs by the authenticated caller", async () => {
+    const { agent } = createAgent({
+      authConfig: [
+        { type: "api_key", headerName: "x-api-key", apiKey: "key-a", label: "tenant-a" },
+        { type: "api_key", headerName: "x-api-key", apiKey: "key-b" },
+      ],
+    });
+
+    const first = await request(agent.app).post("/").set("x-api-key", "key-a").send(body);
+    const other = await request(agent.app).post("/").set("x-api-key", "key-b").send(body);
+    const retry = await request(agent.app).post("/").set("x-api-key", "key-a").send(body);
+
+    expect(agent.calls).toBe(2);
+    expect(other.body.command.payload.message).toBe("Refund 2 created");
+    expect(other.headers["idempotent-replayed"]).toBeUndefined();
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+  });
+
+  it("should expire cached responses after the TTL", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+    const store = new InMemoryIdempotencyStore(500, 2);
+    const response = { command: { type: "send_message" as const, payload: { message: "Hi" } } };
+
+    await store.set("a", response);
+    expect(await store.get("a")).toEqual(response);
+
+    now.mockReturnValue(1_500);
+    expect(await store.get("a")).toBeUndefined();
+
+    await store.set("b", response);
+    await store.set("c", response);
+    await store.set("d", response);
+    expect(store.size).toBe(2);
+    expect(await store.get("b")).toBeUndefined();
+  });
+});
@@ -0,0 +1,229 @@
+import { createHmac, generateKeyPairSync, type KeyObject, sign } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import request from "supertest";
+import { Agent } from "../src/agent";
+import { AuthValidator } from "../src/auth";
+import type { Context } from "../src/context";
+import type { AgentResponse, JWTAuth, JWTClaims } from "../src/domain";
+import { FakeLLMProvider } from "../src/testing";
+
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const rsaPublicPem = rsa.publicKey.export({ type: "spki", format: "pem" }).toString();
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function createToken(
+  header: { alg: string; kid?: string },
+  claims: JWTClaims,
+  key: string | KeyObject
+): string {
+  const signingInput = `${encode({ typ: "JWT", ...header })}.${encode(claims)}`;
+  let signature: Buffer;
+  if (header.alg === "HS256") {
+    signature = createHmac("sha256", key).update(signingInput).digest();
+  } else if (header.alg === "ES256") {
+    signature = sign("sha256", Buffer.from(signingInput), {
+      key: key as KeyObject,
+      dsaEncoding: "ieee-p1363",
+    });
+  } else {
+    signature = sign("sha256", Buffer.from(signingInput), key as KeyObject);
+  }
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+async function authenticate(config: JWTAuth, token: string): Promise<JWTClaims | undefined> {
+  const { claims } = await new AuthValidator(config).authenticate({
+    authorization: `Bearer ${token}`,
+  });
+  return claims;
+}
+
+describe("JWT authentication", () => {
+  let dir: string;
+  let jwksPath: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "jwks-"));
+    jwksPath = join(dir, "jwks.json");
+    await writeFile(
+      jwksPath,
+      JSON.stringify({
+        keys: [
+          { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1", use: "sig" },
+          { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1", alg: "ES256" },
+        ],
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should expose verified claims to handle", async () => {
+    let claims: JWTClaims | undefined;
+    const agent = new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        claims = context.authClaims;
+        return { type: "continue", message: "Hello" };
+      }
+    })({
+      llmConfig: new FakeLLMProvider([]),
+      authConfig: { type: "jwt", key: "gateway-secret", issuer: "gateway", audience: "agents" },
+    });
+    const token = createToken(
+      { alg: "HS256" },
+      { iss: "gateway", aud: ["agents"], sub: "user-1", tenant: "acme", exp: inOneHour() },
+      "gateway-secret"
+    );
+    const body = {
+      metadata: { requestId: "r", chatbotId: "b", conversationId: "c", sequence: 1 },
+      messages: [],
+    };
+
+    const accepted = await request(agent.app)
+      .post("/")
+      .set("Authorization", `Bearer ${token}`)
+      .send(body);
+    const rejected = await request(agent.app)
+      .post("/")
+      .set("Authorization", `Bearer ${token}x`)
+      .send(body);
+
+    expect(accepted.status).toBe(200);
+    expect(claims).toMatchObject({ sub: "user-1", tenant: "acme" });
+    expect(rejected.status).toBe(401);
+    expect(rejected.body).toEqual({ error: "Invalid token signature" });
+  });
+
+  it("should verify RS256 and ES256 tokens against a local JWKS file", async () => {
+    const config: JWTAuth = { type: "jwt", jwksPath };
+
+    await expect(
+      authenticate(
+        config,
+        createToken({ alg: "RS256", kid: "rsa-1" }, { exp: inOneHour() }, rsa.privateKey)
+      )
+    ).resolves.toMatchObject({ exp: expect.any(Number) });
+    await expect(
+      authenticate(
+        config,
+        createToken({ alg: "ES256", kid: "ec-1" }, { exp: inOneHour() }, ec.privateKey)
+      )
+    ).resolves.toBeDefined();
+    await expect(
+      authenticate(
+        config,
+        createToken({ alg: "ES256", kid: "rsa-1" }, { exp: inOneHour() }, ec.privateKey)
+      )
+    ).rejects.toMatchObject({ status: 401, message: "No key matches the token" });
+  });
+
+  it("should not use a public key as an HMAC secret", async () => {
+    const forged = createToken({ alg: "HS256" }, { exp: inOneHour() }, rsaPublicPem);
+
+    await expect(authenticate({ type: "jwt", key: rsaPublicPem }, forged)).rejects.toMatchObject({
+      status: 401,
+      message: "No key matches the token",
+    });
+  });
+
+  it("should check expiry, not-before, issuer and audience with clock skew", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const config: JWTAuth = {
+      type: "jwt",
+      key: "secret",
+      issuer: ["gateway"],
+      audience: "agents",
+      clockSkewSeconds: 30,
+    };
+    const token = (claims: JWTClaims) => createToken({ alg: "HS256" }, claims, "secret");
+    const valid = { iss: "gateway", aud: "agents", exp: now + 60 };
+
+    await expect(authenticate(config, token({ ...valid, exp: now - 10 }))).resolves.toBeDefined();
+    await expect(authenticate(config, token({ ...valid, exp: now - 40 }))).rejects.toThrow(
+      "Token has expired"
+    );
+    await expect(authenticate(config, token({ ...valid, nbf: now + 120 }))).rejects.toThrow(
+      "Token is not yet valid"
+    );
+    await expect(authenticate(config, token({ ...valid, iss: "other" }))).rejects.toThrow(
+      "Invalid token issuer"
+    );
+    await expect(authenticate(config, token({ ...valid, aud: "billing" }))).rejects.toThrow(
+      "Invalid token audience"
+    );
+    await expect(authenticate(config, token({ iss: "gateway", aud: "agents" }))).rejects.toThrow(
+      "Token has no expiration time"
+    );
+  });
+
+  it("should cache a fetched JWKS document and refetch it for unknown key IDs", async () => {
+    const rotated = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const documents = [
+      { keys: [{ ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1" }] },
+      { keys: [{ ...rotated.publicKey.export({ format: "jwk" }), kid: "rsa-2" }] },
+    ];
+    const fetchSpy = jest
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => Response.json(documents[fetchSpy.mock.calls.length - 1]));
+    const validator = new AuthValidator({
+      type: "jwt",
+      jwksUri: "https://gateway.example.com/.well-known/jwks.json",
+    });
+    const headers = (kid: string, key: KeyObject) => ({
+      authorization: `Bearer ${createToken({ alg: "RS256", kid }, { exp: inOneHour() }, key)}`,
+    });
+
+    await validator.authenticate(headers("rsa-1", rsa.privateKey));
+    await validator.authenticate(headers("rsa-1", rsa.privateKey));
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    // Unknown key IDs trigger a refetch at most every 30 seconds
+    const rotatedHeaders = headers("rsa-2", rotated.privateKey);
+    await expect(validator.authenticate(rotatedHeaders)).rejects.toThrow("No key matches");
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 31_000);
+    await validator.authenticate(rotatedHeaders);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fetch JWKS with a timeout and wait before retrying a failed load", async () => {
+    const fetchSpy = jest
+      .spyOn(globalThis, "fetch")
+      .mockRejectedValue(new DOMException("The operation timed out", "TimeoutError"));
+    const validator = new AuthValidator({
+      type: "jwt",
+      jwksUri: "https://gateway.example.com/.well-known/jwks.json",
+    });
+    const headers = {
+      authorization: `Bearer ${createToken({ alg: "RS256", kid: "rsa-1" }, { exp: inOneHour() }, rsa.privateKey)}`,
+    };
+
+    await expect(validator.authenticate(headers)).rejects.toThrow("Failed to load JWKS");
+    await expect(validator.authenticate(headers)).rejects.toThrow("Failed to load JWKS");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0]?.[1]?.signal).toBeInstanceOf(AbortSignal);
+
+    fetchSpy.mockResolvedValue(
+      Response.json({ keys: [{ ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1" }] })
+    );
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 31_000);
+    await validator.authenticate(headers);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
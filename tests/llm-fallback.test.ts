@@ -0,0 +1,200 @@
+import { ApiError } from "@google/genai";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { APIError } from "openai";
+import { z } from "zod";
+import { LLM } from "../src/llm/index";
+import { defineTool } from "../src/llm/tools";
+import type { Event, LLMCallEvent, Message } from "../src/protocol";
+
+const messages: Message[] = [
+  { author: "User", content: "Hello", timestamp: new Date().toISOString() },
+];
+
+describe("LLM provider fallback", () => {
+  let events: Event[];
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking
+  let mockOpenAICreate: jest.MockedFunction<any>;
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking
+  let mockGoogleGenerate: jest.MockedFunction<any>;
+
+  const createLLM = async (llmTimeoutMs?: number) => {
+    const llm = new LLM(
+      [
+        { provider: "openai", apiKey: "test-key", model: "gpt-5-mini" },
+        { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+      ],
+      true,
+      true,
+      false,
+      llmTimeoutMs,
+      0
+    );
+    // biome-ignore lint/suspicious/noExplicitAny: Accessing private providers for mocking
+    const [openaiProvider, googleProvider] = await (llm as any).getProviders();
+    mockOpenAICreate = jest.fn();
+    openaiProvider.getOpenAI().chat.completions.create = mockOpenAICreate;
+    mockGoogleGenerate = jest.fn();
+    googleProvider.getGenAI().models.generateContent = mockGoogleGenerate;
+    return llm;
+  };
+
+  const llmEvents = () =>
+    events.filter((event): event is LLMCallEvent => event.type === "llm_call");
+
+  beforeEach(() => {
+    events = [];
+  });
+
+  it("should use the primary provider when it succeeds", async () => {
+    const llm = await createLLM();
+    mockOpenAICreate.mockResolvedValue({ choices: [{ message: { content: "From OpenAI" } }] });
+
+    const result = await llm.generateContent(
+      messages,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      events
+    );
+
+    expect(result).toBe("From OpenAI");
+    expect(mockGoogleGenerate).not.toHaveBeenCalled();
+    expect(llmEvents()).toHaveLength(1);
+  });
+
+  it("should fall back on retryable provider errors", async () => {
+    const llm = await createLLM();
+    mockOpenAICreate.mockRejectedValue(
+      new APIError(503, undefined, "Service unavailable", new Headers())
+    );
+    mockGoogleGenerate.mockResolvedValue({ text: "From Gemini" });
+
+    const result = await llm.generateContent(
+      messages,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      events
+    );
+
+    expect(result).toBe("From Gemini");
+    expect(llmEvents().map((event) => event.payload.model)).toEqual([
+      "gpt-5-mini",
+      "gemini-2.5-flash",
+    ]);
+    expect(llmEvents()[0]?.payload.response).toBe("Error: 503 Service unavailable");
+    expect(llmEvents()[1]?.payload.response).toBe("From Gemini");
+  });
+
+  it("should fall back when the primary provider times out", async () => {
+    const llm = await createLLM(20);
+    mockOpenAICreate.mockImplementation(
+      (_body: unknown, options: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          options.signal.addEventListener("abort", () => reject(new Error("aborted")));
+        })
+    );
+    mockGoogleGenerate.mockResolvedValue({ text: "From Gemini" });
+
+    const result = await llm.generateContent(
+      messages,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      events
+    );
+
+    expect(result).toBe("From Gemini");
+    expect(llmEvents()[0]?.payload.response).toMatch(/^Error: LLM request timed out after 20ms/);
+  });
+
+  it("should not fall back on non-retryable errors", async () => {
+    const llm = await createLLM();
+    mockOpenAICreate.mockRejectedValue(new APIError(400, undefined, "Bad request", new Headers()));
+
+    await expect(
+      llm.generateContent(messages, undefined, undefined, undefined, undefined, undefined, events)
+    ).rejects.toThrow("Bad request");
+    expect(mockGoogleGenerate).not.toHaveBeenCalled();
+    expect(llmEvents()).toHaveLength(1);
+  });
+
+  it("should not repeat a tool-calling run on the next provider once a tool has run", async () => {
+    const llm = await createLLM();
+    const refundHandler = jest.fn(async () => ({ refunded: true }));
+    const tools = [
+      defineTool({
+        name: "create_refund",
+        description: "Refund an order",
+        inputSchema: z.object({ orderNumber: z.string() }),
+        handler: refundHandler,
+      }),
+    ];
+    mockOpenAICreate
+      .mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [
+                {
+                  id: "call_1",
+                  type: "function",
+                  function: { name: "create_refund", arguments: '{"orderNumber":"123"}' },
+                },
+              ],
+            },
+          },
+        ],
+      })
+      .mockRejectedValueOnce(new APIError(503, undefined, "Service unavailable", new Headers()));
+
+    await expect(
+      llm.generateContentWithTools(
+        messages,
+        tools,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      )
+    ).rejects.toThrow("Service unavailable");
+    expect(refundHandler).toHaveBeenCalledTimes(1);
+    expect(mockGoogleGenerate).not.toHaveBeenCalled();
+  });
+
+  it("should surface the last provider error when every provider fails", async () => {
+    jest.useFakeTimers();
+    try {
+      const llm = await createLLM();
+      mockOpenAICreate.mockRejectedValue(new APIError(500, undefined, "Boom", new Headers()));
+      mockGoogleGenerate.mockRejectedValue(new ApiError({ status: 503, message: "Overloaded" }));
+
+      const promise = llm.generateContent(
+        messages,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+      const assertion = expect(promise).rejects.toThrow("Overloaded");
+      // Skip Gemini's own retry backoff
+      await jest.runAllTimersAsync();
+      await assertion;
+      expect(llmEvents()).toHaveLength(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
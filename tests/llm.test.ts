@@ -102,7 +102,7 @@ describe("LLM Integration", () => {
 
       // Wait for provider to initialize and then mock it
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
-      const provider = await (mockLLM as any).getProvider();
+      const [provider] = await (mockLLM as any).getProviders();
 
       // Mock the provider's generateContent method
       mockGenerateContent = jest.fn();
@@ -208,7 +208,7 @@ describe("LLM Integration", () => {
 
       // Wait for provider to initialize and then mock it
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
-      const provider = await (mockLLM as any).getProvider();
+      const [provider] = await (mockLLM as any).getProviders();
 
       // Mock the internal provider's generateStructuredContent method
       const mockStructuredResponse = {
@@ -268,7 +268,7 @@ describe("LLM Integration", () => {
     it("should validate response against schema", async () => {
       // Mock an invalid response that doesn't match the schema
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
-      const provider = await (mockLLM as any).getProvider();
+      const [provider] = await (mockLLM as any).getProviders();
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
       const mockInvalidStructuredContent: jest.MockedFunction<any> = jest.fn();
       // Simulate what would happen if the provider's validation fails
@@ -333,7 +333,7 @@ describe("LLM Integration", () => {
       events = [];
 
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
-      const provider = await (mockLLM as any).getProvider();
+      const [provider] = await (mockLLM as any).getProviders();
 
       mockGenerateContent = jest.fn();
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
@@ -420,7 +420,7 @@ describe("LLM Integration", () => {
       events = [];
 
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
-      const provider = await (mockLLM as any).getProvider();
+      const [provider] = await (mockLLM as any).getProviders();
 
       mockGenerateContentWithCandidates = jest.fn();
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
@@ -529,7 +529,7 @@ describe("LLM Integration", () => {
       events = [];
 
       // biome-ignore lint/suspicious/noExplicitAny: any is allowed in tests
-      const provider = await (mockLLM as any).getProvider();
+      const [provider] = await (mockLLM as any).getProviders();
 
       const mockResponses = [
         { field1: "value1", field2: 1 },
@@ -741,7 +741,7 @@ describe("OpenAI provider sends & logs prefixed content", () => {
     };
     const llm = new LLM(config, true, true);
     // biome-ignore lint/suspicious/noExplicitAny: accessing internals for testing
-    provider = await (llm as any).getProvider();
+    [provider] = await (llm as any).getProviders();
     create = jest.fn();
     create.mockResolvedValue({ choices: [{ message: { content: "ok" } }] });
     provider.openai = { chat: { completions: { create } } };
@@ -805,7 +805,7 @@ describe("Google provider sends & logs prefixed content", () => {
     };
     const llm = new LLM(config, true, true);
     // biome-ignore lint/suspicious/noExplicitAny: accessing internals for testing
-    provider = await (llm as any).getProvider();
+    [provider] = await (llm as any).getProviders();
     generateContent = jest.fn();
     generateContent.mockResolvedValue({ text: "ok" });
     provider.genAI = { models: { generateContent } };
@@ -861,7 +861,7 @@ describe("includeRandomNonceToPreventCaching", () => {
   };
 
   // biome-ignore lint/suspicious/noExplicitAny: reaching into the protected builder for testing
-  const getProvider = async (llm: LLM): Promise<any> => (llm as any).getProvider();
+  const getProvider = async (llm: LLM): Promise<any> => (await (llm as any).getProviders())[0];
 
   it("prepends a nonce at the very beginning when enabled", async () => {
     const llm = new LLM(config, false, false, true);
@@ -901,7 +901,7 @@ describe("llmTimeoutMs / llmTimeoutRetries", () => {
   };
 
   // biome-ignore lint/suspicious/noExplicitAny: reaching into the protected helper for testing
-  const getProvider = async (llm: LLM): Promise<any> => (llm as any).getProvider();
+  const getProvider = async (llm: LLM): Promise<any> => (await (llm as any).getProviders())[0];
 
   // Rejects only once the per-attempt timeout aborts the signal (simulates a hung request).
   const hangUntilAbort = (signal: AbortSignal | undefined): Promise<never> =>
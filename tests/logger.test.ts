@@ -0,0 +1,96 @@
+import { Writable } from "node:stream";
+import { describe, expect, it, jest } from "@jest/globals";
+import winston from "winston";
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { FakeLLMProvider, runConversation } from "../src/testing";
+
+class EchoAgent extends Agent {
+  async handle(context: Context): Promise<AgentResponse> {
+    this.logger.debug("Generating answer");
+    const answer = await context.llm.generateContent(context.messages);
+    return { type: "continue", message: answer };
+  }
+}
+
+function captureLines(): { lines: string[]; transport: winston.transport } {
+  const lines: string[] = [];
+  const stream = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      lines.push(chunk.toString().trim());
+      callback();
+    },
+  });
+  return { lines, transport: new winston.transports.Stream({ stream }) };
+}
+
+// Transports receive entries asynchronously
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe("Logging", () => {
+  function createAgent(options: Partial<AgentOptions>, responses = ["Hello!"]): EchoAgent {
+    return new EchoAgent({ llmConfig: new FakeLLMProvider(responses), ...options });
+  }
+
+  it("should honor the agent log level", async () => {
+    const { lines, transport } = captureLines();
+    await runConversation(createAgent({ logLevel: "debug", logTransports: [transport] }), ["Hi"]);
+    const { lines: warnLines, transport: warnTransport } = captureLines();
+    await runConversation(createAgent({ logLevel: "warn", logTransports: [warnTransport] }), [
+      "Hi",
+    ]);
+    await flush();
+
+    expect(lines.some((line) => line.includes("DEBUG - Generating answer"))).toBe(true);
+    expect(warnLines).toEqual([]);
+  });
+
+  it("should write JSON lines bound to the request", async () => {
+    const { lines, transport } = captureLines();
+    const agent = createAgent({ logFormat: "json", logTransports: [transport] });
+
+    await runConversation(agent, ["Hi"], { conversationId: "conversation-1" });
+    await flush();
+    const entries = lines.map((line) => JSON.parse(line) as Record<string, unknown>);
+
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: "info",
+        message: "Processing request",
+        component: "zowie_agent.EchoAgent",
+        requestId: "conversation-1-1",
+        conversationId: "conversation-1",
+        correlationId: "conversation-1-1",
+        path: "/",
+      })
+    );
+    expect(entries.find((entry) => entry["message"] === "Agent initialized")).not.toHaveProperty(
+      "requestId"
+    );
+  });
+
+  it("should forward entries of SDK components to a pino-compatible logger", async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const agent = createAgent({ logger }, []);
+
+    await expect(runConversation(agent, ["Hi"])).rejects.toThrow("no response");
+    await flush();
+
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({
+        component: "zowie_agent.EchoAgent",
+        requestId: "test-conversation-1",
+      }),
+      "Processing request"
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({
+        component: "zowie_agent.FakeLLMProvider",
+        requestId: "test-conversation-1",
+        conversationId: "test-conversation",
+      }),
+      expect.stringContaining("LLM request failed")
+    );
+  });
+});
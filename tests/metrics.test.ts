@@ -0,0 +1,145 @@
+import { describe, expect, it } from "@jest/globals";
+import request from "supertest";
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { MetricsRegistry } from "../src/metrics";
+import type { Event, Message } from "../src/protocol";
+import { createRequest, FakeHTTP, FakeLLMProvider, runConversation } from "../src/testing";
+
+class UsageReportingProvider extends FakeLLMProvider {
+  override async generateContent(
+    messages: Message[],
+    systemInstruction?: string,
+    _includePersona?: boolean,
+    _includeContext?: boolean,
+    _persona?: unknown,
+    _context?: string,
+    events: Event[] = []
+  ): Promise<string> {
+    return this.withTiming(
+      async (recordUsage) => {
+        recordUsage({ inputTokens: 12, outputTokens: 3 });
+        return "Your order has shipped.";
+      },
+      messages,
+      systemInstruction ?? "",
+      events
+    );
+  }
+}
+
+class OrderAgent extends Agent {
+  async handle(context: Context): Promise<AgentResponse> {
+    await context.http.get("https://shop.example.com/orders/1");
+    const answer = await context.llm.generateContent(context.messages, "Answer");
+    return { type: "continue", message: answer };
+  }
+}
+
+function createAgent(options: Partial<AgentOptions> = {}): OrderAgent {
+  const http = new FakeHTTP().get("https://shop.example.com/orders/1", {
+    body: { status: "shipped" },
+  });
+  return new OrderAgent({
+    llmConfig: new UsageReportingProvider(),
+    httpFetch: http.fetch,
+    metrics: true,
+    ...options,
+  });
+}
+
+describe("Prometheus metrics", () => {
+  it("should record requests, commands, LLM calls and HTTP calls", async () => {
+    const agent = createAgent();
+
+    await runConversation(agent, ["Where is my order?", "Thanks"]);
+
+    const output = agent.metrics?.render() ?? "";
+    expect(output).toContain("# TYPE zowie_agent_requests_total counter");
+    expect(output).toContain('zowie_agent_requests_total{path="/",outcome="success"} 2');
+    expect(output).toContain(
+      'zowie_agent_request_duration_seconds_count{path="/",outcome="success"} 2'
+    );
+    expect(output).toContain("zowie_agent_requests_in_flight 0");
+    expect(output).toContain('zowie_agent_commands_total{type="send_message"} 2');
+    expect(output).toContain('zowie_agent_llm_calls_total{model="fake-model"} 2');
+    expect(output).toContain('zowie_agent_llm_tokens_total{model="fake-model",type="input"} 24');
+    expect(output).toContain('zowie_agent_llm_tokens_total{model="fake-model",type="output"} 6');
+    expect(output).toContain(
+      'zowie_agent_http_calls_total{host="shop.example.com",status="200"} 2'
+    );
+    expect(output).toContain(
+      'zowie_agent_http_call_duration_seconds_bucket{host="shop.example.com",status="200",le="+Inf"} 2'
+    );
+  });
+
+  it("should label invalid and failed requests, and unlisted paths as other", async () => {
+    const agent = createAgent({ llmConfig: new FakeLLMProvider([new Error("overloaded")]) });
+
+    await expect(agent.handleRequest({ metadata: {} }, { path: "/orders" })).rejects.toThrow();
+    await expect(runConversation(agent, ["Hi"])).rejects.toThrow("overloaded");
+
+    const output = agent.metrics?.render() ?? "";
+    expect(output).toContain('zowie_agent_requests_total{path="other",outcome="invalid"} 1');
+    expect(output).toContain('zowie_agent_requests_total{path="/",outcome="error"} 1');
+    expect(output).toContain(
+      'zowie_agent_http_calls_total{host="shop.example.com",status="200"} 1'
+    );
+    expect(output).not.toContain("zowie_agent_commands_total{");
+  });
+
+  it("should label requests answered with the deadline response", async () => {
+    const agent = createAgent({
+      httpFetch: new FakeHTTP().get("https://shop.example.com/orders/1", {
+        delayMs: 60000,
+        body: {},
+      }).fetch,
+      requestDeadlineMs: 20,
+      metrics: { paths: ["/", "/orders"] },
+    });
+
+    await runConversation(agent, ["Where is my order?"]);
+    await agent.handleRequest(createRequest(), { path: "/orders" });
+
+    const output = agent.metrics?.render() ?? "";
+    expect(output).toContain('zowie_agent_requests_total{path="/",outcome="deadline"} 1');
+    expect(output).toContain('zowie_agent_requests_total{path="/orders",outcome="deadline"} 1');
+    expect(output).not.toContain('outcome="success"');
+  });
+
+  it("should serve the metrics route without authentication", async () => {
+    const registry = new MetricsRegistry();
+    registry.counter("refunds_total", "Refunds issued").inc();
+    const agent = createAgent({
+      metrics: { path: "/internal/metrics", registry },
+      authConfig: { type: "api_key", headerName: "X-API-Key", apiKey: "secret" },
+    });
+
+    const response = await request(agent.app).get("/internal/metrics");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toMatch(/^text\/plain;.*version=0.0.4/);
+    expect(response.text).toContain("refunds_total 1");
+    expect(response.text).toContain("zowie_agent_requests_in_flight 0");
+    expect(agent.metrics).toBe(registry);
+  });
+
+  it("should not record or serve metrics by default", async () => {
+    const agent = createAgent({ metrics: undefined });
+
+    const response = await request(agent.app).get("/metrics");
+
+    expect(agent.metrics).toBeUndefined();
+    expect(response.status).not.toBe(200);
+  });
+
+  it("should reject registering a metric under another type", () => {
+    const registry = new MetricsRegistry();
+    registry.counter("jobs", "Jobs");
+
+    expect(() => registry.gauge("jobs", "Jobs")).toThrow(
+      "Metric jobs is already registered as a counter"
+    );
+  });
+});
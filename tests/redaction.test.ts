@@ -0,0 +1,172 @@
+import { describe, expect, it } from "@jest/globals";
+import { Agent } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import type { APICallEvent, Event } from "../src/protocol";
+import { Redactor } from "../src/redaction";
+
+const apiCall = (payload: Partial<APICallEvent["payload"]>): APICallEvent => ({
+  type: "api_call",
+  payload: {
+    url: "https://api.example.com/orders",
+    requestMethod: "POST",
+    requestHeaders: {},
+    responseHeaders: {},
+    responseStatusCode: 200,
+    durationInMillis: 10,
+    ...payload,
+  },
+});
+
+describe("Redaction", () => {
+  describe("Redactor", () => {
+    it("should redact default credential headers case-insensitively", () => {
+      const event = new Redactor().redactEvent(
+        apiCall({
+          requestHeaders: { Authorization: "Bearer secret", "X-Trace": "abc" },
+          responseHeaders: { "Set-Cookie": "session=1" },
+        })
+      ) as APICallEvent;
+
+      expect(event.payload.requestHeaders).toEqual({
+        Authorization: "[REDACTED]",
+        "X-Trace": "abc",
+      });
+      expect(event.payload.responseHeaders).toEqual({ "Set-Cookie": "[REDACTED]" });
+    });
+
+    it("should mask JSON body paths", () => {
+      const redactor = new Redactor({
+        bodyPaths: ["password", "$.user.ssn", "cards[*].number"],
+        replacement: "***",
+      });
+
+      const event = redactor.redactEvent(
+        apiCall({
+          requestBody: JSON.stringify({
+            password: "hunter2",
+            user: { name: "Ann", ssn: "123-45-6789" },
+            cards: [{ number: "4111", brand: "visa" }, { number: "5500" }],
+          }),
+          responseBody: "not json",
+        })
+      ) as APICallEvent;
+
+      expect(JSON.parse(event.payload.requestBody ?? "")).toEqual({
+        password: "***",
+        user: { name: "Ann", ssn: "***" },
+        cards: [{ number: "***", brand: "visa" }, { number: "***" }],
+      });
+      expect(event.payload.responseBody).toBe("not json");
+    });
+
+    it("should detect emails, card numbers and phone numbers in text", () => {
+      const redactor = new Redactor({ detectors: ["email", "cardNumber", "phoneNumber"] });
+
+      expect(
+        redactor.redactText(
+          "Mail ann.lee@example.com, card 4111 1111 1111 1111, call +48 601 234 567."
+        )
+      ).toBe("Mail [REDACTED], card [REDACTED], call [REDACTED].");
+    });
+
+    it("should leave numbers that are not cards or phones alone", () => {
+      const redactor = new Redactor({ detectors: ["cardNumber", "phoneNumber"] });
+
+      // Fails the Luhn check
+      expect(redactor.redactText("Order 1234 5678 9012 3456")).toBe("Order 1234 5678 9012 3456");
+      expect(redactor.redactText("Shipped on 2025-12-05")).toBe("Shipped on 2025-12-05");
+    });
+
+    it("should apply custom patterns to all event types", () => {
+      const redactor = new Redactor({ patterns: [/PL\d{26}/] });
+      const iban = "PL61109010140000071219812874";
+      const events: Event[] = [
+        {
+          type: "llm_call",
+          payload: { prompt: `IBAN ${iban}`, response: iban, model: "m", durationInMillis: 1 },
+        },
+        {
+          type: "tool_call",
+          payload: { toolName: "t", input: iban, output: "ok", durationInMillis: 1 },
+        },
+      ];
+
+      expect(events.map((event) => redactor.redactEvent(event).payload)).toEqual([
+        expect.objectContaining({ prompt: "IBAN [REDACTED]", response: "[REDACTED]" }),
+        expect.objectContaining({ input: "[REDACTED]", output: "ok" }),
+      ]);
+    });
+  });
+
+  describe("Agent integration", () => {
+    class LoggingAgent extends Agent {
+      lastEvents: Event[] = [];
+
+      async handle(context: Context): Promise<AgentResponse> {
+        context.logAPICall({
+          url: "https://crm.example.com/customers?email=ann@example.com",
+          requestMethod: "GET",
+          requestHeaders: { Authorization: "Bearer secret" },
+          responseStatusCode: 200,
+          responseBody: '{"email":"ann@example.com","tier":"gold"}',
+          durationInMillis: 5,
+        });
+        context.logLLMCall({
+          prompt: "Customer ann@example.com asks about their order",
+          response: "Sure",
+          model: "external-model",
+          durationInMillis: 5,
+        });
+        this.lastEvents = context.events;
+        return { type: "continue", message: "Done" };
+      }
+    }
+
+    const request = {
+      metadata: { requestId: "req-1", chatbotId: "bot-1", conversationId: "conv-1", sequence: 1 },
+      messages: [{ author: "User", content: "Hi", timestamp: new Date().toISOString() }],
+    };
+
+    it("should redact events in the response only", async () => {
+      const agent = new LoggingAgent({
+        llmConfig: { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+        redaction: { detectors: ["email"] },
+      });
+
+      const response = await agent.handleRequest(request);
+
+      expect(response.events).toEqual([
+        apiCall({
+          url: "https://crm.example.com/customers?email=[REDACTED]",
+          requestMethod: "GET",
+          requestHeaders: { Authorization: "[REDACTED]" },
+          requestBody: undefined,
+          responseBody: '{"email":"[REDACTED]","tier":"gold"}',
+          durationInMillis: 5,
+        }),
+        {
+          type: "llm_call",
+          payload: expect.objectContaining({
+            prompt: "Customer [REDACTED] asks about their order",
+          }),
+        },
+      ]);
+      expect(agent.lastEvents[1]?.payload).toMatchObject({
+        prompt: "Customer ann@example.com asks about their order",
+      });
+    });
+
+    it("should not redact without a redaction config", async () => {
+      const agent = new LoggingAgent({
+        llmConfig: { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+      });
+
+      const response = await agent.handleRequest(request);
+
+      expect(response.events?.[0]).toMatchObject({
+        payload: { requestHeaders: { Authorization: "Bearer secret" } },
+      });
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { HTTPClient } from "../src/http";
+import { getRequestScope, type RequestScope } from "../src/scope";
+import { FakeHTTP, FakeLLMProvider, runConversation } from "../src/testing";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+describe("Request scope", () => {
+  let http: FakeHTTP;
+  let scopes: (RequestScope | undefined)[];
+
+  beforeEach(() => {
+    http = new FakeHTTP().on("*", /example\.com/, { body: { ok: true } });
+    scopes = [];
+  });
+
+  function createAgent(
+    options: Partial<AgentOptions>,
+    handle: (context: Context) => Promise<void> = async (context) => {
+      await context.http.get("https://api.example.com/orders");
+    }
+  ): Agent {
+    return new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        scopes.push(getRequestScope());
+        await handle(context);
+        return { type: "continue", message: "Done" };
+      }
+    })({ llmConfig: new FakeLLMProvider(["Hi"]), httpFetch: http.fetch, ...options });
+  }
+
+  it("should propagate the incoming request ID and trace to outgoing requests", async () => {
+    const agent = createAgent({ correlationHeaders: ["x-request-id", "traceparent"] });
+
+    await runConversation(agent, ["Hello"], {
+      headers: { "X-Request-Id": "corr-1", traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-01` },
+    });
+
+    const [request] = http.requests;
+    expect(request?.headers["x-request-id"]).toBe("corr-1");
+    expect(request?.headers["traceparent"]).toMatch(
+      new RegExp(`^00-${TRACE_ID}-(?!00f067aa0ba902b7)[0-9a-f]{16}-01$`)
+    );
+    expect(scopes[0]).toMatchObject({
+      correlationId: "corr-1",
+      trace: { traceId: TRACE_ID, traceFlags: "01" },
+      metadata: { requestId: "test-conversation-1" },
+    });
+  });
+
+  it("should fall back to the request ID and start a new trace", async () => {
+    const agent = createAgent({ correlationHeaders: ["x-request-id", "traceparent"] });
+
+    await runConversation(agent, ["Hello"], { headers: { traceparent: "not-a-trace" } });
+
+    const [request] = http.requests;
+    expect(request?.headers["x-request-id"]).toBe("test-conversation-1");
+    expect(request?.headers["traceparent"]).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(request?.headers["traceparent"]).toContain(scopes[0]?.trace.traceId);
+  });
+
+  it("should add correlation headers only when configured and not set by the caller", async () => {
+    await runConversation(createAgent({}), ["Hello"]);
+    await runConversation(
+      createAgent({ correlationHeaders: ["x-request-id"] }, async (context) => {
+        await context.http.get("https://api.example.com/orders", { "x-request-id": "custom" });
+      }),
+      ["Hello"]
+    );
+
+    expect(http.requests[0]?.headers).not.toHaveProperty("x-request-id");
+    expect(http.requests[0]?.headers).not.toHaveProperty("traceparent");
+    expect(http.requests[1]?.headers["x-request-id"]).toBe("custom");
+  });
+
+  it("should record events of shared clients used outside the context", async () => {
+    const sharedClient = new HTTPClient(5000, true, true, undefined, undefined, http.fetch);
+    const agent = createAgent({}, async () => {
+      await sharedClient.post("https://billing.example.com/charges", { amount: 10 });
+    });
+
+    const [turn] = await runConversation(agent, ["Hello"]);
+
+    expect(turn?.response.events).toEqual([
+      expect.objectContaining({
+        type: "api_call",
+        payload: expect.objectContaining({ url: "https://billing.example.com/charges" }),
+      }),
+    ]);
+    expect(getRequestScope()).toBeUndefined();
+  });
+});
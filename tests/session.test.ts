@@ -0,0 +1,211 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { AgentOptions } from "../src/agent";
+import { Agent } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { FileSessionStore, InMemorySessionStore, Session, type SessionStore } from "../src/session";
+
+interface CounterSession {
+  turns: number;
+  lastMessage: string;
+}
+
+class CounterAgent extends Agent<CounterSession> {
+  async handle(context: Context<CounterSession>): Promise<AgentResponse> {
+    const message = context.messages.at(-1)?.content ?? "";
+    if (message === "reset") {
+      context.session.clear();
+      return { type: "continue", message: "Reset" };
+    }
+    if (message === "peek") {
+      return { type: "continue", message: `Turns: ${context.session.get("turns") ?? 0}` };
+    }
+
+    const turns = (context.session.get("turns") ?? 0) + 1;
+    context.session.set("turns", turns);
+    context.session.set("lastMessage", message);
+    return { type: "continue", message: `Turns: ${turns}` };
+  }
+}
+
+const buildRequest = (conversationId: string, content: string) => ({
+  metadata: {
+    requestId: `req-${content}`,
+    chatbotId: "bot-1",
+    conversationId,
+    sequence: 1,
+  },
+  messages: [{ author: "User", content, timestamp: new Date().toISOString() }],
+});
+
+const responseMessage = (response: unknown) =>
+  (response as { command: { payload: { message: string } } }).command.payload.message;
+
+describe("Sessions", () => {
+  describe("Session", () => {
+    it("should track modifications", () => {
+      const session = new Session<CounterSession>("conv-1", { turns: 1 });
+
+      expect(session.isModified).toBe(false);
+      expect(session.get("turns")).toBe(1);
+      session.delete("lastMessage");
+      expect(session.isModified).toBe(false);
+
+      session.set("turns", 2);
+      expect(session.isModified).toBe(true);
+      expect(session.toJSON()).toEqual({ turns: 2 });
+    });
+  });
+
+  describe("InMemorySessionStore", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should return copies of stored data", async () => {
+      const store = new InMemorySessionStore();
+      const data = { nested: { value: 1 } };
+      await store.set("conv-1", data);
+      data.nested.value = 2;
+
+      const loaded = await store.get("conv-1");
+      expect(loaded).toEqual({ nested: { value: 1 } });
+      (loaded as { nested: { value: number } }).nested.value = 3;
+      expect(await store.get("conv-1")).toEqual({ nested: { value: 1 } });
+    });
+
+    it("should expire sessions after the TTL", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+      const store = new InMemorySessionStore(500);
+      await store.set("conv-1", { a: 1 });
+
+      now.mockReturnValue(1_499);
+      expect(await store.get("conv-1")).toEqual({ a: 1 });
+      now.mockReturnValue(1_500);
+      expect(await store.get("conv-1")).toBeUndefined();
+      expect(store.size).toBe(0);
+    });
+
+    it("should evict the least recently used session", async () => {
+      const store = new InMemorySessionStore(60_000, 2);
+      await store.set("conv-1", { a: 1 });
+      await store.set("conv-2", { b: 2 });
+      await store.get("conv-1");
+      await store.set("conv-3", { c: 3 });
+
+      expect(await store.get("conv-1")).toEqual({ a: 1 });
+      expect(await store.get("conv-2")).toBeUndefined();
+      expect(await store.get("conv-3")).toEqual({ c: 3 });
+    });
+  });
+
+  describe("FileSessionStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "zowie-sessions-"));
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should persist sessions across store instances", async () => {
+      await new FileSessionStore(directory).set("conv/1", { turns: 3 });
+
+      expect(await new FileSessionStore(directory).get("conv/1")).toEqual({ turns: 3 });
+      expect(await readdir(directory)).toEqual(["conv%2F1.json"]);
+    });
+
+    it("should return undefined for unknown sessions", async () => {
+      const store = new FileSessionStore(join(directory, "missing"));
+
+      expect(await store.get("conv-1")).toBeUndefined();
+      await expect(store.delete("conv-1")).resolves.toBeUndefined();
+    });
+
+    it("should remove expired sessions when read", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+      const store = new FileSessionStore(directory, 500);
+      await store.set("conv-1", { a: 1 });
+
+      now.mockReturnValue(2_000);
+      expect(await store.get("conv-1")).toBeUndefined();
+      expect(await readdir(directory)).toEqual([]);
+    });
+  });
+
+  describe("Agent integration", () => {
+    const createAgent = (sessionStore?: SessionStore) => {
+      const options: AgentOptions = {
+        llmConfig: { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+        sessionStore,
+      };
+      return new CounterAgent(options);
+    };
+
+    it("should load the session before handle and save it after", async () => {
+      const store = new InMemorySessionStore();
+      const agent = createAgent(store);
+
+      await agent.handleRequest(buildRequest("conv-1", "first"));
+      const response = await agent.handleRequest(buildRequest("conv-1", "second"));
+
+      expect(responseMessage(response)).toBe("Turns: 2");
+      expect(await store.get("conv-1")).toEqual({ turns: 2, lastMessage: "second" });
+    });
+
+    it("should keep conversations separate", async () => {
+      const agent = createAgent(new InMemorySessionStore());
+
+      await agent.handleRequest(buildRequest("conv-1", "first"));
+      const response = await agent.handleRequest(buildRequest("conv-2", "first"));
+
+      expect(responseMessage(response)).toBe("Turns: 1");
+    });
+
+    it("should only write sessions that changed", async () => {
+      const store = new InMemorySessionStore();
+      const setSpy = jest.spyOn(store, "set");
+      const agent = createAgent(store);
+
+      await agent.handleRequest(buildRequest("conv-1", "first"));
+      await agent.handleRequest(buildRequest("conv-1", "peek"));
+
+      expect(setSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should delete cleared sessions", async () => {
+      const store = new InMemorySessionStore();
+      const agent = createAgent(store);
+
+      await agent.handleRequest(buildRequest("conv-1", "first"));
+      await agent.handleRequest(buildRequest("conv-1", "reset"));
+
+      expect(await store.get("conv-1")).toBeUndefined();
+    });
+
+    it("should still respond when saving the session fails", async () => {
+      const store = new InMemorySessionStore();
+      jest.spyOn(store, "set").mockRejectedValue(new Error("disk full"));
+      const agent = createAgent(store);
+
+      const response = await agent.handleRequest(buildRequest("conv-1", "first"));
+
+      expect(responseMessage(response)).toBe("Turns: 1");
+    });
+
+    it("should give each request an unsaved session without a store", async () => {
+      const agent = createAgent();
+
+      await agent.handleRequest(buildRequest("conv-1", "first"));
+      const response = await agent.handleRequest(buildRequest("conv-1", "second"));
+
+      expect(responseMessage(response)).toBe("Turns: 1");
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "@jest/globals";
+import request from "supertest";
+import { AgentShuttingDownError } from "../src/agent";
+import { createRequest, FakeHTTP } from "../src/testing";
+import { createAgent } from "./helpers";
+
+const body = createRequest();
+
+describe("Graceful shutdown", () => {
+  it("should wait for in-flight requests before running shutdown hooks", async () => {
+    let finishRequest: () => void = () => undefined;
+    const agent = createAgent(
+      () =>
+        new Promise<void>((resolve) => {
+          finishRequest = resolve;
+        })
+    );
+    const steps: string[] = [];
+    agent.onShutdown(() => {
+      steps.push("first hook");
+    });
+    agent.onShutdown(async () => {
+      steps.push("second hook");
+    });
+
+    const inFlight = agent.handleRequest(body);
+    const closed = agent.close().then(() => steps.push("closed"));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(agent.isShuttingDown).toBe(true);
+    expect(steps).toEqual([]);
+
+    finishRequest();
+    const response = await inFlight;
+    await closed;
+
+    expect(response.command).toEqual({ type: "send_message", payload: { message: "Done" } });
+    expect(steps).toEqual(["first hook", "second hook", "closed"]);
+  });
+
+  it("should fail the health check and reject new requests once shutting down", async () => {
+    const agent = createAgent(async () => undefined);
+    await agent.close();
+
+    const health = await request(agent.app).get("/health");
+    expect(health.status).toBe(503);
+    expect(health.body).toMatchObject({ status: "shutting_down" });
+    expect(health.headers["connection"]).toBe("close");
+
+    const response = await request(agent.app).post("/").send(body);
+    expect(response.status).toBe(503);
+    expect(response.body).toEqual({
+      error: "Service unavailable",
+      message: "Agent is shutting down",
+    });
+
+    await expect(agent.handleRequest(body)).rejects.toBeInstanceOf(AgentShuttingDownError);
+  });
+
+  it("should abort outstanding HTTP calls after the shutdown timeout", async () => {
+    const http = new FakeHTTP().get(/example\.com/, { delayMs: 60000, body: {} });
+    const agent = createAgent(
+      async (context) => {
+        await context.http.get("https://api.example.com/slow");
+      },
+      { httpFetch: http.fetch, httpTimeoutMs: 120000, shutdownTimeoutMs: 20 }
+    );
+
+    const inFlight = agent.handleRequest(body);
+    await new Promise((resolve) => setImmediate(resolve));
+    await agent.close();
+
+    await expect(inFlight).rejects.toThrow();
+    expect(http.requests).toHaveLength(1);
+  });
+
+  it("should complete when a handler ignores the abort", async () => {
+    const agent = createAgent(() => new Promise<void>(() => undefined), {
+      shutdownTimeoutMs: 20,
+    });
+    const ran: string[] = [];
+    agent.onShutdown(() => {
+      ran.push("hook");
+    });
+
+    void agent.handleRequest(body);
+    await new Promise((resolve) => setImmediate(resolve));
+    await agent.close();
+
+    expect(ran).toEqual(["hook"]);
+  });
+
+  it("should keep running shutdown hooks after one fails", async () => {
+    const agent = createAgent(async () => undefined);
+    const ran: string[] = [];
+    agent.onShutdown(() => {
+      throw new Error("flush failed");
+    });
+    agent.onShutdown(() => {
+      ran.push("second");
+    });
+
+    await agent.close();
+    await agent.close();
+
+    expect(ran).toEqual(["second"]);
+  });
+});
@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { APIError } from "openai";
+import { GoogleProvider } from "../src/llm/google";
+import { LLM } from "../src/llm/index";
+import { OpenAIProvider } from "../src/llm/openai";
+import type { Event, LLMCallEvent, Message } from "../src/protocol";
+
+const messages: Message[] = [
+  { author: "User", content: "Hello", timestamp: new Date().toISOString() },
+];
+
+const openAIChunk = (content: string) => ({ choices: [{ delta: { content } }] });
+
+async function* chunks<T>(...items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+/** Yields the given items, then waits until the request is aborted */
+async function* stalled<T>(signal: AbortSignal, ...items: T[]): AsyncGenerator<T> {
+  yield* chunks(...items);
+  await new Promise((_resolve, reject) => {
+    signal.addEventListener("abort", () => reject(new Error("Request was aborted.")));
+  });
+}
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const deltas: string[] = [];
+  for await (const delta of stream) {
+    deltas.push(delta);
+  }
+  return deltas;
+};
+
+const llmCallPayloads = (events: Event[]) =>
+  events.filter((event): event is LLMCallEvent => event.type === "llm_call").map((e) => e.payload);
+
+describe("Streaming", () => {
+  let events: Event[];
+
+  beforeEach(() => {
+    events = [];
+  });
+
+  describe("OpenAIProvider", () => {
+    // biome-ignore lint/suspicious/noExplicitAny: Mocking
+    let mockCreate: jest.MockedFunction<any>;
+
+    const createProvider = (llmTimeoutMs?: number, llmTimeoutRetries = 3) => {
+      const provider = new OpenAIProvider(
+        { provider: "openai", apiKey: "test-key", model: "gpt-5-mini" },
+        true,
+        true,
+        false,
+        llmTimeoutMs,
+        llmTimeoutRetries
+      );
+      mockCreate = jest.fn();
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      (provider as any).getOpenAI().chat.completions.create = mockCreate;
+      return provider;
+    };
+
+    const stream = (provider: OpenAIProvider) =>
+      provider.streamContent(
+        messages,
+        "Be brief",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+    it("should yield deltas and record one consolidated llm_call event", async () => {
+      const provider = createProvider();
+      mockCreate.mockResolvedValue(
+        chunks<unknown>(openAIChunk("Hel"), openAIChunk("lo"), {
+          choices: [],
+          usage: { prompt_tokens: 12, completion_tokens: 2, total_tokens: 14 },
+        })
+      );
+
+      const deltas = await collect(stream(provider));
+
+      expect(deltas).toEqual(["Hel", "lo"]);
+      expect(mockCreate.mock.calls[0]?.[0]).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      expect(events).toHaveLength(1);
+      expect(llmCallPayloads(events)[0]).toMatchObject({
+        response: "Hello",
+        model: "gpt-5-mini",
+        durationInMillis: expect.any(Number),
+        inputTokens: 12,
+        outputTokens: 2,
+      });
+    });
+
+    it("should not start the request until iterated", async () => {
+      const provider = createProvider();
+      mockCreate.mockResolvedValue(chunks(openAIChunk("Hi")));
+
+      const iterable = stream(provider);
+      expect(mockCreate).not.toHaveBeenCalled();
+      await collect(iterable);
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply llmTimeoutMs as an idle timeout between chunks", async () => {
+      const provider = createProvider(30);
+      mockCreate.mockImplementation(async (_body: unknown, options: { signal: AbortSignal }) =>
+        stalled(options.signal, openAIChunk("Partial"))
+      );
+
+      const deltas: string[] = [];
+      await expect(
+        (async () => {
+          for await (const delta of stream(provider)) {
+            deltas.push(delta);
+          }
+        })()
+      ).rejects.toThrow("LLM stream received no data for 30ms");
+
+      expect(deltas).toEqual(["Partial"]);
+      // Text was already produced, so the stream is not retried
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(1);
+      expect(llmCallPayloads(events)[0]?.response).toBe(
+        "Error: LLM stream received no data for 30ms"
+      );
+    });
+
+    it("should reopen a stream that times out before producing text", async () => {
+      const provider = createProvider(30, 1);
+      mockCreate
+        .mockImplementationOnce(async (_body: unknown, options: { signal: AbortSignal }) =>
+          stalled(options.signal)
+        )
+        .mockResolvedValueOnce(chunks(openAIChunk("Hi")));
+
+      await expect(collect(stream(provider))).resolves.toEqual(["Hi"]);
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(llmCallPayloads(events).map((payload) => payload.response)).toEqual(["Hi"]);
+    });
+
+    it("should record the partial text and abort when the consumer stops early", async () => {
+      const provider = createProvider();
+      let signal: AbortSignal | undefined;
+      mockCreate.mockImplementation(async (_body: unknown, options: { signal: AbortSignal }) => {
+        signal = options.signal;
+        return chunks(openAIChunk("One"), openAIChunk("Two"), openAIChunk("Three"));
+      });
+
+      for await (const delta of stream(provider)) {
+        if (delta === "Two") {
+          break;
+        }
+      }
+
+      expect(signal?.aborted).toBe(true);
+      expect(llmCallPayloads(events).map((payload) => payload.response)).toEqual(["OneTwo"]);
+    });
+  });
+
+  describe("GoogleProvider", () => {
+    it("should stream text chunks with the final usage metadata", async () => {
+      const provider = new GoogleProvider({
+        provider: "google",
+        apiKey: "test-key",
+        model: "gemini-2.5-flash",
+      });
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      const mockStream: jest.MockedFunction<any> = jest.fn(async () =>
+        chunks(
+          { text: "Hi ", usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 1 } },
+          { text: "there", usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 2 } }
+        )
+      );
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      (provider as any).getGenAI().models.generateContentStream = mockStream;
+
+      const deltas = await collect(
+        provider.streamContent(
+          messages,
+          "Be brief",
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          events
+        )
+      );
+
+      expect(deltas).toEqual(["Hi ", "there"]);
+      const request = mockStream.mock.calls[0]?.[0] as { config: Record<string, unknown> };
+      expect(request.config).toMatchObject({
+        systemInstruction: "<instructions>\\nBe brief\\n</instructions>",
+        abortSignal: expect.any(AbortSignal),
+      });
+      expect(llmCallPayloads(events)).toEqual([
+        expect.objectContaining({ response: "Hi there", inputTokens: 8, outputTokens: 2 }),
+      ]);
+    });
+  });
+
+  describe("LLM", () => {
+    const createLLM = async () => {
+      const llm = new LLM([
+        { provider: "openai", apiKey: "test-key", model: "gpt-5-mini" },
+        { provider: "google", apiKey: "test-key", model: "gemini-2.5-flash" },
+      ]);
+      // biome-ignore lint/suspicious/noExplicitAny: Accessing private providers for mocking
+      const [openaiProvider, googleProvider] = await (llm as any).getProviders();
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      const mockCreate: jest.MockedFunction<any> = jest.fn();
+      openaiProvider.getOpenAI().chat.completions.create = mockCreate;
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      const mockStream: jest.MockedFunction<any> = jest.fn(async () => chunks({ text: "Gemini" }));
+      googleProvider.getGenAI().models.generateContentStream = mockStream;
+      return { llm, mockCreate, mockStream };
+    };
+
+    const stream = (llm: LLM) =>
+      llm.streamContent(messages, undefined, undefined, undefined, undefined, undefined, events);
+
+    it("should fall back before the first delta", async () => {
+      const { llm, mockCreate } = await createLLM();
+      mockCreate.mockRejectedValue(new APIError(503, undefined, "Unavailable", new Headers()));
+
+      await expect(collect(stream(llm))).resolves.toEqual(["Gemini"]);
+      expect(llmCallPayloads(events).map((payload) => payload.model)).toEqual([
+        "gpt-5-mini",
+        "gemini-2.5-flash",
+      ]);
+    });
+
+    it("should not fall back once text has been streamed", async () => {
+      const { llm, mockCreate, mockStream } = await createLLM();
+      mockCreate.mockResolvedValue(
+        (async function* () {
+          yield openAIChunk("Partial");
+          throw new APIError(503, undefined, "Unavailable", new Headers());
+        })()
+      );
+
+      await expect(collect(stream(llm))).rejects.toThrow("Unavailable");
+      expect(mockStream).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "@jest/globals";
+import { context, propagation, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  type ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { Agent, type AgentOptions } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import type { Event, Message } from "../src/protocol";
+import { FakeHTTP, FakeLLMProvider, runConversation } from "../src/testing";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+class UsageReportingProvider extends FakeLLMProvider {
+  override async generateContent(
+    messages: Message[],
+    systemInstruction?: string,
+    _includePersona?: boolean,
+    _includeContext?: boolean,
+    _persona?: unknown,
+    _context?: string,
+    events: Event[] = []
+  ): Promise<string> {
+    return this.withTiming(
+      async (recordUsage) => {
+        recordUsage({ inputTokens: 12, outputTokens: 3 });
+        return "Your order has shipped.";
+      },
+      messages,
+      systemInstruction ?? "",
+      events
+    );
+  }
+}
+
+class OrderAgent extends Agent {
+  async handle(context: Context): Promise<AgentResponse> {
+    await context.http.get("https://shop.example.com/orders/1");
+    const answer = await context.llm.generateContent(context.messages, "Answer");
+    return { type: "continue", message: answer };
+  }
+}
+
+describe("OpenTelemetry tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  let http: FakeHTTP;
+
+  beforeAll(() => {
+    trace.setGlobalTracerProvider(
+      new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] })
+    );
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+
+  afterAll(() => {
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    http = new FakeHTTP().get("https://shop.example.com/orders/1", { body: { status: "shipped" } });
+  });
+
+  function createAgent(options: Partial<AgentOptions> = {}): OrderAgent {
+    return new OrderAgent({
+      llmConfig: new UsageReportingProvider(),
+      httpFetch: http.fetch,
+      ...options,
+    });
+  }
+
+  function spanNamed(name: string): ReadableSpan {
+    const span = exporter.getFinishedSpans().find((candidate) => candidate.name === name);
+    if (!span) {
+      throw new Error(`No span named ${name}`);
+    }
+    return span;
+  }
+
+  it("should trace requests with child spans for HTTP and LLM calls", async () => {
+    await runConversation(createAgent(), ["Where is my order?"], {
+      chatbotId: "chatbot-1",
+      conversationId: "conversation-1",
+    });
+
+    const root = spanNamed("zowie_agent.handle_request");
+    const httpSpan = spanNamed("GET");
+    const llmSpan = spanNamed("chat fake-model");
+
+    expect(root.kind).toBe(SpanKind.SERVER);
+    expect(root.attributes).toMatchObject({
+      "zowie.chatbot_id": "chatbot-1",
+      "zowie.conversation_id": "conversation-1",
+      "zowie.sequence": 1,
+    });
+    expect(httpSpan.kind).toBe(SpanKind.CLIENT);
+    expect(httpSpan.attributes).toMatchObject({
+      "http.request.method": "GET",
+      "url.full": "https://shop.example.com/orders/1",
+      "server.address": "shop.example.com",
+      "http.response.status_code": 200,
+    });
+    expect(llmSpan.attributes).toMatchObject({
+      "gen_ai.operation.name": "chat",
+      "gen_ai.provider.name": "fakellm",
+      "gen_ai.request.model": "fake-model",
+      "gen_ai.usage.input_tokens": 12,
+      "gen_ai.usage.output_tokens": 3,
+    });
+    for (const child of [httpSpan, llmSpan]) {
+      expect(child.spanContext().traceId).toBe(root.spanContext().traceId);
+      expect(child.parentSpanContext?.spanId).toBe(root.spanContext().spanId);
+    }
+  });
+
+  it("should leave the query string out of HTTP span URLs", async () => {
+    http.get(/tokens/, { body: {} });
+    const agent = new (class extends Agent {
+      async handle(context: Context): Promise<AgentResponse> {
+        await context.http.get("https://shop.example.com/tokens?access_token=abc#x");
+        return { type: "continue", message: "Done" };
+      }
+    })({ llmConfig: new UsageReportingProvider(), httpFetch: http.fetch });
+
+    await runConversation(agent, ["Hi"]);
+
+    expect(spanNamed("GET").attributes["url.full"]).toBe("https://shop.example.com/tokens");
+  });
+
+  it("should continue the incoming trace and propagate the HTTP span", async () => {
+    await runConversation(createAgent({ correlationHeaders: ["traceparent"] }), ["Hi"], {
+      headers: { traceparent: `00-${TRACE_ID}-00f067aa0ba902b7-01` },
+    });
+
+    const root = spanNamed("zowie_agent.handle_request");
+    const httpSpan = spanNamed("GET");
+    expect(root.spanContext().traceId).toBe(TRACE_ID);
+    expect(root.parentSpanContext?.spanId).toBe("00f067aa0ba902b7");
+    expect(http.requests[0]?.headers["traceparent"]).toBe(
+      `00-${TRACE_ID}-${httpSpan.spanContext().spanId}-01`
+    );
+  });
+
+  it("should record failures on spans", async () => {
+    const agent = createAgent({ llmConfig: new FakeLLMProvider([new Error("overloaded")]) });
+
+    await expect(runConversation(agent, ["Hi"])).rejects.toThrow("overloaded");
+
+    for (const name of ["chat fake-model", "zowie_agent.handle_request"]) {
+      expect(spanNamed(name).status).toEqual({ code: SpanStatusCode.ERROR, message: "overloaded" });
+    }
+  });
+});
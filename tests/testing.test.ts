@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { z } from "zod";
+import { Agent } from "../src/agent";
+import type { Context } from "../src/context";
+import type { AgentResponse } from "../src/domain";
+import { defineTool } from "../src/llm/tools";
+import type { Event } from "../src/protocol";
+import { InMemorySessionStore } from "../src/session";
+import { createRequest, FakeHTTP, FakeLLMProvider, runConversation } from "../src/testing";
+
+const intentSchema = z.object({
+  intent: z.enum(["order_status", "other"]),
+  orderNumber: z.string().nullable(),
+});
+
+class OrderAgent extends Agent<{ orderNumber: string }> {
+  async handle(context: Context<{ orderNumber: string }>): Promise<AgentResponse> {
+    const { intent, orderNumber } = await context.llm.generateStructuredContent(
+      context.messages,
+      intentSchema,
+      "Classify the request"
+    );
+    if (intent !== "order_status") {
+      return { type: "finish", nextBlock: "fallback" };
+    }
+
+    const order = orderNumber ?? context.session.get("orderNumber");
+    if (!order) {
+      return { type: "continue", message: "What is your order number?" };
+    }
+    context.session.set("orderNumber", order);
+
+    const response = await context.http.get(`https://shop.example.com/orders/${order}`);
+    const { status } = (await response.json()) as { status: string };
+    context.storeValue("orderStatus", status);
+    const answer = await context.llm.generateContent(
+      context.messages,
+      `Order ${order} is ${status}`
+    );
+    return { type: "continue", message: answer };
+  }
+}
+
+describe("Testing harness", () => {
+  let llm: FakeLLMProvider;
+  let http: FakeHTTP;
+  let agent: OrderAgent;
+
+  beforeEach(() => {
+    llm = new FakeLLMProvider();
+    http = new FakeHTTP().get("https://shop.example.com/orders/123456", {
+      body: { status: "shipped" },
+    });
+    agent = new OrderAgent({
+      llmConfig: llm,
+      httpFetch: http.fetch,
+      sessionStore: new InMemorySessionStore(),
+    });
+  });
+
+  it("should drive a conversation over several turns", async () => {
+    llm
+      .when(/order/i, { intent: "order_status", orderNumber: null })
+      .respondWith({ intent: "order_status", orderNumber: "123456" }, "It has shipped.");
+
+    const turns = await runConversation(agent, ["Where is my order?", "123456"]);
+
+    expect(turns.map((turn) => turn.response.command)).toEqual([
+      { type: "send_message", payload: { message: "What is your order number?" } },
+      { type: "send_message", payload: { message: "It has shipped." } },
+    ]);
+    expect(turns[1]?.request.messages.map((message) => message.author)).toEqual([
+      "User",
+      "Chatbot",
+      "User",
+    ]);
+    expect(turns[1]?.response.valuesToSave).toEqual({ orderStatus: "shipped" });
+    expect(turns[1]?.response.events?.map((event) => event.type)).toEqual([
+      "llm_call",
+      "api_call",
+      "llm_call",
+    ]);
+    expect(llm.calls.map((call) => call.method)).toEqual([
+      "generateStructuredContent",
+      "generateStructuredContent",
+      "generateContent",
+    ]);
+    expect(llm.calls[2]?.systemInstruction).toContain("Order 123456 is shipped");
+    expect(http.requests).toEqual([
+      expect.objectContaining({ method: "GET", url: "https://shop.example.com/orders/123456" }),
+    ]);
+  });
+
+  it("should build single requests with defaults", () => {
+    const history = [
+      { author: "Chatbot" as const, content: "Hi!", timestamp: "2025-01-01T00:00:00Z" },
+    ];
+
+    expect(createRequest()).toMatchObject({
+      metadata: {
+        requestId: "test-conversation-1",
+        chatbotId: "test-chatbot",
+        conversationId: "test-conversation",
+        sequence: 1,
+      },
+      messages: [{ author: "User", content: "Hello" }],
+    });
+    expect(
+      createRequest("Where is my order?", { conversationId: "conv", sequence: 2, history })
+    ).toMatchObject({
+      metadata: { requestId: "conv-2", conversationId: "conv", sequence: 2 },
+      messages: [history[0], { author: "User", content: "Where is my order?" }],
+    });
+  });
+
+  it("should reject structured responses that do not match the schema", async () => {
+    llm.respondWith({ intent: "unknown" });
+
+    await expect(runConversation(agent, ["Hi"])).rejects.toThrow(
+      "Failed to parse structured response"
+    );
+  });
+
+  it("should fail calls without a scripted response", async () => {
+    await expect(runConversation(agent, ["Hello"])).rejects.toThrow(
+      'FakeLLMProvider has no response for generateStructuredContent: "Hello"'
+    );
+  });
+
+  it("should answer from HTTP routes and fail unmatched requests", async () => {
+    http.get(/\/orders\/999999$/, { status: 404, body: { error: "not found" } });
+    const response = await http.fetch("https://shop.example.com/orders/999999");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "not found" });
+    await expect(http.fetch("https://shop.example.com/other")).rejects.toThrow(
+      "No fake HTTP route for GET https://shop.example.com/other"
+    );
+  });
+
+  describe("FakeLLMProvider", () => {
+    it("should run scripted tool calls", async () => {
+      const tool = defineTool({
+        name: "get_order",
+        description: "Look up an order",
+        inputSchema: z.object({ id: z.string() }),
+        handler: async ({ id }) => ({ id, status: "shipped" }),
+      });
+      llm.respondWith({ toolCalls: [{ name: "get_order", input: { id: "1" } }] }, (request) =>
+        request.toolResults[0]?.output.includes("shipped") ? "Shipped" : "Unknown"
+      );
+      const events: Event[] = [];
+
+      const result = await llm.generateContentWithTools(
+        [{ author: "User", content: "Status?", timestamp: new Date().toISOString() }],
+        [tool],
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+      expect(result).toBe("Shipped");
+      expect(events.map((event) => event.type)).toEqual(["llm_call", "tool_call", "llm_call"]);
+    });
+
+    it("should stream responses word by word", async () => {
+      llm.respondWith("Hello there, friend");
+
+      const deltas: string[] = [];
+      for await (const delta of llm.streamContent([])) {
+        deltas.push(delta);
+      }
+
+      expect(deltas).toEqual(["Hello ", "there, ", "friend"]);
+    });
+
+    it("should answer candidates and rethrow scripted errors", async () => {
+      llm.respondWith("A", "B", new Error("overloaded"));
+
+      await expect(llm.generateContentWithCandidates([], 2)).resolves.toEqual(["A", "B"]);
+      await expect(llm.generateContent([])).rejects.toThrow("overloaded");
+    });
+  });
+});
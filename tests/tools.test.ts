@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { z } from "zod";
+import { GoogleProvider } from "../src/llm/google";
+import { OpenAIProvider } from "../src/llm/openai";
+import { defineTool, type LLMTool } from "../src/llm/tools";
+import type { Event, Message } from "../src/protocol";
+
+const messages: Message[] = [
+  { author: "User", content: "Where is order 123?", timestamp: new Date().toISOString() },
+];
+
+describe("Tool calling", () => {
+  // biome-ignore lint/suspicious/noExplicitAny: Mocking
+  let orderHandler: jest.MockedFunction<any>;
+  let tools: LLMTool[];
+  let events: Event[];
+
+  beforeEach(() => {
+    orderHandler = jest.fn(async () => ({ status: "shipped" }));
+    tools = [
+      defineTool({
+        name: "get_order",
+        description: "Look up an order by its number",
+        inputSchema: z.object({ orderNumber: z.string() }),
+        handler: orderHandler,
+      }),
+    ];
+    events = [];
+  });
+
+  describe("OpenAIProvider", () => {
+    let provider: OpenAIProvider;
+    // biome-ignore lint/suspicious/noExplicitAny: Mocking
+    let mockCreate: jest.MockedFunction<any>;
+
+    const toolCallCompletion = (args: string) => ({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              { id: "call_1", type: "function", function: { name: "get_order", arguments: args } },
+            ],
+          },
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      provider = new OpenAIProvider(
+        { provider: "openai", apiKey: "test-key", model: "gpt-5-mini" },
+        true,
+        true,
+        false,
+        undefined,
+        3,
+        2
+      );
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      const openai = (provider as any).getOpenAI();
+      mockCreate = jest.fn();
+      openai.chat.completions.create = mockCreate;
+    });
+
+    it("should run the tool and return the final answer", async () => {
+      mockCreate
+        .mockResolvedValueOnce(toolCallCompletion('{"orderNumber":"123"}'))
+        .mockResolvedValueOnce({
+          choices: [{ message: { role: "assistant", content: "Your order has shipped." } }],
+        });
+
+      const result = await provider.generateContentWithTools(
+        messages,
+        tools,
+        "instruction",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+      expect(result).toBe("Your order has shipped.");
+      expect(orderHandler).toHaveBeenCalledWith({ orderNumber: "123" });
+
+      const secondRequest = mockCreate.mock.calls[1]?.[0] as {
+        messages: Array<{ role: string; content?: string; tool_call_id?: string }>;
+      };
+      expect(secondRequest.messages.at(-1)).toEqual({
+        role: "tool",
+        tool_call_id: "call_1",
+        content: '{"status":"shipped"}',
+      });
+
+      expect(events.map((event) => event.type)).toEqual(["llm_call", "tool_call", "llm_call"]);
+      expect(events[1]).toMatchObject({
+        type: "tool_call",
+        payload: {
+          toolName: "get_order",
+          input: '{"orderNumber":"123"}',
+          output: '{"status":"shipped"}',
+          durationInMillis: expect.any(Number),
+        },
+      });
+    });
+
+    it("should report invalid arguments back to the model", async () => {
+      mockCreate
+        .mockResolvedValueOnce(toolCallCompletion('{"orderNo":"123"}'))
+        .mockResolvedValueOnce({
+          choices: [{ message: { role: "assistant", content: "Which order?" } }],
+        });
+
+      const result = await provider.generateContentWithTools(
+        messages,
+        tools,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+      expect(result).toBe("Which order?");
+      expect(orderHandler).not.toHaveBeenCalled();
+      const toolEvent = events.find((event) => event.type === "tool_call");
+      expect(toolEvent?.type === "tool_call" && toolEvent.payload.output).toMatch(/^Error: /);
+    });
+
+    it("should stop after the configured number of iterations", async () => {
+      mockCreate.mockResolvedValue(toolCallCompletion('{"orderNumber":"123"}'));
+
+      await expect(
+        provider.generateContentWithTools(
+          messages,
+          tools,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          events
+        )
+      ).rejects.toThrow("within 2 iterations");
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(orderHandler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("GoogleProvider", () => {
+    let provider: GoogleProvider;
+    // biome-ignore lint/suspicious/noExplicitAny: Mocking
+    let mockGenerateContent: jest.MockedFunction<any>;
+
+    beforeEach(() => {
+      provider = new GoogleProvider({
+        provider: "google",
+        apiKey: "test-key",
+        model: "gemini-2.5-flash",
+      });
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      const genAI = (provider as any).getGenAI();
+      mockGenerateContent = jest.fn();
+      genAI.models.generateContent = mockGenerateContent;
+    });
+
+    it("should send function responses back and return the final answer", async () => {
+      const functionCall = { id: "fc_1", name: "get_order", args: { orderNumber: "123" } };
+      mockGenerateContent
+        .mockResolvedValueOnce({
+          functionCalls: [functionCall],
+          candidates: [{ content: { role: "model", parts: [{ functionCall }] } }],
+        })
+        .mockResolvedValueOnce({ text: "Your order has shipped." });
+
+      const result = await provider.generateContentWithTools(
+        messages,
+        tools,
+        "instruction",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+      expect(result).toBe("Your order has shipped.");
+      expect(orderHandler).toHaveBeenCalledWith({ orderNumber: "123" });
+
+      const firstRequest = mockGenerateContent.mock.calls[0]?.[0] as {
+        config: { tools: Array<{ functionDeclarations: Array<{ name: string }> }> };
+      };
+      expect(firstRequest.config.tools[0]?.functionDeclarations[0]?.name).toBe("get_order");
+
+      const secondRequest = mockGenerateContent.mock.calls[1]?.[0] as {
+        contents: Array<{ role: string; parts: unknown[] }>;
+      };
+      expect(secondRequest.contents.at(-1)).toEqual({
+        role: "user",
+        parts: [
+          {
+            functionResponse: {
+              name: "get_order",
+              id: "fc_1",
+              response: { output: '{"status":"shipped"}' },
+            },
+          },
+        ],
+      });
+      expect(events.map((event) => event.type)).toEqual(["llm_call", "tool_call", "llm_call"]);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { Context } from "../src/context";
+import type { HTTPClient } from "../src/http";
+import { GoogleProvider } from "../src/llm/google";
+import type { LLM } from "../src/llm/index";
+import { OpenAIProvider } from "../src/llm/openai";
+import { estimateCost } from "../src/llm/usage";
+import type { Event, Message, Metadata } from "../src/protocol";
+
+const messages: Message[] = [
+  { author: "User", content: "Hello", timestamp: new Date().toISOString() },
+];
+
+const pricing = {
+  "gpt-5-mini": {
+    inputPerMillionTokens: 0.25,
+    outputPerMillionTokens: 2,
+    cachedInputPerMillionTokens: 0.025,
+  },
+};
+
+describe("Token usage and cost reporting", () => {
+  describe("estimateCost", () => {
+    it("should price cached input tokens separately", () => {
+      const cost = estimateCost(
+        { inputTokens: 1_000_000, cachedTokens: 400_000, outputTokens: 500_000 },
+        pricing["gpt-5-mini"]
+      );
+
+      expect(cost).toBeCloseTo(0.6 * 0.25 + 0.4 * 0.025 + 0.5 * 2);
+    });
+
+    it("should fall back to the input price for cached tokens", () => {
+      const cost = estimateCost(
+        { inputTokens: 1_000_000, cachedTokens: 1_000_000, outputTokens: 0 },
+        { inputPerMillionTokens: 1, outputPerMillionTokens: 2 }
+      );
+
+      expect(cost).toBeCloseTo(1);
+    });
+
+    it("should return undefined without token counts", () => {
+      expect(estimateCost({}, pricing["gpt-5-mini"])).toBeUndefined();
+    });
+  });
+
+  describe("OpenAIProvider", () => {
+    const createProvider = () => {
+      const provider = new OpenAIProvider(
+        { provider: "openai", apiKey: "test-key", model: "gpt-5-mini" },
+        true,
+        true,
+        false,
+        undefined,
+        3,
+        10,
+        pricing
+      );
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      const mockCreate: jest.MockedFunction<any> = jest.fn();
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      (provider as any).getOpenAI().chat.completions.create = mockCreate;
+      return { provider, mockCreate };
+    };
+
+    it("should record token counts and estimated cost on the llm_call event", async () => {
+      const { provider, mockCreate } = createProvider();
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: "Hi" } }],
+        usage: {
+          prompt_tokens: 1000,
+          completion_tokens: 200,
+          total_tokens: 1200,
+          prompt_tokens_details: { cached_tokens: 400 },
+          completion_tokens_details: { reasoning_tokens: 150 },
+        },
+      });
+      const events: Event[] = [];
+
+      await provider.generateContent(
+        messages,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+      expect(events[0]).toMatchObject({
+        type: "llm_call",
+        payload: {
+          inputTokens: 1000,
+          outputTokens: 200,
+          cachedTokens: 400,
+          reasoningTokens: 150,
+        },
+      });
+      const payload = events[0]?.type === "llm_call" ? events[0].payload : undefined;
+      expect(payload?.estimatedCost).toBeCloseTo((600 * 0.25 + 400 * 0.025 + 200 * 2) / 1e6);
+    });
+
+    it("should keep usage of a response that failed validation", async () => {
+      const { provider, mockCreate } = createProvider();
+      mockCreate.mockResolvedValue({
+        choices: [{ message: { content: null } }],
+        usage: { prompt_tokens: 10, completion_tokens: 0, total_tokens: 10 },
+      });
+      const events: Event[] = [];
+
+      await expect(
+        provider.generateContent(
+          messages,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          events
+        )
+      ).rejects.toThrow("No content received from OpenAI");
+      expect(events[0]).toMatchObject({ payload: { inputTokens: 10, outputTokens: 0 } });
+    });
+
+    it("should omit cost for models missing from the price table", async () => {
+      const provider = new OpenAIProvider({
+        provider: "openai",
+        apiKey: "test-key",
+        model: "gpt-5-mini",
+      });
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      (provider as any).getOpenAI().chat.completions.create = jest.fn(async () => ({
+        choices: [{ message: { content: "Hi" } }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      }));
+      const events: Event[] = [];
+
+      await provider.generateContent(
+        messages,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+      const payload = events[0]?.type === "llm_call" ? events[0].payload : undefined;
+      expect(payload?.inputTokens).toBe(10);
+      expect(payload).not.toHaveProperty("estimatedCost");
+    });
+  });
+
+  describe("GoogleProvider", () => {
+    it("should count thinking tokens as output tokens", async () => {
+      const provider = new GoogleProvider({
+        provider: "google",
+        apiKey: "test-key",
+        model: "gemini-2.5-flash",
+      });
+      // biome-ignore lint/suspicious/noExplicitAny: Mocking
+      (provider as any).getGenAI().models.generateContent = jest.fn(async () => ({
+        text: "Hi",
+        usageMetadata: {
+          promptTokenCount: 100,
+          candidatesTokenCount: 20,
+          thoughtsTokenCount: 30,
+          cachedContentTokenCount: 50,
+        },
+      }));
+      const events: Event[] = [];
+
+      await provider.generateContent(
+        messages,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        events
+      );
+
+      expect(events[0]).toMatchObject({
+        payload: { inputTokens: 100, outputTokens: 50, cachedTokens: 50, reasoningTokens: 30 },
+      });
+    });
+  });
+
+  describe("Context.getUsageSummary", () => {
+    it("should aggregate usage over llm_call events", () => {
+      const metadata: Metadata = {
+        requestId: "req-1",
+        chatbotId: "bot-1",
+        conversationId: "conv-1",
+        interactionId: "int-1",
+        sequence: 1,
+      };
+      const context = new Context(
+        metadata,
+        messages,
+        "/",
+        {},
+        {},
+        jest.fn(),
+        {} as LLM,
+        {} as HTTPClient
+      );
+
+      context.logLLMCall({
+        prompt: "a",
+        response: "b",
+        model: "gpt-5-mini",
+        durationInMillis: 10,
+        inputTokens: 100,
+        outputTokens: 10,
+        estimatedCost: 0.5,
+      });
+      context.logLLMCall({
+        prompt: "c",
+        response: "d",
+        model: "other",
+        durationInMillis: 10,
+        inputTokens: 50,
+        outputTokens: 5,
+        cachedTokens: 20,
+        reasoningTokens: 2,
+      });
+      context.logAPICall({
+        url: "https://example.com",
+        requestMethod: "GET",
+        responseStatusCode: 200,
+        durationInMillis: 5,
+      });
+
+      expect(context.getUsageSummary()).toEqual({
+        llmCalls: 2,
+        inputTokens: 150,
+        outputTokens: 15,
+        cachedTokens: 20,
+        reasoningTokens: 2,
+        estimatedCost: 0.5,
+      });
+    });
+  });
+});